@@ -2,6 +2,7 @@ import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
 import React, { act } from "react";
 import { createRoot } from "react-dom/client";
 import { useFeedback } from "@/hooks/useFeedback";
+import { useSessionStream } from "@/hooks/useSessionStream";
 import type { Feedback } from "@/types/feedback";
 
 // Tell React we're in an act-enabled test environment
@@ -82,7 +83,7 @@ describe("useFeedback", () => {
   }
 
   it("tracks feedback and unread count without double-counting duplicates", () => {
-    const hook = renderHook(() => useFeedback("session-1"));
+    const hook = renderHook(() => useFeedback(useSessionStream("session-1", "token")));
 
     const es = MockEventSource.instances[0];
     expect(es).toBeDefined();
@@ -113,7 +114,7 @@ describe("useFeedback", () => {
   });
 
   it("decrements unread count when dismissing unread feedback", () => {
-    const hook = renderHook(() => useFeedback("session-2"));
+    const hook = renderHook(() => useFeedback(useSessionStream("session-2", "token")));
 
     const es = MockEventSource.instances[MockEventSource.instances.length - 1];
 
@@ -140,4 +141,113 @@ describe("useFeedback", () => {
 
     hook.unmount();
   });
+
+  it("reports how many missed questions were replayed after a reconnect", () => {
+    const hook = renderHook(() => useFeedback(useSessionStream("session-3", "token")));
+
+    const es = MockEventSource.instances[MockEventSource.instances.length - 1];
+
+    const live: Feedback = {
+      id: "f3",
+      sessionId: "session-3",
+      text: "Before the drop",
+      timestamp: new Date().toISOString(),
+    };
+    const missed: Feedback = { ...live, id: "f4", text: "During the drop" };
+
+    act(() => {
+      emitFeedback(es, live);
+    });
+
+    // The server replays everything after Last-Event-ID, possibly including
+    // items we already have
+    act(() => {
+      for (const payload of [live, missed]) {
+        es.onmessage?.({
+          data: JSON.stringify({ type: "feedback", payload, replayed: true }),
+        } as MessageEvent);
+      }
+      es.onmessage?.({
+        data: JSON.stringify({ type: "replay", count: 2 }),
+      } as MessageEvent);
+    });
+
+    expect(hook.result.feedback.length).toBe(2);
+    expect(hook.result.replayedCount).toBe(1);
+
+    act(() => {
+      hook.result.dismissReplayNotice();
+    });
+
+    expect(hook.result.replayedCount).toBe(0);
+
+    hook.unmount();
+  });
+
+  it("keeps pending questions in a moderation queue until they are decided", () => {
+    const hook = renderHook(() => useFeedback(useSessionStream("session-4", "token")));
+
+    const es = MockEventSource.instances[MockEventSource.instances.length - 1];
+
+    const first: Feedback = {
+      id: "f5",
+      sessionId: "session-4",
+      text: "Awaiting review",
+      timestamp: new Date().toISOString(),
+      status: "pending",
+    };
+    const second: Feedback = { ...first, id: "f6", text: "Also waiting" };
+
+    act(() => {
+      for (const payload of [first, second]) {
+        es.onmessage?.({
+          data: JSON.stringify({ type: "pending", payload }),
+        } as MessageEvent);
+      }
+    });
+
+    expect(hook.result.pendingFeedback.map((f) => f.id)).toEqual(["f5", "f6"]);
+    expect(hook.result.feedback.length).toBe(0);
+
+    act(() => {
+      emitFeedback(es, { ...first, status: "approved" });
+      es.onmessage?.({
+        data: JSON.stringify({ type: "rejected", payload: { ...second, status: "rejected" } }),
+      } as MessageEvent);
+    });
+
+    expect(hook.result.pendingFeedback.length).toBe(0);
+    expect(hook.result.feedback.map((f) => f.id)).toEqual(["f5"]);
+
+    hook.unmount();
+  });
+
+  it("shares one stream connection with other subscribers", () => {
+    const otherMessages: string[] = [];
+    const hook = renderHook(() => {
+      const stream = useSessionStream("session-5", "token");
+      React.useEffect(
+        () => stream?.subscribe({ onMessage: (data) => otherMessages.push(data.type) }),
+        [stream]
+      );
+      return useFeedback(stream);
+    });
+
+    expect(MockEventSource.instances.length).toBe(1);
+    const es = MockEventSource.instances[0];
+
+    act(() => {
+      emitFeedback(es, {
+        id: "f7",
+        sessionId: "session-5",
+        text: "Shared stream",
+        timestamp: new Date().toISOString(),
+      });
+    });
+
+    expect(hook.result.feedback.map((f) => f.id)).toEqual(["f7"]);
+    expect(otherMessages).toEqual(["feedback"]);
+
+    hook.unmount();
+  });
 });
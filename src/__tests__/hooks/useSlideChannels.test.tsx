@@ -108,4 +108,91 @@ describe("useSlideChannels", () => {
 
     hook.unmount();
   });
+
+  it("orders the audience channel by upvotes combined with gate priority", () => {
+    const hook = renderHook(() => useSlideChannels());
+
+    act(() => {
+      hook.result.appendAudienceSlide({ id: "a", feedbackId: "fa", source: "question" });
+      hook.result.appendAudienceSlide({ id: "b", feedbackId: "fb", source: "question", priority: "high" });
+      hook.result.appendAudienceSlide({ id: "c", feedbackId: "fc", source: "question", priority: "low" });
+    });
+
+    expect(hook.result.audienceChannel.queue.map((s) => s.id)).toEqual(["b", "a", "c"]);
+    // The slide the presenter was looking at stays selected
+    expect(hook.result.getChannelSlide("audience")?.id).toBe("a");
+
+    act(() => {
+      hook.result.updateAudienceVotes({ fa: 1, fc: 6 });
+    });
+
+    expect(hook.result.audienceChannel.queue.map((s) => s.id)).toEqual(["c", "b", "a"]);
+    expect(hook.result.getChannelSlide("audience")?.id).toBe("a");
+
+    hook.unmount();
+  });
+
+  it("applies curator decisions against the options it was shown", () => {
+    const hook = renderHook(() => useSlideChannels());
+
+    act(() => {
+      hook.result.addToExploratoryChannel({ id: "old-2" });
+      hook.result.addToExploratoryChannel({ id: "old-1" });
+    });
+    act(() => {
+      hook.result.navigateChannel("exploratory", "prev");
+    });
+
+    const shown = hook.result.slideOptions;
+    expect(shown.map((s) => s?.id)).toEqual(["old-1", "old-2"]);
+
+    act(() => {
+      hook.result.applyCuratorDecision(
+        { id: "new" },
+        { action: "replace_slot_2", reasoning: "Stronger than option 2" },
+        shown
+      );
+    });
+
+    expect(hook.result.exploratoryChannel.queue.map((s) => s.id)).toEqual(["old-1", "new"]);
+    expect(hook.result.slideOptions[1]?.curatorReasoning).toBe("Stronger than option 2");
+    expect(hook.result.slideOptions[1]?.source).toBe("exploratory");
+
+    act(() => {
+      hook.result.applyCuratorDecision(
+        { id: "discarded" },
+        { action: "discard", reasoning: "Too similar" },
+        hook.result.slideOptions
+      );
+    });
+
+    expect(hook.result.exploratoryChannel.queue.map((s) => s.id)).toEqual(["old-1", "new"]);
+
+    hook.unmount();
+  });
+
+  it("fills the slot when the replaced slide is no longer queued", () => {
+    const hook = renderHook(() => useSlideChannels());
+
+    act(() => {
+      hook.result.addToExploratoryChannel({ id: "only" });
+    });
+
+    const shown = hook.result.slideOptions;
+
+    act(() => {
+      hook.result.takeSlideFromChannel("exploratory");
+    });
+    act(() => {
+      hook.result.applyCuratorDecision(
+        { id: "new" },
+        { action: "replace_slot_1", reasoning: "Slot 1 was empty" },
+        shown
+      );
+    });
+
+    expect(hook.result.exploratoryChannel.queue.map((s) => s.id)).toEqual(["new"]);
+
+    hook.unmount();
+  });
 });
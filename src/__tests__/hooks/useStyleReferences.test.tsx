@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import React, { act } from "react";
+import { createRoot } from "react-dom/client";
+import { useStyleReferences } from "@/hooks/useStyleReferences";
+import type { SlideData } from "@/types/slides";
+
+// Tell React we're in an act-enabled test environment
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+function renderHook<TResult>(render: () => TResult) {
+  const container = document.createElement("div");
+  document.body.appendChild(container);
+
+  const resultRef: { current: TResult | undefined } = { current: undefined };
+
+  function TestComponent() {
+    resultRef.current = render();
+    return null;
+  }
+
+  const root = createRoot(container);
+
+  act(() => {
+    root.render(<TestComponent />);
+  });
+
+  return {
+    get result() {
+      return resultRef.current as TResult;
+    },
+    unmount() {
+      act(() => root.unmount());
+      document.body.removeChild(container);
+    },
+  };
+}
+
+const slide = (id: string, extra: Partial<SlideData> = {}): SlideData => ({
+  id,
+  headline: `Slide ${id}`,
+  ...extra,
+});
+
+describe("useStyleReferences", () => {
+  it("uses the first two accepted slides, skipping poll results", () => {
+    const hook = renderHook(() => useStyleReferences());
+
+    act(() => {
+      hook.result.addAutoStyleReference(
+        slide("poll", { poll: { question: "Q", options: [], totalVotes: 0 } }),
+        1
+      );
+      hook.result.addAutoStyleReference(slide("a"), 2);
+      hook.result.addAutoStyleReference(slide("b"), 3);
+      hook.result.addAutoStyleReference(slide("c"), 4);
+    });
+
+    expect(hook.result.styleAnchors.map((a) => a.slideId)).toEqual(["a", "b"]);
+    expect(hook.result.styleReferencesRef.current).toHaveLength(2);
+
+    hook.unmount();
+  });
+
+  it("lets the presenter pick anchors, which stops automatic picks", () => {
+    const hook = renderHook(() => useStyleReferences());
+
+    act(() => {
+      hook.result.addAutoStyleReference(slide("a"), 1);
+      hook.result.toggleStyleAnchor(slide("a"), 1);
+    });
+    expect(hook.result.styleAnchors).toEqual([]);
+
+    act(() => {
+      hook.result.addAutoStyleReference(slide("b"), 2);
+      hook.result.toggleStyleAnchor(slide("c"), 3);
+      hook.result.toggleStyleAnchor(slide("d"), 4);
+      hook.result.toggleStyleAnchor(slide("e"), 5);
+      hook.result.toggleStyleAnchor(slide("f"), 6);
+    });
+
+    // At most three anchors, oldest dropped first
+    expect(hook.result.styleAnchors.map((a) => a.slideId)).toEqual(["d", "e", "f"]);
+
+    act(() => {
+      hook.result.resetStyleReferences();
+      hook.result.addAutoStyleReference(slide("g"), 1);
+    });
+    expect(hook.result.styleAnchors.map((a) => a.slideId)).toEqual(["g"]);
+
+    hook.unmount();
+  });
+});
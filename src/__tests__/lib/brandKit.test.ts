@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildBrandKitPrompt,
+  getBrandKitPalette,
+  getLogoInlineData,
+  parseBrandKit,
+} from "@/lib/brandKit";
+
+const colors = {
+  primary: "#2563EB",
+  secondary: "#1e293b",
+  background: "#0f172a",
+  text: "#f8fafc",
+};
+
+describe("brandKit", () => {
+  it("accepts a minimal kit and normalizes colors", () => {
+    const result = parseBrandKit({ colors, fonts: { heading: "", body: "Inter" }, toneKeywords: [] });
+
+    expect(result.error).toBeUndefined();
+    expect(result.brandKit).toEqual({
+      colors: { ...colors, primary: "#2563eb", accent: undefined },
+      fonts: { body: "Inter" },
+    });
+  });
+
+  it("rejects missing or malformed colors", () => {
+    expect(parseBrandKit({ colors: { ...colors, text: undefined } }).error).toBe(
+      "colors.text is required"
+    );
+    expect(parseBrandKit({ colors: { ...colors, primary: "blue" } }).error).toBe(
+      "colors.primary must be a hex color"
+    );
+  });
+
+  it("only accepts raster logos as data URLs", () => {
+    const svgLogo = { dataUrl: "data:image/svg+xml;base64,PHN2Zz4=", placement: "top-left" };
+    expect(parseBrandKit({ colors, logo: svgLogo }).error).toMatch(/logo/);
+
+    const result = parseBrandKit({
+      colors,
+      logo: { dataUrl: "data:image/png;base64,iVBORw0KGgo=", placement: "nowhere" },
+    });
+    expect(result.brandKit?.logo?.placement).toBe("bottom-right");
+    expect(getLogoInlineData(result.brandKit!)).toEqual({
+      mimeType: "image/png",
+      data: "iVBORw0KGgo=",
+    });
+  });
+
+  it("limits the decoded logo size to 200KB", () => {
+    const logoOfSize = (bytes: number) => ({
+      dataUrl: `data:image/png;base64,${Buffer.alloc(bytes).toString("base64")}`,
+    });
+    expect(parseBrandKit({ colors, logo: logoOfSize(200 * 1024) }).brandKit?.logo).toBeDefined();
+    expect(parseBrandKit({ colors, logo: logoOfSize(200 * 1024 + 1) }).error).toBe(
+      "logo must be a PNG, JPEG or WebP image under 200KB"
+    );
+  });
+
+  it("describes colors, fonts, tone and logo in the image prompt", () => {
+    const { brandKit } = parseBrandKit({
+      name: "Acme",
+      colors,
+      fonts: { heading: "Montserrat" },
+      toneKeywords: ["confident", "minimal"],
+      logo: { dataUrl: "data:image/png;base64,iVBORw0KGgo=", placement: "top-right" },
+    });
+    const prompt = buildBrandKitPrompt(brandKit!);
+
+    expect(prompt).toContain("(Acme)");
+    expect(prompt).toContain("primary #2563eb");
+    expect(prompt).toContain("headings in Montserrat");
+    expect(prompt).toContain("Tone: confident, minimal");
+    expect(prompt).toContain("top right corner");
+  });
+
+  it("maps brand colors onto the template palette", () => {
+    const { brandKit } = parseBrandKit({ colors });
+    const palette = getBrandKitPalette(brandKit!);
+
+    expect(palette.background).toBe("#0f172a");
+    expect(palette.surface).toBe("#1e293b");
+    expect(palette.accent).toBe("#2563eb");
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { formatChartValue, parseChartData } from "@/lib/charts";
+
+describe("charts", () => {
+  it("accepts complete series and numeric strings", () => {
+    expect(
+      parseChartData({
+        type: "line",
+        labels: [" 2022 ", "2023", "2024"],
+        series: [
+          { name: "Users", values: [10, "12.5", 20] },
+          { name: "Too short", values: [1, 2] },
+        ],
+        unit: "k",
+      })
+    ).toEqual({
+      type: "line",
+      labels: ["2022", "2023", "2024"],
+      series: [{ name: "Users", values: [10, 12.5, 20] }],
+      unit: "k",
+    });
+  });
+
+  it("rejects unknown types, single labels and series without numbers", () => {
+    expect(parseChartData({ type: "radar", labels: ["a", "b"], series: [{ values: [1, 2] }] })).toBeNull();
+    expect(parseChartData({ type: "bar", labels: ["a"], series: [{ values: [1] }] })).toBeNull();
+    expect(parseChartData({ type: "bar", labels: ["a", "b"], series: [{ values: [1, "lots"] }] })).toBeNull();
+    expect(parseChartData(null)).toBeNull();
+  });
+
+  it("keeps one non-negative series for pie charts", () => {
+    const pie = parseChartData({
+      type: "pie",
+      labels: ["a", "b"],
+      series: [
+        { name: "Share", values: [60, 40] },
+        { name: "Extra", values: [1, 1] },
+      ],
+    });
+    expect(pie?.series).toHaveLength(1);
+    expect(parseChartData({ type: "pie", labels: ["a", "b"], series: [{ values: [-1, 2] }] })).toBeNull();
+  });
+
+  it("formats values with their unit", () => {
+    expect(formatChartValue(1234.567)).toBe("1,234.57");
+    expect(formatChartValue(42, "%")).toBe("42%");
+    expect(formatChartValue(-5, "$")).toBe("-$5");
+    expect(formatChartValue(3, "users")).toBe("3 users");
+  });
+});
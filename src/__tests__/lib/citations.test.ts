@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { buildReferencesSlide, collectSessionSources, normalizeSources } from "@/lib/citations";
+import type { SlideData } from "@/types/slides";
+
+describe("citations", () => {
+  it("keeps only http(s) sources, deduplicated and capped", () => {
+    const sources = normalizeSources(
+      [
+        { title: "Report", url: "https://example.com/report" },
+        { title: "Duplicate", url: "https://example.com/report" },
+        { title: "Script", url: "javascript:alert(1)" },
+        { title: "Broken", url: "not a url" },
+        { url: "https://www.stats.org/table" },
+        null,
+      ],
+      5
+    );
+
+    expect(sources).toEqual([
+      { title: "Report", url: "https://example.com/report" },
+      { title: "stats.org", url: "https://www.stats.org/table" },
+    ]);
+    expect(normalizeSources("nope")).toEqual([]);
+    expect(
+      normalizeSources(
+        Array.from({ length: 10 }, (_, i) => ({ title: `S${i}`, url: `https://example.com/${i}` }))
+      )
+    ).toHaveLength(5);
+  });
+
+  it("builds a references slide from every cited source in order", () => {
+    const slides: SlideData[] = [
+      { id: "1", sources: [{ title: "A", url: "https://a.example" }] },
+      { id: "2" },
+      {
+        id: "3",
+        sources: [
+          { title: "B", url: "https://b.example" },
+          { title: "A again", url: "https://a.example" },
+        ],
+      },
+    ];
+
+    expect(collectSessionSources(slides).map((s) => s.title)).toEqual(["A", "B"]);
+
+    const slide = buildReferencesSlide(slides);
+    expect(slide?.source).toBe("references");
+    expect(slide?.headline).toBe("References");
+    expect(slide?.sources?.map((s) => s.url)).toEqual(["https://a.example", "https://b.example"]);
+
+    // A previous references slide does not count towards the next one
+    expect(collectSessionSources([...slides, slide!])).toHaveLength(2);
+  });
+
+  it("has no references slide when nothing was cited", () => {
+    expect(buildReferencesSlide([{ id: "1" }])).toBeNull();
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { MAX_DIAGRAM_SOURCE_LENGTH, normalizeDiagramSource, parseDiagram } from "@/lib/diagram";
+
+describe("diagram", () => {
+  it("parses flowcharts with shapes, chained arrows and labels", () => {
+    const result = parseDiagram(`flowchart LR
+      %% checkout flow
+      A[Cart] --> B{Paid?}
+      B -->|yes| C(Ship) -.-> D[(Warehouse)]
+      B ==> A`);
+
+    expect(result).toEqual({
+      diagram: {
+        kind: "flowchart",
+        direction: "LR",
+        nodes: [
+          { id: "A", label: "Cart", shape: "rect" },
+          { id: "B", label: "Paid?", shape: "diamond" },
+          { id: "C", label: "Ship", shape: "round" },
+          { id: "D", label: "Warehouse", shape: "round" },
+        ],
+        edges: [
+          { from: "A", to: "B", label: undefined, style: "solid", arrow: true },
+          { from: "B", to: "C", label: "yes", style: "solid", arrow: true },
+          { from: "C", to: "D", label: undefined, style: "dashed", arrow: true },
+          { from: "B", to: "A", label: undefined, style: "thick", arrow: true },
+        ],
+      },
+    });
+    expect(parseDiagram("graph TD\nA --- B")).toMatchObject({ diagram: { direction: "TB" } });
+  });
+
+  it("parses sequence diagrams and adds participants as they appear", () => {
+    const result = parseDiagram(`sequenceDiagram
+      participant U as User
+      autonumber
+      U->>API: Sign in
+      API-->>U: Token`);
+
+    expect(result).toEqual({
+      diagram: {
+        kind: "sequence",
+        participants: [
+          { id: "U", label: "User" },
+          { id: "API", label: "API" },
+        ],
+        messages: [
+          { from: "U", to: "API", label: "Sign in", dashed: false },
+          { from: "API", to: "U", label: "Token", dashed: true },
+        ],
+      },
+    });
+  });
+
+  it("reports what is wrong and where", () => {
+    expect(parseDiagram("pie\nA: 1")).toHaveProperty("error");
+    expect(parseDiagram("flowchart LR\nA[Start] --> B\nB ~~> C")).toEqual({
+      error: 'Line 3: can\'t read "~~> C"',
+    });
+    expect(parseDiagram("sequenceDiagram\nhello")).toEqual({
+      error: "Line 2: expected a message such as A->>B: Label",
+    });
+    expect(parseDiagram("x".repeat(MAX_DIAGRAM_SOURCE_LENGTH + 1))).toHaveProperty("error");
+  });
+
+  it("keeps only diagram text that parses", () => {
+    expect(normalizeDiagramSource("  flowchart TD\nA --> B  ")).toBe("flowchart TD\nA --> B");
+    expect(normalizeDiagramSource("not a diagram")).toBeUndefined();
+    expect(normalizeDiagramSource(42)).toBeUndefined();
+  });
+});
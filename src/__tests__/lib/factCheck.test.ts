@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { buildCorrectionSlideContent, isFlaggedVerdict, parseFactCheckClaims } from "@/lib/factCheck";
+
+const sources = [{ title: "census.gov", url: "https://www.census.gov/data" }];
+
+describe("factCheck", () => {
+  it("keeps well-formed claims and attaches the segment's sources", () => {
+    const claims = parseFactCheckClaims(
+      [
+        {
+          claim: "The US has 500 million people",
+          verdict: "inaccurate",
+          explanation: "The census puts it at about 335 million.",
+          correction: "The US has about 335 million people",
+        },
+        { claim: "Water boils at 100C at sea level", verdict: "accurate", correction: "n/a" },
+        { claim: "", verdict: "inaccurate" },
+        { claim: "Something", verdict: "probably" },
+        "not an object",
+      ],
+      sources
+    );
+
+    expect(claims).toHaveLength(2);
+    expect(claims[0]).toMatchObject({
+      claim: "The US has 500 million people",
+      verdict: "inaccurate",
+      correction: "The US has about 335 million people",
+      sources,
+    });
+    // Corrections only make sense for flagged claims
+    expect(claims[1].correction).toBeUndefined();
+    expect(parseFactCheckClaims(undefined)).toEqual([]);
+  });
+
+  it("flags only inaccurate and misleading claims", () => {
+    expect(isFlaggedVerdict("inaccurate")).toBe(true);
+    expect(isFlaggedVerdict("misleading")).toBe(true);
+    expect(isFlaggedVerdict("accurate")).toBe(false);
+    expect(isFlaggedVerdict("unverifiable")).toBe(false);
+  });
+
+  it("builds correction slide content that quotes the original claim", () => {
+    const [claim] = parseFactCheckClaims(
+      [
+        {
+          claim: "Revenue tripled last year",
+          verdict: "misleading",
+          explanation: "It tripled over three years.",
+          correction: "Revenue tripled over three years",
+        },
+      ],
+      sources
+    );
+
+    const content = buildCorrectionSlideContent(claim);
+    expect(content.headline).toBe("Correction");
+    expect(content.subheadline).toBe("Revenue tripled over three years");
+    expect(content.bullets[0]).toContain("Revenue tripled last year");
+    expect(content.sources).toEqual(sources);
+  });
+});
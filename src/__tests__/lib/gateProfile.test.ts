@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_GATE_PROFILE,
+  buildGateProfilePrompt,
+  getGateTimings,
+  isCategoryAllowed,
+  limitBullets,
+  normalizeGateProfile,
+} from "@/lib/gateProfile";
+
+describe("gateProfile", () => {
+  it("falls back to defaults for missing or invalid fields", () => {
+    expect(normalizeGateProfile(undefined)).toEqual(DEFAULT_GATE_PROFILE);
+    expect(
+      normalizeGateProfile({
+        sensitivity: "extreme",
+        minSecondsBetweenSlides: 10_000,
+        allowedCategories: ["data", "memes", "quote"],
+        maxBullets: -2,
+        tone: "academic",
+        maxSlideAgeSeconds: "soon",
+      })
+    ).toEqual({
+      sensitivity: "medium",
+      minSecondsBetweenSlides: 600,
+      allowedCategories: ["data", "quote"],
+      maxBullets: 0,
+      tone: "academic",
+      maxSlideAgeSeconds: 60,
+    });
+  });
+
+  it("keeps the original gate timings at medium sensitivity", () => {
+    expect(getGateTimings(DEFAULT_GATE_PROFILE)).toEqual({
+      debounceMs: 900,
+      minTranscriptChars: 30,
+      firstSlideMinChars: 20,
+      exploratoryIntervalMs: 20000,
+    });
+    const high = getGateTimings({ ...DEFAULT_GATE_PROFILE, sensitivity: "high" });
+    const low = getGateTimings({ ...DEFAULT_GATE_PROFILE, sensitivity: "low" });
+    expect(high.minTranscriptChars).toBeLessThan(low.minTranscriptChars);
+  });
+
+  it("allows intro slides even when categories are restricted", () => {
+    const profile = { ...DEFAULT_GATE_PROFILE, allowedCategories: ["data"] };
+    expect(isCategoryAllowed(profile, "Data")).toBe(true);
+    expect(isCategoryAllowed(profile, "intro")).toBe(true);
+    expect(isCategoryAllowed(profile, "quote")).toBe(false);
+    expect(isCategoryAllowed(DEFAULT_GATE_PROFILE, "anything")).toBe(true);
+  });
+
+  it("puts the preferences in the prompt and enforces the bullet limit", () => {
+    const profile = { ...DEFAULT_GATE_PROFILE, sensitivity: "low" as const, maxBullets: 2, tone: "bold" as const };
+    const prompt = buildGateProfilePrompt(profile);
+    expect(prompt).toContain("Be selective");
+    expect(prompt).toContain("at most 2 bullets");
+    expect(prompt).toContain("punchy");
+    expect(buildGateProfilePrompt(profile, { includeSensitivity: false })).not.toContain("Be selective");
+
+    expect(limitBullets(["a", "b", "c"], profile)).toEqual(["a", "b"]);
+    expect(limitBullets(undefined, profile)).toBeUndefined();
+  });
+});
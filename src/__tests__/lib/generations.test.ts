@@ -0,0 +1,56 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createGenerationRegistry, isAbortError } from "@/lib/generations";
+
+describe("generations", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-01-01T00:00:00.000Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("aborts a generation once its source transcript is too old", () => {
+    const registry = createGenerationRegistry();
+    const generation = registry.start({ sourceAt: Date.now() - 20_000, maxAgeMs: 30_000 });
+
+    vi.advanceTimersByTime(9_000);
+    expect(generation.isCancelled()).toBe(false);
+
+    vi.advanceTimersByTime(1_000);
+    expect(generation.signal.aborted).toBe(true);
+    expect(generation.isCancelled()).toBe(true);
+    expect(registry.activeCount).toBe(0);
+  });
+
+  it("never expires without an age limit and stops tracking finished generations", () => {
+    const registry = createGenerationRegistry();
+    const generation = registry.start({ maxAgeMs: 0 });
+
+    vi.advanceTimersByTime(3_600_000);
+    expect(generation.isCancelled()).toBe(false);
+
+    generation.finish();
+    registry.abortAll();
+    expect(generation.signal.aborted).toBe(false);
+    expect(registry.activeCount).toBe(0);
+  });
+
+  it("aborts everything in flight when stopped", () => {
+    const registry = createGenerationRegistry();
+    const gate = registry.start({ maxAgeMs: 60_000 });
+    const question = registry.start();
+
+    registry.abortAll();
+    expect(gate.isCancelled()).toBe(true);
+    expect(question.isCancelled()).toBe(true);
+    expect(registry.activeCount).toBe(0);
+  });
+
+  it("recognizes abort errors from fetch", () => {
+    expect(isAbortError(new DOMException("Aborted", "AbortError"))).toBe(true);
+    expect(isAbortError(new Error("Network down"))).toBe(false);
+    expect(isAbortError(null)).toBe(false);
+  });
+});
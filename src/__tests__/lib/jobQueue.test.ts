@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createJobQueue, type JobContext } from "@/lib/jobQueue";
+import { STALE_JOB_ERROR, type GenerationJob } from "@/types/jobs";
+
+// A job runner the test finishes by hand
+function deferredRunner() {
+  let resolve: () => void = () => {};
+  let context: JobContext | null = null;
+  const run = (ctx: JobContext) => {
+    context = ctx;
+    ctx.update({ state: "gating" });
+    return new Promise<{ gate: { shouldCreateSlide: boolean } }>((done, fail) => {
+      resolve = () => done({ gate: { shouldCreateSlide: false } });
+      ctx.signal.addEventListener("abort", () => fail(new DOMException("Aborted", "AbortError")));
+    });
+  };
+  return { run, finish: () => resolve(), getContext: () => context };
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("jobQueue", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("runs jobs within the per-session limit and publishes each stage", async () => {
+    const published: GenerationJob[] = [];
+    const queue = createJobQueue({
+      publish: (job) => {
+        published.push(job);
+        return true;
+      },
+      maxConcurrentPerSession: 1,
+    });
+
+    const first = deferredRunner();
+    const second = deferredRunner();
+    const firstJob = queue.enqueue("s1", { run: first.run })!;
+    const secondJob = queue.enqueue("s1", { run: second.run })!;
+
+    expect(queue.getJobs("s1").map((job) => job.state)).toEqual(["gating", "queued"]);
+    expect(second.getContext()).toBeNull();
+    // The queued job waits for the running one, so it's expected to finish later
+    const [running, waiting] = queue.getJobs("s1");
+    expect(waiting.estimatedDoneAt! > running.estimatedDoneAt!).toBe(true);
+
+    first.finish();
+    await flush();
+
+    const states = queue.getJobs("s1").map((job) => job.state);
+    expect(states).toEqual(["done", "gating"]);
+    expect(queue.getJobs("s1")[0].estimatedDoneAt).toBeUndefined();
+    expect(published.filter((job) => job.id === firstJob.id).map((job) => job.state)).toEqual(
+      expect.arrayContaining(["queued", "gating", "done"])
+    );
+    expect(published.some((job) => job.id === secondJob.id && job.state === "gating")).toBe(true);
+  });
+
+  it("cancels a removed job without reporting it as failed", async () => {
+    const published: GenerationJob[] = [];
+    const queue = createJobQueue({
+      publish: (job) => {
+        published.push(job);
+        return true;
+      },
+    });
+
+    const runner = deferredRunner();
+    const job = queue.enqueue("s1", { run: runner.run })!;
+    expect(queue.remove("s1", job.id)).toBe(true);
+    await flush();
+
+    expect(runner.getContext()?.signal.aborted).toBe(true);
+    expect(queue.getJobs("s1")).toEqual([]);
+    expect(published.some((update) => update.state === "failed")).toBe(false);
+    expect(queue.remove("s1", job.id)).toBe(false);
+  });
+
+  it("fails a queued job once its transcript is too old", () => {
+    vi.useFakeTimers();
+    const queue = createJobQueue({ publish: () => true, maxConcurrentPerSession: 1 });
+
+    queue.enqueue("s1", { run: deferredRunner().run });
+    const stale = queue.enqueue("s1", { run: deferredRunner().run, maxAgeMs: 5_000 })!;
+
+    vi.advanceTimersByTime(5_000);
+    const job = queue.getJobs("s1").find((entry) => entry.id === stale.id);
+    expect(job).toMatchObject({ state: "failed", error: STALE_JOB_ERROR });
+  });
+
+  it("drops a session's jobs once it can no longer be published to", () => {
+    let sessionAlive = true;
+    const queue = createJobQueue({ publish: () => sessionAlive });
+
+    queue.enqueue("s1", { run: deferredRunner().run });
+    sessionAlive = false;
+    queue.enqueue("s1", { run: deferredRunner().run });
+
+    expect(queue.getJobs("s1")).toEqual([]);
+  });
+});
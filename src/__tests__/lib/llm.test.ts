@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  createMockClient,
+  createOpenAICompatibleClient,
+  getLLMClient,
+  getLLMConfigError,
+} from "@/lib/llm";
+
+describe("llm", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it("selects the provider from env and reports missing keys", () => {
+    vi.stubEnv("LLM_PROVIDER", "mock");
+    expect(getLLMConfigError()).toBeNull();
+    expect(getLLMClient().provider).toBe("mock");
+
+    vi.stubEnv("LLM_PROVIDER", "");
+    vi.stubEnv("GOOGLE_API_KEY", "");
+    expect(getLLMConfigError()).toMatch(/GOOGLE_API_KEY/);
+
+    vi.stubEnv("LLM_PROVIDER", "openai");
+    vi.stubEnv("LLM_BASE_URL", "http://localhost:11434/v1");
+    expect(getLLMConfigError()).toBeNull();
+    expect(getLLMClient().provider).toBe("openai");
+  });
+
+  it("returns deterministic task-shaped responses from the mock provider", async () => {
+    const llm = createMockClient();
+
+    const gate = await llm.generate({
+      task: "slide-gate",
+      prompt: "ignored",
+      subject: "we cut onboarding time in half",
+    });
+    expect(gate.functionCall?.name).toBe("create_slide");
+    expect(gate.functionCall?.args.headline).toBe("We cut onboarding time in half");
+
+    const first = await llm.generate({ task: "answer-question", prompt: "a", subject: "Why?" });
+    const second = await llm.generate({ task: "answer-question", prompt: "b", subject: "Why?" });
+    expect(first).toEqual(second);
+    expect(JSON.parse(first.text).headline).toBe("Why?");
+  });
+
+  it("sends OpenAI-style chat requests and reads tool calls", async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        choices: [
+          {
+            message: {
+              content: null,
+              tool_calls: [
+                { function: { name: "curator_decision", arguments: '{"action":"discard"}' } },
+              ],
+            },
+          },
+        ],
+      }),
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const llm = createOpenAICompatibleClient({
+      baseUrl: "http://localhost:1234/v1/",
+      models: { standard: "big", fast: "small" },
+    });
+    const result = await llm.generate({
+      task: "slide-curator",
+      prompt: "Pick one",
+      tier: "fast",
+      functions: [
+        {
+          name: "curator_decision",
+          description: "Decide",
+          parameters: { type: "object", properties: { action: { type: "string" } } },
+        },
+      ],
+    });
+
+    expect(result.functionCall).toEqual({ name: "curator_decision", args: { action: "discard" } });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("http://localhost:1234/v1/chat/completions");
+    const body = JSON.parse(init.body);
+    expect(body.model).toBe("small");
+    expect(body.tools[0].function.name).toBe("curator_decision");
+    expect(init.headers.Authorization).toBeUndefined();
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { scrubText, toPublicFeedback } from "@/lib/moderation";
+
+describe("moderation", () => {
+  it("masks emails and phone numbers", () => {
+    const result = scrubText("Email me at jane.doe@example.com or call +1 (555) 123-4567", []);
+    expect(result.text).toBe("Email me at [email] or call [phone]");
+    expect(result.flags).toEqual(["email", "phone"]);
+  });
+
+  it("leaves short numbers alone", () => {
+    const result = scrubText("What changed between 2019 and 2024?", []);
+    expect(result.text).toBe("What changed between 2019 and 2024?");
+    expect(result.flags).toEqual([]);
+  });
+
+  it("masks blocklisted terms as whole words", () => {
+    const result = scrubText("Darn it, darnation", ["darn"]);
+    expect(result.text).toBe("**** it, darnation");
+    expect(result.flags).toEqual(["blocked"]);
+  });
+
+  it("shares only scrubbed text with the audience", () => {
+    const shared = toPublicFeedback({
+      id: "f1",
+      sessionId: "s1",
+      text: "Mail jane@example.com",
+      originalText: "Mail jane@example.com now",
+      timestamp: "2025-01-01T00:00:00.000Z",
+      votes: 2,
+      status: "approved",
+      reviewReason: "Possible prompt injection",
+    });
+    expect(shared).toEqual({
+      id: "f1",
+      sessionId: "s1",
+      text: "Mail [email]",
+      timestamp: "2025-01-01T00:00:00.000Z",
+      votes: 2,
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatOutlineForPrompt,
+  formatOutlineText,
+  getSectionProgress,
+  normalizeOutline,
+  parseOutlineText,
+} from "@/lib/outline";
+
+describe("outline", () => {
+  it("parses sections, durations and key points from plain text", () => {
+    const outline = parseOutlineText(`# 1. Why this matters (3 min)
+- Onboarding is slow
+  Support costs are rising
+Our approach - 10m
+* Three-step rollout
+
+Next steps`);
+
+    expect(outline).toEqual([
+      {
+        id: "section-1",
+        title: "Why this matters",
+        keyPoints: ["Onboarding is slow", "Support costs are rising"],
+        targetMinutes: 3,
+      },
+      { id: "section-2", title: "Our approach", keyPoints: ["Three-step rollout"], targetMinutes: 10 },
+      { id: "section-3", title: "Next steps", keyPoints: [], targetMinutes: undefined },
+    ]);
+    expect(parseOutlineText(formatOutlineText(outline))).toEqual(outline);
+  });
+
+  it("drops malformed sections from request bodies", () => {
+    expect(
+      normalizeOutline([
+        { id: "a", title: " Intro ", keyPoints: ["Hello", 3, ""], targetMinutes: -1 },
+        { id: "a", title: "Duplicate id" },
+        { id: "b", title: "" },
+        { title: "No id" },
+        null,
+      ])
+    ).toEqual([{ id: "a", title: "Intro", keyPoints: ["Hello"], targetMinutes: undefined }]);
+    expect(normalizeOutline("nope")).toEqual([]);
+  });
+
+  it("marks the current section for the gate", () => {
+    const outline = parseOutlineText("Intro\n- Hello\nDemo");
+    expect(formatOutlineForPrompt(outline, "section-2")).toBe("1. Intro\n   - Hello\n2. Demo <- CURRENT");
+  });
+
+  it("tracks time per section and flags overtime", () => {
+    const outline = parseOutlineText("Intro (1 min)\nDemo (5 min)\nQ&A");
+    const progress = getSectionProgress(outline, "section-2", { "section-1": 90_000 }, 1_000, 61_000);
+
+    expect(progress.map((p) => p.status)).toEqual(["done", "current", "upcoming"]);
+    expect(progress.map((p) => p.elapsedMs)).toEqual([90_000, 60_000, 0]);
+    expect(progress.map((p) => p.isOvertime)).toEqual([true, false, false]);
+
+    // Nothing has started before the talk begins
+    expect(getSectionProgress(outline, null, {}, null, 0).every((p) => p.status === "upcoming")).toBe(true);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { buildPollResultsSlide, getPollPercentages, getPollResults } from "@/lib/pollResults";
+import type { Poll } from "@/types/poll";
+
+const poll: Poll = {
+  id: "poll1",
+  sessionId: "session1",
+  question: "Best season?",
+  options: [
+    { id: "a", label: "Summer", votes: 2 },
+    { id: "b", label: "Winter", votes: 1 },
+  ],
+  status: "closed",
+  createdAt: "2025-01-01T00:00:00.000Z",
+  closedAt: "2025-01-01T00:05:00.000Z",
+};
+
+describe("pollResults", () => {
+  it("totals votes and rounds percentages", () => {
+    const results = getPollResults(poll);
+    expect(results.totalVotes).toBe(3);
+    expect(getPollPercentages(results)).toEqual([67, 33]);
+    expect(getPollPercentages({ ...results, totalVotes: 0 })).toEqual([0, 0]);
+  });
+
+  it("builds a results slide that carries the chart data", () => {
+    const slide = buildPollResultsSlide(poll);
+    expect(slide.id).toBe("poll-poll1");
+    expect(slide.source).toBe("poll");
+    expect(slide.headline).toBe("Best season?");
+    expect(slide.poll?.options).toEqual([
+      { label: "Summer", votes: 2 },
+      { label: "Winter", votes: 1 },
+    ]);
+    expect(slide.visualDescription).toContain("Summer 67%");
+    expect(slide.timestamp).toBe(poll.closedAt);
+  });
+});
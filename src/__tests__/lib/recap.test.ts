@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { MAX_TAKEAWAY_SLIDES, buildFallbackRecap, detectsConclusionIntent, parseRecapSlides } from "@/lib/recap";
+import type { SlideHistoryEntry } from "@/types/realtime";
+
+const history: SlideHistoryEntry[] = [
+  { id: "1", headline: "Welcome", visualDescription: "", category: "intro" },
+  { id: "2", headline: "Onboarding is too slow", visualDescription: "", category: "concept" },
+  { id: "3", headline: "A three-step rollout", visualDescription: "", category: "process" },
+];
+
+describe("recap", () => {
+  it("detects closing remarks", () => {
+    expect(detectsConclusionIntent("So, to sum up, we need to move faster")).toBe(true);
+    expect(detectsConclusionIntent("Thank you all for listening")).toBe(true);
+    expect(detectsConclusionIntent("Let's look at the numbers")).toBe(false);
+  });
+
+  it("puts the summary first and caps the takeaways", () => {
+    const takeaway = { headline: "Ship in small steps", bullets: ["Start with one team", 4] };
+    const slides = parseRecapSlides(
+      {
+        summary: { headline: " Faster onboarding ", subheadline: "", bullets: ["Slow today", "Rollout plan"] },
+        takeaways: [takeaway, { headline: "" }, takeaway, takeaway, takeaway],
+      },
+      history,
+      true
+    );
+
+    expect(slides[0]).toMatchObject({
+      headline: "Faster onboarding",
+      subheadline: undefined,
+      bullets: ["Slow today", "Rollout plan"],
+      category: "summary",
+    });
+    expect(slides.slice(1)).toHaveLength(MAX_TAKEAWAY_SLIDES);
+    expect(slides[1]).toMatchObject({ category: "takeaway", bullets: ["Start with one team"] });
+  });
+
+  it("leaves out takeaways unless asked for", () => {
+    const slides = parseRecapSlides(
+      { summary: { headline: "Summary" }, takeaways: [{ headline: "Takeaway" }] },
+      history,
+      false
+    );
+    expect(slides.map((s) => s.category)).toEqual(["summary"]);
+  });
+
+  it("falls back to the slide headlines when the model's recap is unusable", () => {
+    expect(parseRecapSlides(null, history, true)).toEqual([buildFallbackRecap(history)]);
+    expect(buildFallbackRecap(history).bullets).toEqual(["Onboarding is too slow", "A three-step rollout"]);
+  });
+});
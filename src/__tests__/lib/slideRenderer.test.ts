@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import {
+  SLIDE_PALETTES,
+  getSessionPalette,
+  renderTemplateSlide,
+  renderTemplateSlideDataUrl,
+} from "@/lib/slideRenderer";
+
+describe("slideRenderer", () => {
+  it("renders the headline, subheadline and bullets into an SVG", () => {
+    const svg = renderTemplateSlide({
+      headline: "Ship smaller changes",
+      subheadline: "Faster feedback loops",
+      bullets: ["Review in minutes", "Deploy daily"],
+      category: "concept",
+    });
+
+    expect(svg.startsWith("<svg")).toBe(true);
+    expect(svg).toContain("Ship smaller changes");
+    expect(svg).toContain("Faster feedback loops");
+    expect(svg).toContain("Deploy daily");
+  });
+
+  it("escapes markup in slide text", () => {
+    const svg = renderTemplateSlide({ headline: "<script>alert('x')</script> & more" });
+
+    expect(svg).not.toContain("<script>");
+    expect(svg).toContain("&lt;script&gt;");
+    expect(svg).toContain("&amp; more");
+  });
+
+  it("uses a numbered layout for process slides", () => {
+    const svg = renderTemplateSlide({
+      headline: "How it works",
+      bullets: ["Listen", "Gate", "Render"],
+      category: "process",
+    });
+
+    expect(svg).toMatch(/>1<\/text>/);
+    expect(svg).toMatch(/>3<\/text>/);
+  });
+
+  it("draws chart slides from the data with exact values", () => {
+    const bar = renderTemplateSlide({
+      headline: "Revenue by region",
+      category: "data",
+      chart: {
+        type: "bar",
+        labels: ["North", "South"],
+        series: [{ name: "2024", values: [1250, 980.5] }],
+        unit: "$",
+      },
+    });
+    expect(bar).toContain("North");
+    expect(bar).toContain("$1,250");
+    expect(bar).toContain("$980.5");
+    expect(bar).toContain("<rect");
+
+    const pie = renderTemplateSlide({
+      headline: "Traffic sources",
+      chart: { type: "pie", labels: ["Search", "Social"], series: [{ name: "", values: [3, 1] }], unit: "%" },
+    });
+    expect(pie).toContain("<path");
+    expect(pie).toContain("Search: 3% (75%)");
+  });
+
+  it("draws diagram slides with every node and message", () => {
+    const flow = renderTemplateSlide({
+      headline: "Checkout",
+      diagram: {
+        kind: "flowchart",
+        direction: "LR",
+        nodes: [
+          { id: "A", label: "Cart", shape: "rect" },
+          { id: "B", label: "Paid?", shape: "diamond" },
+        ],
+        edges: [{ from: "A", to: "B", label: "submit", style: "solid", arrow: true }],
+      },
+    });
+    expect(flow).toContain("Cart");
+    expect(flow).toContain("<polygon");
+    expect(flow).toContain("submit");
+    expect(flow).toContain('marker-end="url(#arrow)"');
+
+    const sequence = renderTemplateSlide({
+      headline: "Login",
+      diagram: {
+        kind: "sequence",
+        participants: [
+          { id: "U", label: "User" },
+          { id: "S", label: "Server" },
+        ],
+        messages: [{ from: "U", to: "S", label: "Sign in", dashed: false }],
+      },
+    });
+    expect(sequence).toContain("Server");
+    expect(sequence).toContain("Sign in");
+  });
+
+  it("paints with the given palette", () => {
+    const svg = renderTemplateSlide({ headline: "Light deck" }, SLIDE_PALETTES.paper);
+
+    expect(svg).toContain(SLIDE_PALETTES.paper.background);
+  });
+
+  it("picks the same palette for the same session", () => {
+    expect(getSessionPalette("session-a")).toBe(getSessionPalette("session-a"));
+    expect(Object.values(SLIDE_PALETTES)).toContain(getSessionPalette("session-b"));
+  });
+
+  it("encodes the slide as an SVG data URL", () => {
+    const url = renderTemplateSlideDataUrl({ headline: "Hello" });
+
+    expect(url.startsWith("data:image/svg+xml;charset=utf-8,")).toBe(true);
+    expect(decodeURIComponent(url.split(",")[1])).toContain("Hello");
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import {
+  MAX_SLIDE_VARIANTS,
+  VARIANT_DIRECTIONS,
+  chooseSlideVariant,
+  getVariantDirection,
+  groupSlideVariants,
+  selectSlideVariant,
+} from "@/lib/slideVariants";
+import type { SlideData } from "@/types/slides";
+
+const variant = (index: number): SlideData => ({
+  id: `variant-${index}`,
+  imageUrl: `data:image/png;base64,${index}`,
+  headline: "Growth is slowing",
+  variantStyle: VARIANT_DIRECTIONS[index],
+});
+
+describe("slideVariants", () => {
+  it("wraps variant indexes around the known directions", () => {
+    expect(getVariantDirection(0)).toBe(VARIANT_DIRECTIONS[0]);
+    expect(getVariantDirection(MAX_SLIDE_VARIANTS + 1)).toBe(VARIANT_DIRECTIONS[1]);
+    expect(getVariantDirection(-1)).toBe(VARIANT_DIRECTIONS[MAX_SLIDE_VARIANTS - 1]);
+  });
+
+  it("groups variants into one entry showing the first", () => {
+    expect(groupSlideVariants([])).toBeNull();
+    expect(groupSlideVariants([variant(0)])).toEqual(variant(0));
+
+    const entry = groupSlideVariants([variant(0), variant(1), variant(2)]);
+    expect(entry?.id).toBe("variant-0");
+    expect(entry?.variants).toHaveLength(3);
+    expect(entry?.variantIndex).toBe(0);
+  });
+
+  it("switches the displayed variant and keeps the entry's source", () => {
+    const entry = { ...groupSlideVariants([variant(0), variant(1)])!, source: "exploratory" as const };
+
+    const second = selectSlideVariant(entry, 1);
+    expect(second.id).toBe("variant-1");
+    expect(second.variantIndex).toBe(1);
+    expect(second.source).toBe("exploratory");
+    expect(second.variants).toHaveLength(2);
+
+    expect(selectSlideVariant(entry, 5)).toBe(entry);
+  });
+
+  it("drops the other variants when one is chosen", () => {
+    const entry = selectSlideVariant(groupSlideVariants([variant(0), variant(1)])!, 1);
+    const chosen = chooseSlideVariant(entry);
+
+    expect(chosen.id).toBe("variant-1");
+    expect(chosen.variantStyle).toBe(VARIANT_DIRECTIONS[1]);
+    expect(chosen).not.toHaveProperty("variants");
+    expect(chosen).not.toHaveProperty("variantIndex");
+  });
+});
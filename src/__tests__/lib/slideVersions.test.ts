@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import {
+  addSlideVersion,
+  buildSlideRevision,
+  emptySlideVersions,
+  getSlideVersions,
+} from "@/lib/slideVersions";
+import type { SlideData } from "@/types/slides";
+
+const original: SlideData = {
+  id: "slide-1",
+  imageUrl: "data:image/png;base64,AAAA",
+  headline: "Growth is slowing",
+  source: "question",
+  feedbackId: "fb-1",
+  votes: 4,
+};
+
+const generated = (id: string): SlideData => ({
+  id,
+  imageUrl: `data:image/png;base64,${id}`,
+  headline: "Growth is slowing",
+});
+
+describe("slideVersions", () => {
+  it("has no versions for a slide that was never revised", () => {
+    expect(getSlideVersions(emptySlideVersions, "slide-1")).toEqual([]);
+  });
+
+  it("links a revision to its parent and keeps its provenance", () => {
+    const revision = buildSlideRevision(emptySlideVersions, original, generated("slide-2"), "Less text");
+
+    expect(revision.id).toBe("slide-2");
+    expect(revision.parentSlideId).toBe("slide-1");
+    expect(revision.version).toBe(2);
+    expect(revision.revisionInstruction).toBe("Less text");
+    expect(revision.source).toBe("question");
+    expect(revision.feedbackId).toBe("fb-1");
+    expect(revision.votes).toBe(4);
+  });
+
+  it("groups every revision under the first version", () => {
+    const second = buildSlideRevision(emptySlideVersions, original, generated("slide-2"), "Less text");
+    let state = addSlideVersion(emptySlideVersions, original, second);
+    const third = buildSlideRevision(state, second, generated("slide-3"), "Bar chart");
+    state = addSlideVersion(state, second, third);
+
+    expect(third.version).toBe(3);
+    expect(third.parentSlideId).toBe("slide-2");
+    const ids = getSlideVersions(state, "slide-3").map((s) => s.id);
+    expect(ids).toEqual(["slide-1", "slide-2", "slide-3"]);
+    expect(getSlideVersions(state, "slide-1")).toHaveLength(3);
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { getClientId, isRateLimited } from "@/utils/rateLimit";
+import { getClientId, isOverLimit, isRateLimited, recordRequest } from "@/utils/rateLimit";
 
 describe("getClientId", () => {
   it("prefers x-forwarded-for when present", () => {
@@ -74,3 +74,33 @@ describe("isRateLimited", () => {
     expect(limitedAfterWindow).toBe(false);
   });
 });
+
+describe("isOverLimit", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-01-01T00:00:00.000Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("only counts requests that were recorded", () => {
+    const key = "voter-accepted";
+    const windowMs = 60_000;
+    const limit = 2;
+
+    // Checks alone never use up the budget
+    for (let i = 0; i < 5; i += 1) {
+      expect(isOverLimit(key, limit, windowMs)).toBe(false);
+    }
+
+    recordRequest(key);
+    expect(isOverLimit(key, limit, windowMs)).toBe(false);
+    recordRequest(key);
+    expect(isOverLimit(key, limit, windowMs)).toBe(true);
+
+    vi.advanceTimersByTime(61_000);
+    expect(isOverLimit(key, limit, windowMs)).toBe(false);
+  });
+});
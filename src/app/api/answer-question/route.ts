@@ -1,5 +1,14 @@
-import { GoogleGenerativeAI, DynamicRetrievalMode } from "@google/generative-ai";
 import { NextRequest, NextResponse } from "next/server";
+import { getLLMClient, getLLMConfigError } from "@/lib/llm";
+import { normalizeSources } from "@/lib/citations";
+import { scrubText } from "@/lib/moderation";
+import {
+  delimitUntrustedText,
+  sanitizeUntrustedText,
+  untrustedTextNotice,
+} from "@/lib/promptSafety";
+import type { SlideSource } from "@/types/slides";
+import { abortedResponse } from "@/utils/abort";
 
 interface AnswerResponse {
   headline: string;
@@ -8,43 +17,37 @@ interface AnswerResponse {
   visualDescription: string;
   category: string;
   originalQuestion: string;
+  sources?: SlideSource[];
 }
 
 export async function POST(request: NextRequest) {
   try {
-    const apiKey = process.env.GOOGLE_API_KEY;
-    if (!apiKey) {
+    const configError = getLLMConfigError();
+    if (configError) {
       return NextResponse.json(
-        { error: "Missing GOOGLE_API_KEY environment variable" },
+        { error: configError },
         { status: 500 }
       );
     }
-    const genAI = new GoogleGenerativeAI(apiKey);
+    const llm = getLLMClient();
     const body = await request.json();
-    const { question, presentationContext } = body;
+    const { presentationContext } = body;
 
-    if (!question) {
+    if (!body.question || typeof body.question !== "string") {
       return NextResponse.json(
         { error: "Question is required" },
         { status: 400 }
       );
     }
 
-    const model = genAI.getGenerativeModel({
-      model: "gemini-2.0-flash",
-      generationConfig: {
-        responseMimeType: "application/json",
-      },
-      tools: [
-        {
-          googleSearchRetrieval: {
-            dynamicRetrievalConfig: {
-              mode: DynamicRetrievalMode.MODE_DYNAMIC,
-            },
-          },
-        },
-      ],
-    });
+    // Callers scrub too; this covers clients that don't
+    const question = sanitizeUntrustedText(scrubText(body.question).text);
+    if (!question) {
+      return NextResponse.json(
+        { error: "Question is required" },
+        { status: 400 }
+      );
+    }
 
     const contextInfo = presentationContext
       ? `\n\nPresentation context (previous slides covered):\n${presentationContext}`
@@ -52,7 +55,9 @@ export async function POST(request: NextRequest) {
 
     const prompt = `You are an expert presenter answering an audience question during a live presentation.
 
-AUDIENCE QUESTION: "${question}"
+${untrustedTextNotice("audience question")}
+
+${delimitUntrustedText("audience question", question)}
 ${contextInfo}
 
 Your task is to:
@@ -74,9 +79,14 @@ Respond with a JSON object containing:
 
 Focus on being informative and educational. The audience asked this question because they want to understand something better.`;
 
-    const result = await model.generateContent(prompt);
-    const response = result.response;
-    const text = response.text();
+    const { text, sources } = await llm.generate({
+      task: "answer-question",
+      prompt,
+      json: true,
+      search: true,
+      subject: question,
+      signal: request.signal,
+    });
 
     let answerContent: AnswerResponse;
     try {
@@ -94,11 +104,14 @@ Focus on being informative and educational. The audience asked this question bec
       };
     }
 
+    answerContent.sources = normalizeSources(sources);
+
     return NextResponse.json({
       success: true,
       answer: answerContent,
     });
   } catch (error) {
+    if (request.signal.aborted) return abortedResponse();
     console.error("Answer question API error:", error);
     return NextResponse.json(
       { error: "Failed to generate answer" },
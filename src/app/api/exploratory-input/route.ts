@@ -1,8 +1,9 @@
-import {
-  DynamicRetrievalMode,
-  GoogleGenerativeAI,
-} from "@google/generative-ai";
 import { NextRequest, NextResponse } from "next/server";
+import { getLLMClient, getLLMConfigError } from "@/lib/llm";
+import { normalizeSources } from "@/lib/citations";
+import { normalizeDiagramSource } from "@/lib/diagram";
+import { buildGateProfilePrompt, isCategoryAllowed, limitBullets, normalizeGateProfile } from "@/lib/gateProfile";
+import { abortedResponse } from "@/utils/abort";
 
 interface ExploratorySlide {
   headline: string;
@@ -10,18 +11,19 @@ interface ExploratorySlide {
   bullets?: string[];
   visualDescription: string;
   category: string;
+  diagram?: unknown;
 }
 
 export async function POST(request: NextRequest) {
   try {
-    const apiKey = process.env.GOOGLE_API_KEY;
-    if (!apiKey) {
+    const configError = getLLMConfigError();
+    if (configError) {
       return NextResponse.json(
-        { error: "Missing GOOGLE_API_KEY environment variable" },
+        { error: configError },
         { status: 500 }
       );
     }
-    const genAI = new GoogleGenerativeAI(apiKey);
+    const llm = getLLMClient();
     const body = await request.json();
     const {
       prompt,
@@ -45,6 +47,10 @@ export async function POST(request: NextRequest) {
       audienceContext?: string;
     };
 
+    const gateProfile = normalizeGateProfile(body.gateProfile);
+    // Sensitivity is about when the gate fires; the presenter asked for these slides
+    const preferencesInfo = buildGateProfilePrompt(gateProfile, { includeSensitivity: false });
+
     const trimmedPrompt = (prompt || "").trim();
     if (!trimmedPrompt) {
       return NextResponse.json(
@@ -53,22 +59,6 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const model = genAI.getGenerativeModel({
-      model: "gemini-2.0-flash",
-      generationConfig: {
-        responseMimeType: "application/json",
-      },
-      tools: [
-        {
-          googleSearchRetrieval: {
-            dynamicRetrievalConfig: {
-              mode: DynamicRetrievalMode.MODE_DYNAMIC,
-            },
-          },
-        },
-      ],
-    });
-
     const slideContext = currentSlide
       ? `\n\nCURRENT SLIDE (being presented):
 - Headline: ${currentSlide.headline || "Untitled"}
@@ -133,7 +123,8 @@ Respond with a JSON object of the form:
   ]
 }
 
-Return ONLY ONE slide. DO NOT wrap the JSON in markdown.`;
+Return ONLY ONE slide. DO NOT wrap the JSON in markdown.
+${preferencesInfo}`;
 
     const followUpSlidePrompt = `You are an exploratory presentation assistant.
 
@@ -155,6 +146,7 @@ Each slide you return should:
 - Optionally include 2–4 concise bullets
 - Include a visualDescription describing the ideal visual/diagram/imagery
 - Have a category such as "concept", "deep-dive", "example", "framework", "process", "next-steps", or "summary"
+- For "process" slides that walk through steps, a flow or an interaction, optionally include a "diagram": Mermaid-style text starting with "flowchart LR" (or "flowchart TD") and lines like A[Step] --> B{Decision}, B -->|yes| C(Done), or starting with "sequenceDiagram" and lines like User->>API: Request. Keep it to at most 15 nodes or 12 messages; it is drawn exactly as written
 
 Respond with a JSON object of the form:
 {
@@ -164,18 +156,25 @@ Respond with a JSON object of the form:
       "subheadline": "...",
       "bullets": ["...", "..."],
       "visualDescription": "...",
-      "category": "..."
+      "category": "...",
+      "diagram": "flowchart LR\nA[...] --> B[...]"
     }
   ]
 }
 
-Limit to at most 2 slides and DO NOT wrap the JSON in markdown.`;
+Omit "diagram" unless it clearly helps. Limit to at most 2 slides and DO NOT wrap the JSON in markdown.
+${preferencesInfo}`;
 
     const systemPrompt = isFirstSlide ? introSlidePrompt : followUpSlidePrompt;
 
-    const result = await model.generateContent(systemPrompt);
-    const response = result.response;
-    const text = response.text();
+    const { text, sources } = await llm.generate({
+      task: "exploratory-input",
+      prompt: systemPrompt,
+      json: true,
+      search: true,
+      subject: trimmedPrompt,
+      signal: request.signal,
+    });
 
     let parsed: { followups?: ExploratorySlide[] };
     try {
@@ -197,14 +196,22 @@ Limit to at most 2 slides and DO NOT wrap the JSON in markdown.`;
 
     const followups = parsed.followups || [];
     const cleanedFollowups = followups
-      .filter((f) => f && typeof f.headline === "string")
-      .slice(0, 2);
+      .filter((f) => f && typeof f.headline === "string" && isCategoryAllowed(gateProfile, f.category))
+      .slice(0, 2)
+      .map((f) => ({
+        ...f,
+        bullets: limitBullets(f.bullets, gateProfile),
+        // Diagrams that do not parse fall back to the image model
+        diagram: normalizeDiagramSource(f.diagram),
+        sources: normalizeSources(sources),
+      }));
 
     return NextResponse.json({
       success: true,
       followups: cleanedFollowups,
     });
   } catch (error) {
+    if (request.signal.aborted) return abortedResponse();
     console.error("Exploratory input API error:", error);
     return NextResponse.json(
       {
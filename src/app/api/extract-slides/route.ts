@@ -1,5 +1,6 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import { NextRequest, NextResponse } from "next/server";
+import { getLLMClient, getLLMConfigError } from "@/lib/llm";
+import { abortedResponse } from "@/utils/abort";
 
 export interface ExtractedSlide {
   id: string;
@@ -20,14 +21,14 @@ export interface ExtractedSlide {
 
 export async function POST(request: NextRequest) {
   try {
-    const apiKey = process.env.GOOGLE_API_KEY;
-    if (!apiKey) {
+    const configError = getLLMConfigError();
+    if (configError) {
       return NextResponse.json(
-        { error: "Missing GOOGLE_API_KEY environment variable" },
+        { error: configError },
         { status: 500 }
       );
     }
-    const genAI = new GoogleGenerativeAI(apiKey);
+    const llm = getLLMClient();
     const body = await request.json();
     const { images } = body as { images: { dataUrl: string; fileName: string }[] };
 
@@ -38,9 +39,6 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Use Flash Lite for fast extraction
-    const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash-lite" });
-
     const prompt = `Analyze this presentation slide image and extract the following information in JSON format:
 
 {
@@ -74,18 +72,15 @@ Focus on extracting the text content accurately and describing the visual layout
       const base64Data = matches[2];
 
       try {
-        const result = await model.generateContent([
-          {
-            inlineData: {
-              mimeType,
-              data: base64Data,
-            },
-          },
+        // Use the fast tier for extraction
+        const { text } = await llm.generate({
+          task: "extract-slides",
           prompt,
-        ]);
-
-        const response = result.response;
-        const text = response.text();
+          tier: "fast",
+          images: [{ mimeType, data: base64Data }],
+          subject: fileName.replace(/\.[^.]+$/, ""),
+          signal: request.signal,
+        });
 
         // Parse the JSON response
         let parsed;
@@ -150,6 +145,7 @@ Focus on extracting the text content accurately and describing the visual layout
       count: extractedSlides.length,
     });
   } catch (error) {
+    if (request.signal.aborted) return abortedResponse();
     console.error("Extract slides API error:", error);
     return NextResponse.json(
       { error: "Failed to extract slide content" },
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getLLMClient, getLLMConfigError } from "@/lib/llm";
+import { normalizeSources } from "@/lib/citations";
+import { parseFactCheckClaims } from "@/lib/factCheck";
+import { abortedResponse } from "@/utils/abort";
+
+const MAX_SEGMENT_LENGTH = 2000;
+const MAX_CONTEXT_LENGTH = 1000;
+
+export async function POST(request: NextRequest) {
+  try {
+    const configError = getLLMConfigError();
+    if (configError) {
+      return NextResponse.json(
+        { error: configError },
+        { status: 500 }
+      );
+    }
+    const llm = getLLMClient();
+    const body = await request.json();
+
+    const transcript = typeof body.transcript === "string" ? body.transcript.trim() : "";
+    if (!transcript) {
+      return NextResponse.json(
+        { error: "Transcript is required" },
+        { status: 400 }
+      );
+    }
+    if (transcript.length > MAX_SEGMENT_LENGTH) {
+      return NextResponse.json(
+        { error: `Transcript segment must be ${MAX_SEGMENT_LENGTH} characters or fewer` },
+        { status: 400 }
+      );
+    }
+
+    const context = typeof body.context === "string" ? body.context.slice(-MAX_CONTEXT_LENGTH) : "";
+
+    const prompt = `You are fact-checking a live talk for the speaker. Only the speaker sees your results.
+
+${context ? `EARLIER IN THE TALK (context only, do not check):\n${context}\n\n` : ""}NEW TRANSCRIPT SEGMENT:
+"${transcript}"
+
+Find up to 3 checkable factual claims in the NEW segment: statistics, numbers, dates, rankings and named facts.
+Ignore opinions, predictions, jokes, hypotheticals and anything too vague to verify. Speech-to-text may have
+garbled words; judge what the speaker most likely said.
+
+Grade each claim using web search:
+- "accurate": matches reliable sources (small rounding is fine)
+- "inaccurate": contradicts reliable sources
+- "misleading": technically true but missing context that changes its meaning
+- "unverifiable": no reliable source either way
+
+Respond with JSON only, in this format:
+{
+  "claims": [
+    {
+      "claim": "The claim as the speaker stated it",
+      "verdict": "accurate | inaccurate | misleading | unverifiable",
+      "explanation": "One sentence on what the sources say",
+      "correction": "The accurate statement, for inaccurate or misleading claims only"
+    }
+  ]
+}
+
+Return {"claims": []} if the segment has nothing checkable.`;
+
+    const { text, sources } = await llm.generate({
+      task: "fact-check",
+      prompt,
+      json: true,
+      search: true,
+      subject: transcript,
+      signal: request.signal,
+    });
+
+    let parsed: { claims?: unknown };
+    try {
+      parsed = JSON.parse(text) as { claims?: unknown };
+    } catch {
+      // A check that can't be read is treated as finding nothing
+      parsed = { claims: [] };
+    }
+
+    return NextResponse.json({
+      success: true,
+      claims: parseFactCheckClaims(parsed.claims, normalizeSources(sources)),
+    });
+  } catch (error) {
+    if (request.signal.aborted) return abortedResponse();
+    console.error("Fact check API error:", error);
+    return NextResponse.json(
+      { error: "Failed to fact-check transcript" },
+      { status: 500 }
+    );
+  }
+}
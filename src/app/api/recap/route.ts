@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getLLMClient, getLLMConfigError } from "@/lib/llm";
+import { MAX_TAKEAWAY_SLIDES, parseRecapSlides } from "@/lib/recap";
+import type { SlideHistoryEntry } from "@/types/realtime";
+import { abortedResponse } from "@/utils/abort";
+
+const MAX_RECAP_SLIDES = 40;
+const MAX_TRANSCRIPT_LENGTH = 8000;
+
+export async function POST(request: NextRequest) {
+  try {
+    const configError = getLLMConfigError();
+    if (configError) {
+      return NextResponse.json(
+        { error: configError },
+        { status: 500 }
+      );
+    }
+    const llm = getLLMClient();
+    const body = await request.json();
+
+    const acceptedSlides = (Array.isArray(body.acceptedSlides) ? body.acceptedSlides : [])
+      .filter(
+        (slide: Partial<SlideHistoryEntry> | null) =>
+          !!slide && typeof slide.headline === "string" && !!slide.headline.trim()
+      )
+      .slice(-MAX_RECAP_SLIDES) as SlideHistoryEntry[];
+    // The end of the talk matters most for a recap, so long transcripts keep their tail
+    const transcript =
+      typeof body.transcript === "string" ? body.transcript.trim().slice(-MAX_TRANSCRIPT_LENGTH) : "";
+    const includeTakeaways = body.includeTakeaways === true;
+
+    if (acceptedSlides.length === 0 && !transcript) {
+      return NextResponse.json(
+        { error: "Nothing to recap yet" },
+        { status: 400 }
+      );
+    }
+
+    const slideList = acceptedSlides
+      .map(
+        (slide, i) =>
+          `${i + 1}. "${slide.headline}" (${slide.category || "concept"})${slide.visualDescription ? ` - ${slide.visualDescription.slice(0, 120)}` : ""}`
+      )
+      .join("\n");
+
+    const prompt = `You are closing out a live presentation with a recap for the audience.
+
+SLIDES SHOWN DURING THE TALK (in order):
+${slideList || "(none)"}
+
+${transcript ? `TRANSCRIPT OF THE TALK (may be truncated at the start; speech-to-text may garble words):\n"${transcript}"\n\n` : ""}Write a recap grounded ONLY in what was actually presented above. Do not add new facts, numbers or claims.
+
+1. A SUMMARY slide: a headline that names the talk's central message (3-8 words), a one-line subheadline, 3-5 bullets covering the main points in the order they were presented, and a visualDescription for a calm, conclusive closing visual.
+${includeTakeaways ? `2. Up to ${MAX_TAKEAWAY_SLIDES} KEY TAKEAWAY slides, one per takeaway the audience should act on or remember. Each has a headline phrased as the takeaway, an optional subheadline, 2-3 short bullets, and a visualDescription.\n` : ""}
+Respond with JSON only, in this format:
+{
+  "summary": { "headline": "...", "subheadline": "...", "bullets": ["..."], "visualDescription": "..." }${includeTakeaways ? `,
+  "takeaways": [{ "headline": "...", "subheadline": "...", "bullets": ["..."], "visualDescription": "..." }]` : ""}
+}`;
+
+    const { text } = await llm.generate({
+      task: "recap",
+      prompt,
+      json: true,
+      subject: acceptedSlides.map((slide) => slide.headline).join("; ") || transcript,
+      signal: request.signal,
+    });
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      // Falls back to a summary built from the slide headlines
+      parsed = null;
+    }
+
+    return NextResponse.json({
+      success: true,
+      slides: parseRecapSlides(parsed, acceptedSlides, includeTakeaways),
+    });
+  } catch (error) {
+    if (request.signal.aborted) return abortedResponse();
+    console.error("Recap API error:", error);
+    return NextResponse.json(
+      { error: "Failed to generate recap" },
+      { status: 500 }
+    );
+  }
+}
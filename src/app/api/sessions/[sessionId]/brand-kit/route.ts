@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { sessionStore } from "@/lib/sessionStore";
+import { parseBrandKit } from "@/lib/brandKit";
+
+// Public: audience screens need the brand kit to draw native slides
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { sessionId } = await params;
+
+    // Validate session exists
+    const session = sessionStore.getSession(sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { error: "Session not found or expired" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ brandKit: sessionStore.getBrandKit(sessionId) });
+  } catch (error) {
+    console.error("❌ Error fetching brand kit:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch brand kit" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { sessionId } = await params;
+
+    // Validate session exists
+    const session = sessionStore.getSession(sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { error: "Session not found or expired" },
+        { status: 404 }
+      );
+    }
+
+    const authHeader = request.headers.get("authorization") || "";
+    const token = authHeader.replace(/^Bearer\s+/i, "").trim();
+    if (!token || token !== session.presenterToken) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+
+    // A null brand kit clears it
+    if (body.brandKit === null) {
+      sessionStore.setBrandKit(sessionId, null);
+      return NextResponse.json({ success: true, brandKit: null });
+    }
+
+    const parsed = parseBrandKit(body.brandKit);
+    if (!parsed.brandKit) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    sessionStore.setBrandKit(sessionId, parsed.brandKit);
+
+    return NextResponse.json({ success: true, brandKit: parsed.brandKit });
+  } catch (error) {
+    console.error("❌ Error updating brand kit:", error);
+    return NextResponse.json(
+      { error: "Failed to update brand kit" },
+      { status: 500 }
+    );
+  }
+}
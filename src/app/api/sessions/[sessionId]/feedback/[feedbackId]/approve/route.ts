@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { sessionStore } from "@/lib/sessionStore";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string; feedbackId: string }> }
+) {
+  try {
+    const { sessionId, feedbackId } = await params;
+
+    // Validate session exists
+    const session = sessionStore.getSession(sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { error: "Session not found or expired" },
+        { status: 404 }
+      );
+    }
+
+    const authHeader = request.headers.get("authorization") || "";
+    const token = authHeader.replace(/^Bearer\s+/i, "").trim();
+    if (!token || token !== session.presenterToken) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Optional moderator edit of the submitted text
+    const body = await request.json().catch(() => ({}));
+    const { text } = body;
+
+    if (text !== undefined && (typeof text !== "string" || text.trim().length === 0)) {
+      return NextResponse.json(
+        { error: "Edited text must be a non-empty string" },
+        { status: 400 }
+      );
+    }
+
+    const feedback = sessionStore.approveFeedback(sessionId, feedbackId, text?.trim());
+
+    if (!feedback) {
+      return NextResponse.json(
+        { error: "Pending question not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, feedback });
+  } catch (error) {
+    console.error("❌ Error approving feedback:", error);
+    return NextResponse.json(
+      { error: "Failed to approve question" },
+      { status: 500 }
+    );
+  }
+}
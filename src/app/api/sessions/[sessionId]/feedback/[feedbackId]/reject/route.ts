@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { sessionStore } from "@/lib/sessionStore";
+
+const MAX_REASON_LENGTH = 200;
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string; feedbackId: string }> }
+) {
+  try {
+    const { sessionId, feedbackId } = await params;
+
+    // Validate session exists
+    const session = sessionStore.getSession(sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { error: "Session not found or expired" },
+        { status: 404 }
+      );
+    }
+
+    const authHeader = request.headers.get("authorization") || "";
+    const token = authHeader.replace(/^Bearer\s+/i, "").trim();
+    if (!token || token !== session.presenterToken) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const reason =
+      typeof body.reason === "string" && body.reason.trim()
+        ? body.reason.trim().slice(0, MAX_REASON_LENGTH)
+        : "Rejected by moderator";
+
+    const feedback = sessionStore.rejectFeedback(sessionId, feedbackId, reason);
+
+    if (!feedback) {
+      return NextResponse.json(
+        { error: "Pending question not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, feedback });
+  } catch (error) {
+    console.error("❌ Error rejecting feedback:", error);
+    return NextResponse.json(
+      { error: "Failed to reject question" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { sessionStore } from "@/lib/sessionStore";
+import { toPublicFeedback } from "@/lib/moderation";
+import { MAX_UNTRUSTED_TEXT_LENGTH } from "@/lib/promptSafety";
 import { getClientId, isRateLimited } from "@/utils/rateLimit";
 
 export async function POST(
@@ -38,6 +40,13 @@ export async function POST(
       );
     }
 
+    if (text.trim().length > MAX_UNTRUSTED_TEXT_LENGTH) {
+      return NextResponse.json(
+        { error: `Questions can be at most ${MAX_UNTRUSTED_TEXT_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
     // Add feedback to session
     const feedback = sessionStore.addFeedback(sessionId, text.trim());
 
@@ -51,6 +60,7 @@ export async function POST(
     return NextResponse.json({
       success: true,
       feedbackId: feedback.id,
+      pending: feedback.status === "pending",
     });
   } catch (error) {
     console.error("❌ Error submitting feedback:", error);
@@ -60,3 +70,42 @@ export async function POST(
     );
   }
 }
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { sessionId } = await params;
+
+    // Validate session exists
+    const session = sessionStore.getSession(sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { error: "Session not found or expired" },
+        { status: 404 }
+      );
+    }
+
+    // Most upvoted first, oldest first among ties
+    const questions = sessionStore
+      .getFeedback(sessionId)
+      .map(toPublicFeedback)
+      .sort((a, b) => (b.votes ?? 0) - (a.votes ?? 0) || a.timestamp.localeCompare(b.timestamp));
+
+    return NextResponse.json(
+      { questions },
+      {
+        headers: {
+          "Cache-Control": "no-store, no-cache, must-revalidate",
+        },
+      }
+    );
+  } catch (error) {
+    console.error("❌ Error getting feedback:", error);
+    return NextResponse.json(
+      { error: "Failed to get feedback" },
+      { status: 500 }
+    );
+  }
+}
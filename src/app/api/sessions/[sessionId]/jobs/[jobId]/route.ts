@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { sessionStore } from "@/lib/sessionStore";
+import { jobQueue } from "@/lib/jobQueue";
+
+// Cancels a job that is still running, or clears a finished one once its slides are collected
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string; jobId: string }> }
+) {
+  try {
+    const { sessionId, jobId } = await params;
+
+    // Validate session exists
+    const session = sessionStore.getSession(sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { error: "Session not found or expired" },
+        { status: 404 }
+      );
+    }
+
+    const authHeader = request.headers.get("authorization") || "";
+    const token = authHeader.replace(/^Bearer\s+/i, "").trim();
+    if (!token || token !== session.presenterToken) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!jobQueue.remove(sessionId, jobId)) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("❌ Error removing generation job:", error);
+    return NextResponse.json(
+      { error: "Failed to remove generation job" },
+      { status: 500 }
+    );
+  }
+}
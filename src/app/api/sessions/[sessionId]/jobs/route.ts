@@ -0,0 +1,180 @@
+import { NextRequest, NextResponse } from "next/server";
+import { sessionStore } from "@/lib/sessionStore";
+import { jobQueue, type JobRunner } from "@/lib/jobQueue";
+import { MAX_SLIDE_VARIANTS } from "@/lib/slideVariants";
+import { getLLMClient, getLLMConfigError } from "@/lib/llm";
+import { runSlideGate, type SlideGateRequest } from "@/lib/slideGate";
+import { parseRenderSlideRequest, renderSlide } from "@/lib/slideImages";
+import type { SlideData } from "@/types/slides";
+
+interface RenderOptions {
+  styleReferences?: unknown;
+  stylePreferences?: unknown;
+  slideNumber?: unknown;
+  renderMode?: unknown;
+  variantCount?: unknown;
+}
+
+// gate → content → image, reporting each stage
+function createGateJobRunner(sessionId: string, gate: SlideGateRequest, render: RenderOptions): JobRunner {
+  return async ({ signal, update }) => {
+    update({ state: "gating" });
+    const gateResult = await runSlideGate(getLLMClient(), gate, signal);
+    const slideContent = gateResult.slideContent;
+    if (!gateResult.shouldCreateSlide || !slideContent) {
+      return { gate: gateResult };
+    }
+
+    update({ state: "generating", headline: slideContent.headline, gate: gateResult });
+
+    // Template and native slides all look alike, so variants only apply to the image model
+    const requestedVariants = Math.round(Number(render.variantCount)) || 1;
+    const variantCount =
+      render.renderMode === "template" || slideContent.chart || slideContent.diagram
+        ? 1
+        : Math.min(Math.max(requestedVariants, 1), MAX_SLIDE_VARIANTS);
+
+    const slides = await Promise.all(
+      Array.from({ length: variantCount }, async (_, index) => {
+        try {
+          const parsed = parseRenderSlideRequest({
+            slideContent,
+            styleReferences: render.styleReferences,
+            stylePreferences: render.stylePreferences,
+            slideNumber: render.slideNumber,
+            renderMode: render.renderMode,
+            sessionId,
+            variant: variantCount > 1 ? { index } : undefined,
+          });
+          if (parsed.error !== undefined) throw new Error(parsed.error);
+          return (await renderSlide(parsed.request, signal)).slide;
+        } catch (error) {
+          if (signal.aborted) throw error;
+          console.error("❌ Failed to render slide variant:", error);
+          return null;
+        }
+      })
+    );
+
+    const rendered = slides.filter((slide): slide is SlideData => slide !== null);
+    if (rendered.length === 0) {
+      throw new Error("No slide could be rendered");
+    }
+    return { gate: gateResult, slides: rendered };
+  };
+}
+
+function authorize(request: NextRequest, sessionId: string) {
+  // Validate session exists
+  const session = sessionStore.getSession(sessionId);
+  if (!session) {
+    return NextResponse.json(
+      { error: "Session not found or expired" },
+      { status: 404 }
+    );
+  }
+
+  const authHeader = request.headers.get("authorization") || "";
+  const token = authHeader.replace(/^Bearer\s+/i, "").trim();
+  if (!token || token !== session.presenterToken) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  return null;
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { sessionId } = await params;
+    const authError = authorize(request, sessionId);
+    if (authError) return authError;
+
+    const body = await request.json();
+    // The transcript's age rather than a timestamp, so the browser's clock doesn't matter
+    const { gate, render, sourceAgeMs, maxAgeMs } = body as {
+      gate?: unknown;
+      render?: RenderOptions;
+      sourceAgeMs?: unknown;
+      maxAgeMs?: unknown;
+    };
+
+    if (!gate || typeof gate !== "object") {
+      return NextResponse.json({ error: "Gate request is required" }, { status: 400 });
+    }
+
+    const configError = getLLMConfigError();
+    if (configError) {
+      return NextResponse.json({ error: configError }, { status: 500 });
+    }
+
+    const job = jobQueue.enqueue(sessionId, {
+      run: createGateJobRunner(sessionId, gate as SlideGateRequest, render ?? {}),
+      sourceAt: typeof sourceAgeMs === "number" && sourceAgeMs > 0 ? Date.now() - sourceAgeMs : undefined,
+      maxAgeMs: typeof maxAgeMs === "number" && maxAgeMs > 0 ? maxAgeMs : undefined,
+    });
+
+    if (!job) {
+      return NextResponse.json(
+        { error: "Too many slides are waiting to be generated" },
+        { status: 429 }
+      );
+    }
+
+    return NextResponse.json({ success: true, job }, { status: 202 });
+  } catch (error) {
+    console.error("❌ Error queueing generation job:", error);
+    return NextResponse.json(
+      { error: "Failed to queue generation job" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { sessionId } = await params;
+    const authError = authorize(request, sessionId);
+    if (authError) return authError;
+
+    return NextResponse.json(
+      { jobs: jobQueue.getJobs(sessionId) },
+      {
+        headers: {
+          "Cache-Control": "no-store, no-cache, must-revalidate",
+        },
+      }
+    );
+  } catch (error) {
+    console.error("❌ Error getting generation jobs:", error);
+    return NextResponse.json(
+      { error: "Failed to get generation jobs" },
+      { status: 500 }
+    );
+  }
+}
+
+// Cancels every job, e.g. when the presenter stops
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { sessionId } = await params;
+    const authError = authorize(request, sessionId);
+    if (authError) return authError;
+
+    jobQueue.clear(sessionId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("❌ Error cancelling generation jobs:", error);
+    return NextResponse.json(
+      { error: "Failed to cancel generation jobs" },
+      { status: 500 }
+    );
+  }
+}
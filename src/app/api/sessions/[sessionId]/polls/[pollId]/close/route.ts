@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { sessionStore } from "@/lib/sessionStore";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string; pollId: string }> }
+) {
+  try {
+    const { sessionId, pollId } = await params;
+
+    // Validate session exists
+    const session = sessionStore.getSession(sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { error: "Session not found or expired" },
+        { status: 404 }
+      );
+    }
+
+    const authHeader = request.headers.get("authorization") || "";
+    const token = authHeader.replace(/^Bearer\s+/i, "").trim();
+    if (!token || token !== session.presenterToken) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const poll = sessionStore.closePoll(sessionId, pollId);
+
+    if (!poll) {
+      return NextResponse.json(
+        { error: "Poll not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, poll });
+  } catch (error) {
+    console.error("❌ Error closing poll:", error);
+    return NextResponse.json(
+      { error: "Failed to close poll" },
+      { status: 500 }
+    );
+  }
+}
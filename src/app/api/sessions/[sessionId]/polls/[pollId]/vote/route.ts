@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { sessionStore } from "@/lib/sessionStore";
+import { isOverLimit, recordRequest } from "@/utils/rateLimit";
+import { getVoterId, setVoterCookie } from "@/utils/voterId";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string; pollId: string }> }
+) {
+  try {
+    const { sessionId, pollId } = await params;
+
+    // Validate session exists
+    const session = sessionStore.getSession(sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { error: "Session not found or expired" },
+        { status: 404 }
+      );
+    }
+
+    // Parse request body
+    const body = await request.json();
+    const { optionId } = body;
+
+    if (!optionId || typeof optionId !== "string") {
+      return NextResponse.json(
+        { error: "optionId is required" },
+        { status: 400 }
+      );
+    }
+
+    // Issued by the server, so a client can't vote again under a new ID of its choosing
+    const { voterId, issued } = getVoterId(request);
+    const respond = (body: object, init?: ResponseInit) => {
+      const response = NextResponse.json(body, init);
+      return issued ? setVoterCookie(response, voterId) : response;
+    };
+
+    // Keyed on the voter rather than the IP, since a whole room may share one address.
+    // Only accepted votes count, so duplicates and unknown items don't use up the budget.
+    const voterKey = `${sessionId}:poll:${voterId}`;
+    if (isOverLimit(voterKey, 30, 60_000)) {
+      return respond(
+        { error: "Too many requests" },
+        { status: 429 }
+      );
+    }
+
+    const result = sessionStore.votePoll(sessionId, pollId, optionId, voterId);
+
+    if (!result) {
+      return NextResponse.json(
+        { error: "Poll not found or closed" },
+        { status: 404 }
+      );
+    }
+
+    if (result.alreadyVoted) {
+      return respond(
+        { error: "Already voted", poll: result.poll },
+        { status: 409 }
+      );
+    }
+
+    recordRequest(voterKey);
+    return respond({ success: true, poll: result.poll });
+  } catch (error) {
+    console.error("❌ Error recording poll vote:", error);
+    return NextResponse.json(
+      { error: "Failed to record vote" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from "next/server";
+import { sessionStore } from "@/lib/sessionStore";
+
+const MAX_OPTIONS = 6;
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { sessionId } = await params;
+
+    // Validate session exists
+    const session = sessionStore.getSession(sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { error: "Session not found or expired" },
+        { status: 404 }
+      );
+    }
+
+    const authHeader = request.headers.get("authorization") || "";
+    const token = authHeader.replace(/^Bearer\s+/i, "").trim();
+    if (!token || token !== session.presenterToken) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Parse request body
+    const body = await request.json();
+    const { question, options } = body as { question?: unknown; options?: unknown };
+
+    if (!question || typeof question !== "string" || question.trim().length === 0) {
+      return NextResponse.json(
+        { error: "Poll question is required" },
+        { status: 400 }
+      );
+    }
+
+    const cleanedOptions = Array.isArray(options)
+      ? options
+          .filter((o): o is string => typeof o === "string")
+          .map((o) => o.trim())
+          .filter(Boolean)
+      : [];
+
+    if (cleanedOptions.length < 2 || cleanedOptions.length > MAX_OPTIONS) {
+      return NextResponse.json(
+        { error: `Polls need between 2 and ${MAX_OPTIONS} options` },
+        { status: 400 }
+      );
+    }
+
+    const poll = sessionStore.createPoll(sessionId, question.trim(), cleanedOptions);
+
+    if (!poll) {
+      return NextResponse.json(
+        { error: "Failed to create poll" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, poll });
+  } catch (error) {
+    console.error("❌ Error creating poll:", error);
+    return NextResponse.json(
+      { error: "Failed to create poll" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { sessionId } = await params;
+
+    // Validate session exists
+    const session = sessionStore.getSession(sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { error: "Session not found or expired" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { poll: sessionStore.getActivePoll(sessionId) },
+      {
+        headers: {
+          "Cache-Control": "no-store, no-cache, must-revalidate",
+        },
+      }
+    );
+  } catch (error) {
+    console.error("❌ Error getting poll:", error);
+    return NextResponse.json(
+      { error: "Failed to get poll" },
+      { status: 500 }
+    );
+  }
+}
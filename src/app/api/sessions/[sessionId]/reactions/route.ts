@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import { sessionStore } from "@/lib/sessionStore";
+import { REACTION_EMOJIS, type ReactionEmoji } from "@/types/reaction";
+import { isRateLimited } from "@/utils/rateLimit";
+import { getVoterId, setVoterCookie } from "@/utils/voterId";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { sessionId } = await params;
+
+    // Validate session exists
+    const session = sessionStore.getSession(sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { error: "Session not found or expired" },
+        { status: 404 }
+      );
+    }
+
+    // Keyed on the voter cookie rather than the IP, since a whole room may share one address
+    const { voterId, issued } = getVoterId(request);
+    const respond = (body: object, init?: ResponseInit) => {
+      const response = NextResponse.json(body, init);
+      return issued ? setVoterCookie(response, voterId) : response;
+    };
+
+    // Reactions are tapped in bursts, so allow more than questions but over a short window
+    if (isRateLimited(`${sessionId}:reaction:${voterId}`, 20, 10_000)) {
+      return respond(
+        { error: "Too many requests" },
+        { status: 429 }
+      );
+    }
+
+    // Parse request body
+    const body = await request.json();
+    const { emoji } = body;
+
+    if (!REACTION_EMOJIS.includes(emoji)) {
+      return NextResponse.json(
+        { error: "Unsupported reaction" },
+        { status: 400 }
+      );
+    }
+
+    const reaction = sessionStore.addReaction(sessionId, emoji as ReactionEmoji);
+
+    if (!reaction) {
+      return NextResponse.json(
+        { error: "Failed to add reaction" },
+        { status: 500 }
+      );
+    }
+
+    return respond({ success: true, reaction });
+  } catch (error) {
+    console.error("❌ Error adding reaction:", error);
+    return NextResponse.json(
+      { error: "Failed to add reaction" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { sessionId } = await params;
+
+    // Validate session exists
+    const session = sessionStore.getSession(sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { error: "Session not found or expired" },
+        { status: 404 }
+      );
+    }
+
+    // Per-slide tallies are for the presenter only
+    const authHeader = request.headers.get("authorization") || "";
+    const token = authHeader.replace(/^Bearer\s+/i, "").trim();
+    if (!token || token !== session.presenterToken) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    return NextResponse.json({ tallies: sessionStore.getReactionTallies(sessionId) });
+  } catch (error) {
+    console.error("❌ Error fetching reactions:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch reactions" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,127 @@
+import { NextRequest } from "next/server";
+import { sessionStore, type CurrentSlideState, type SessionEvent } from "@/lib/sessionStore";
+import { toPublicFeedback } from "@/lib/moderation";
+
+// Required for SSE on Vercel
+export const runtime = "nodejs";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  const { sessionId } = await params;
+
+  // Validate session exists
+  const session = sessionStore.getSession(sessionId);
+  if (!session) {
+    return new Response("Session not found or expired", { status: 404 });
+  }
+
+  // EventSource sends back the last revision it saw when it reconnects
+  const lastEventId = request.headers.get("last-event-id");
+
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    start(controller) {
+      let unsubscribe: () => void = () => {};
+
+      const cleanup = () => {
+        clearInterval(keepAliveInterval);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // Stream already closed
+        }
+      };
+
+      const sendSlide = (state: CurrentSlideState) => {
+        try {
+          const data = JSON.stringify({ type: "slide", payload: state });
+          controller.enqueue(encoder.encode(`id: ${state.revision}\ndata: ${data}\n\n`));
+        } catch (error) {
+          console.error("❌ Error sending slide event:", error);
+          cleanup();
+        }
+      };
+
+      // Keep-alive ping every 15 seconds. Reading the session here also
+      // surfaces expiry as a session-expired event.
+      const keepAliveInterval = setInterval(() => {
+        if (!sessionStore.getSession(sessionId)) {
+          cleanup();
+          return;
+        }
+        try {
+          controller.enqueue(encoder.encode(": keepalive\n\n"));
+        } catch (error) {
+          console.error("❌ Error sending keepalive:", error);
+          cleanup();
+        }
+      }, 15000);
+
+      // Send the current slide right away unless the client already has this revision
+      const current = sessionStore.getCurrentSlide(sessionId);
+      if (current && String(current.revision) !== lastEventId) {
+        sendSlide(current);
+      }
+
+      // Question board, poll and reaction updates carry no event ID so Last-Event-ID stays the slide revision.
+      // They aren't replayed; the audience page refetches the board and poll after a reconnect.
+      const sendBoardUpdate = (data: object) => {
+        try {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+        } catch (error) {
+          console.error("❌ Error sending question board event:", error);
+          cleanup();
+        }
+      };
+
+      unsubscribe = sessionStore.subscribe(sessionId, (event: SessionEvent) => {
+        if (event.type === "slide-changed") {
+          sendSlide(event.state);
+        } else if (event.type === "feedback-added") {
+          sendBoardUpdate({ type: "question", payload: toPublicFeedback(event.feedback) });
+        } else if (event.type === "feedback-pending" || event.type === "feedback-rejected") {
+          // A published question held for review or rejected comes off the board
+          sendBoardUpdate({ type: "question-removed", payload: { feedbackId: event.feedback.id } });
+        } else if (event.type === "feedback-voted") {
+          sendBoardUpdate({
+            type: "vote",
+            payload: { feedbackId: event.feedbackId, votes: event.votes },
+          });
+        } else if (
+          event.type === "poll-opened" ||
+          event.type === "poll-voted" ||
+          event.type === "poll-closed"
+        ) {
+          sendBoardUpdate({ type: "poll", payload: event.poll });
+        } else if (event.type === "reaction-added") {
+          sendBoardUpdate({
+            type: "reaction",
+            payload: { emoji: event.reaction.emoji, slideId: event.reaction.slideId, counts: event.counts },
+          });
+        } else if (event.type === "brand-kit-changed") {
+          sendBoardUpdate({ type: "brand-kit", payload: event.brandKit });
+        } else if (event.type === "session-expired" || event.type === "session-deleted") {
+          cleanup();
+        }
+      });
+
+      // Handle client disconnect
+      request.signal.addEventListener("abort", () => {
+        console.log(`Audience client disconnected from session ${sessionId}`);
+        cleanup();
+      });
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
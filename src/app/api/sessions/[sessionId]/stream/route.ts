@@ -1,5 +1,6 @@
 import { NextRequest } from "next/server";
-import { sessionStore } from "@/lib/sessionStore";
+import { sessionStore, type SessionEvent } from "@/lib/sessionStore";
+import { jobQueue } from "@/lib/jobQueue";
 
 // Required for SSE on Vercel
 export const runtime = "nodejs";
@@ -16,73 +17,138 @@ export async function GET(
     return new Response("Session not found or expired", { status: 404 });
   }
 
+  // This stream carries unmoderated and rejected submissions, so it is presenter-only.
+  // EventSource can't set headers, so the token may also come as a query parameter.
+  const authHeader = request.headers.get("authorization") || "";
+  const token =
+    authHeader.replace(/^Bearer\s+/i, "").trim() || request.nextUrl.searchParams.get("token") || "";
+  if (!token || token !== session.presenterToken) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  // EventSource sends back the last event ID it saw when it reconnects
+  const lastEventIdHeader = request.headers.get("last-event-id");
+  const lastEventId = lastEventIdHeader !== null ? Number(lastEventIdHeader) : NaN;
+  const isResuming = Number.isFinite(lastEventId);
+
   // Create SSE stream
   const encoder = new TextEncoder();
-  let lastCheckTimestamp = new Date().toISOString();
 
   const stream = new ReadableStream({
-    async start(controller) {
-      // Keep-alive ping every 15 seconds
+    start(controller) {
+      let unsubscribe: () => void = () => {};
+
+      const cleanup = () => {
+        clearInterval(keepAliveInterval);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // Stream already closed
+        }
+      };
+
+      // Keep-alive ping every 15 seconds. Reading the session here also
+      // surfaces expiry as a session-expired event.
       const keepAliveInterval = setInterval(() => {
+        if (!sessionStore.getSession(sessionId)) {
+          cleanup();
+          return;
+        }
         try {
           controller.enqueue(encoder.encode(": keepalive\n\n"));
         } catch (error) {
           console.error("❌ Error sending keepalive:", error);
-          clearInterval(keepAliveInterval);
-          clearInterval(pollInterval);
+          cleanup();
         }
       }, 15000);
 
-      // Poll for new feedback every 2 seconds
-      const pollInterval = setInterval(() => {
+      const send = (seq: number, data: object) => {
+        controller.enqueue(encoder.encode(`id: ${seq}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      // Job updates aren't sequenced, so they must not move the client's last event ID
+      const sendUnsequenced = (data: object) => {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+      };
+
+      const handleEvent = (event: SessionEvent) => {
+        if (event.type === "session-expired" || event.type === "session-deleted") {
+          console.log(`Session ${sessionId} ended (${event.type}), closing stream`);
+          cleanup();
+          return;
+        }
         try {
-          // Check if session still exists
-          const currentSession = sessionStore.getSession(sessionId);
-          if (!currentSession) {
-            console.log(`Session ${sessionId} expired, closing stream`);
-            clearInterval(keepAliveInterval);
-            clearInterval(pollInterval);
-            controller.close();
-            return;
+          if (event.type === "feedback-added") {
+            send(event.seq, { type: "feedback", seq: event.seq, payload: event.feedback });
+          } else if (event.type === "feedback-pending") {
+            send(event.seq, { type: "pending", seq: event.seq, payload: event.feedback });
+          } else if (event.type === "feedback-rejected") {
+            send(event.seq, { type: "rejected", seq: event.seq, payload: event.feedback });
+          } else if (event.type === "feedback-voted") {
+            send(event.seq, {
+              type: "vote",
+              seq: event.seq,
+              payload: { feedbackId: event.feedbackId, votes: event.votes },
+            });
+          } else if (event.type === "job-updated") {
+            sendUnsequenced({ type: "job", payload: event.job });
           }
+        } catch (error) {
+          console.error("❌ Error sending feedback:", error);
+          cleanup();
+        }
+      };
 
-          // Get new feedback since last check
-          const newFeedback = sessionStore.getFeedback(sessionId, lastCheckTimestamp);
-
-          if (newFeedback.length > 0) {
-            // Send each new feedback item
-            for (const feedback of newFeedback) {
-              const data = JSON.stringify({
-                type: "feedback",
-                payload: feedback,
-              });
-              controller.enqueue(encoder.encode(`data: ${data}\n\n`));
-            }
-            // Update last check timestamp to the most recent feedback
-            lastCheckTimestamp = newFeedback[newFeedback.length - 1].timestamp;
+      try {
+        if (isResuming) {
+          // Replay everything submitted or decided while the client was disconnected;
+          // rejections too, so the client drops them from its moderation queue
+          const missed = sessionStore.getFeedbackAfterSeq(sessionId, lastEventId);
+          for (const { seq, feedback } of missed) {
+            const type =
+              feedback.status === "pending"
+                ? "pending"
+                : feedback.status === "rejected"
+                  ? "rejected"
+                  : "feedback";
+            send(seq, { type, seq, payload: feedback, replayed: true });
           }
-        } catch (error) {
-          console.error("❌ Error polling feedback:", error);
-          clearInterval(keepAliveInterval);
-          clearInterval(pollInterval);
-          try {
-            controller.close();
-          } catch {
-            // Stream already closed
+          if (missed.length > 0) {
+            console.log(`Replayed ${missed.length} missed feedback item(s) for session ${sessionId}`);
           }
+          // Votes on older questions may also have changed, so send a full snapshot
+          const votes = Object.fromEntries(
+            sessionStore.getFeedback(sessionId).map((f) => [f.id, f.votes ?? 0])
+          );
+          send(sessionStore.getLatestSeq(sessionId), { type: "replay", count: missed.length, votes });
+        } else {
+          // A fresh presenter view still needs everything waiting for moderation
+          for (const { seq, feedback } of sessionStore.getFeedbackAfterSeq(sessionId, 0)) {
+            if (feedback.status === "pending") {
+              send(seq, { type: "pending", seq, payload: feedback });
+            }
+          }
+          // Give the client an event ID right away so a reconnect before the
+          // first question still resumes from here
+          send(sessionStore.getLatestSeq(sessionId), { type: "ready" });
         }
-      }, 2000);
+      } catch (error) {
+        console.error("❌ Error replaying feedback:", error);
+      }
+
+      // Generation jobs aren't sequenced, so every connection gets the current list,
+      // including finished slides the presenter hasn't collected yet. It is sent even
+      // when empty, since a job missing from it finished while the client was away.
+      sendUnsequenced({ type: "jobs", payload: jobQueue.getJobs(sessionId) });
+
+      // Replay and subscribe run in the same tick, so nothing can slip in between
+      unsubscribe = sessionStore.subscribe(sessionId, handleEvent);
 
       // Handle client disconnect
       request.signal.addEventListener("abort", () => {
         console.log(`Client disconnected from session ${sessionId}`);
-        clearInterval(keepAliveInterval);
-        clearInterval(pollInterval);
-        try {
-          controller.close();
-        } catch {
-          // Stream already closed
-        }
+        cleanup();
       });
     },
   });
@@ -1,9 +1,23 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { sessionStore } from "@/lib/sessionStore";
+import { parseBrandKit } from "@/lib/brandKit";
+import type { BrandKit } from "@/types/brandKit";
 
-export async function POST() {
+export async function POST(request: NextRequest) {
   try {
-    const session = sessionStore.createSession();
+    // The body is optional; older clients create sessions without one
+    const body = await request.json().catch(() => ({}));
+
+    let brandKit: BrandKit | null = null;
+    if (body?.brandKit) {
+      const parsed = parseBrandKit(body.brandKit);
+      if (!parsed.brandKit) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 });
+      }
+      brandKit = parsed.brandKit;
+    }
+
+    const session = sessionStore.createSession({ brandKit });
 
     // Construct the audience URL (relative path)
     const audienceUrl = `/presentation/${session.id}`;
@@ -13,6 +27,7 @@ export async function POST() {
       presenterToken: session.presenterToken,
       audienceUrl,
       expiresAt: session.expiresAt,
+      brandKit,
     });
   } catch (error) {
     console.error("❌ Error creating session:", error);
@@ -1,19 +1,20 @@
-import { GoogleGenerativeAI, SchemaType } from "@google/generative-ai";
 import { NextRequest, NextResponse } from "next/server";
+import { getLLMClient, getLLMConfigError, type LLMFunctionDeclaration } from "@/lib/llm";
+import { abortedResponse } from "@/utils/abort";
 
 // Tool for curator decision
-const curatorDecisionTool = {
+const curatorDecisionTool: LLMFunctionDeclaration = {
   name: "curator_decision",
   description: "Make a decision about which slides to show as options to the presenter",
   parameters: {
-    type: SchemaType.OBJECT,
+    type: "object",
     properties: {
       action: {
-        type: SchemaType.STRING,
+        type: "string",
         description: "The action to take: 'replace_slot_1' (new slide replaces option 1), 'replace_slot_2' (new slide replaces option 2), 'discard' (keep current options, discard new slide)",
       },
       reasoning: {
-        type: SchemaType.STRING,
+        type: "string",
         description: "Brief explanation of why this decision was made",
       },
     },
@@ -30,14 +31,14 @@ interface SlideOption {
 
 export async function POST(request: NextRequest) {
   try {
-    const apiKey = process.env.GOOGLE_API_KEY;
-    if (!apiKey) {
+    const configError = getLLMConfigError();
+    if (configError) {
       return NextResponse.json(
-        { error: "Missing GOOGLE_API_KEY environment variable" },
+        { error: configError },
         { status: 500 }
       );
     }
-    const genAI = new GoogleGenerativeAI(apiKey);
+    const llm = getLLMClient();
     const { newSlide, currentOptions } = await request.json() as {
       newSlide: SlideOption;
       currentOptions: [SlideOption | null, SlideOption | null];
@@ -51,11 +52,6 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ action: "replace_slot_2", reasoning: "Slot 2 was empty" });
     }
 
-    const model = genAI.getGenerativeModel({
-      model: "gemini-2.5-flash-lite",
-      tools: [{ functionDeclarations: [curatorDecisionTool] }],
-    });
-
     const prompt = `You are a presentation slide curator. The presenter is giving a live talk and you're helping them choose the best slides.
 
 You currently have TWO slide options visible to the presenter. A NEW slide has just been generated.
@@ -84,13 +80,14 @@ DECISION CRITERIA:
 
 Call curator_decision with your choice: 'replace_slot_1', 'replace_slot_2', or 'discard'.`;
 
-    const result = await model.generateContent(prompt);
-    const response = result.response;
-    const candidate = response.candidates?.[0];
-
-    const functionCall = candidate?.content?.parts?.find(
-      (part) => part.functionCall
-    )?.functionCall;
+    const { functionCall } = await llm.generate({
+      task: "slide-curator",
+      prompt,
+      tier: "fast",
+      functions: [curatorDecisionTool],
+      subject: newSlide.headline,
+      signal: request.signal,
+    });
 
     if (functionCall && functionCall.name === "curator_decision") {
       const args = functionCall.args as {
@@ -114,6 +111,7 @@ Call curator_decision with your choice: 'replace_slot_1', 'replace_slot_2', or '
       reasoning: "Could not determine best action",
     });
   } catch (error) {
+    if (request.signal.aborted) return abortedResponse();
     console.error("Slide curator error:", error);
     // On error, default to replacing slot 2 (keep newest content flowing)
     return NextResponse.json({
@@ -1,8 +1,7 @@
-import {
-  DynamicRetrievalMode,
-  GoogleGenerativeAI,
-} from "@google/generative-ai";
 import { NextRequest, NextResponse } from "next/server";
+import { getLLMClient, getLLMConfigError } from "@/lib/llm";
+import { normalizeSources } from "@/lib/citations";
+import { abortedResponse } from "@/utils/abort";
 
 interface FollowupSlide {
   headline: string;
@@ -14,14 +13,14 @@ interface FollowupSlide {
 
 export async function POST(request: NextRequest) {
   try {
-    const apiKey = process.env.GOOGLE_API_KEY;
-    if (!apiKey) {
+    const configError = getLLMConfigError();
+    if (configError) {
       return NextResponse.json(
-        { error: "Missing GOOGLE_API_KEY environment variable" },
+        { error: configError },
         { status: 500 }
       );
     }
-    const genAI = new GoogleGenerativeAI(apiKey);
+    const llm = getLLMClient();
     const body = await request.json();
     const {
       currentSlide,
@@ -47,22 +46,6 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const model = genAI.getGenerativeModel({
-      model: "gemini-2.0-flash",
-      generationConfig: {
-        responseMimeType: "application/json",
-      },
-      tools: [
-        {
-          googleSearchRetrieval: {
-            dynamicRetrievalConfig: {
-              mode: DynamicRetrievalMode.MODE_DYNAMIC,
-            },
-          },
-        },
-      ],
-    });
-
     const bulletsText =
       currentSlide.bullets && currentSlide.bullets.length > 0
         ? `\n- Bullets: ${currentSlide.bullets.join("; ")}`
@@ -117,9 +100,14 @@ Respond with a JSON object of the form:
 
 Limit to at most 2 follow-up slides.`;
 
-    const result = await model.generateContent(prompt);
-    const response = result.response;
-    const text = response.text();
+    const { text, sources } = await llm.generate({
+      task: "slide-followups",
+      prompt,
+      json: true,
+      search: true,
+      subject: currentSlide.headline,
+      signal: request.signal,
+    });
 
     let parsed: { followups?: FollowupSlide[] };
     try {
@@ -145,13 +133,15 @@ Limit to at most 2 follow-up slides.`;
     // Filter out any obviously invalid entries
     const cleanedFollowups = followups
       .filter((f) => f && typeof f.headline === "string")
-      .slice(0, 2);
+      .slice(0, 2)
+      .map((f) => ({ ...f, sources: normalizeSources(sources) }));
 
     return NextResponse.json({
       success: true,
       followups: cleanedFollowups,
     });
   } catch (error) {
+    if (request.signal.aborted) return abortedResponse();
     console.error("Slide follow-ups API error:", error);
     return NextResponse.json(
       {
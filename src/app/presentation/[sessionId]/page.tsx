@@ -1,9 +1,18 @@
 "use client";
 
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useCallback } from "react";
 import { useParams } from "next/navigation";
 import { SlideCanvas } from "@/components/presentation/SlideCanvas";
+import { QuestionBoard } from "@/components/presentation/QuestionBoard";
+import { PollCard } from "@/components/presentation/PollCard";
+import { ReactionOverlay } from "@/components/presentation/ReactionOverlay";
+import { useFloatingReactions } from "@/hooks/useFloatingReactions";
+import { MAX_UNTRUSTED_TEXT_LENGTH } from "@/lib/promptSafety";
 import type { SlideData } from "@/types/slides";
+import type { Feedback } from "@/types/feedback";
+import type { Poll } from "@/types/poll";
+import type { BrandKit } from "@/types/brandKit";
+import { REACTION_EMOJIS, type ReactionEmoji } from "@/types/reaction";
 import QRCode from "react-qr-code";
 
 export default function PresentationPage() {
@@ -16,7 +25,18 @@ export default function PresentationPage() {
   const [feedbackText, setFeedbackText] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitSuccess, setSubmitSuccess] = useState(false);
+  // Set when the presenter moderates questions and ours is awaiting review
+  const [submitPending, setSubmitPending] = useState(false);
+  const [questions, setQuestions] = useState<Feedback[]>([]);
+  const [votedIds, setVotedIds] = useState<Set<string>>(new Set());
+  const [showQuestionBoard, setShowQuestionBoard] = useState(false);
+  const [activePoll, setActivePoll] = useState<Poll | null>(null);
+  const [pollVote, setPollVote] = useState<string | null>(null);
+  const [brandKit, setBrandKit] = useState<BrandKit | null>(null);
+  const { floatingReactions, addFloatingReaction } = useFloatingReactions();
   const lastRevisionRef = useRef<number | null>(null);
+  // Reactions echo back over SSE; only float them locally when we're polling
+  const isStreamingRef = useRef(false);
   const submitTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
   // Listen for slide updates via postMessage (for presenter's own window)
@@ -35,9 +55,199 @@ export default function PresentationPage() {
     return () => window.removeEventListener("message", handleMessage);
   }, []);
 
-  // Poll for slide updates (for remote audience members)
+  const votedStorageKey = `slidequest:voted:${sessionId}`;
+
+  // Restore which questions this device already upvoted
+  useEffect(() => {
+    try {
+      const stored = window.localStorage.getItem(votedStorageKey);
+      if (stored) {
+        setVotedIds(new Set(JSON.parse(stored) as string[]));
+      }
+    } catch {
+      // Ignore malformed storage
+    }
+  }, [votedStorageKey]);
+
+  const loadQuestions = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/feedback`, {
+        cache: "no-store",
+      });
+      if (!response.ok) return;
+      const data = await response.json();
+      setQuestions((data.questions ?? []) as Feedback[]);
+    } catch (error) {
+      console.error("Error loading questions:", error);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    void loadQuestions();
+  }, [loadQuestions]);
+
+  // Refresh the board whenever it's opened (covers the polling fallback)
+  useEffect(() => {
+    if (showQuestionBoard) {
+      void loadQuestions();
+    }
+  }, [showQuestionBoard, loadQuestions]);
+
+  const handleUpvote = async (feedbackId: string) => {
+    if (votedIds.has(feedbackId)) return;
+
+    const markVoted = (voted: boolean) => {
+      setVotedIds((prev) => {
+        const next = new Set(prev);
+        if (voted) {
+          next.add(feedbackId);
+        } else {
+          next.delete(feedbackId);
+        }
+        window.localStorage.setItem(votedStorageKey, JSON.stringify([...next]));
+        return next;
+      });
+    };
+
+    markVoted(true);
+    try {
+      // The server identifies this device by the voter cookie it issues
+      const response = await fetch(
+        `/api/sessions/${sessionId}/feedback/${feedbackId}/vote`,
+        { method: "POST" }
+      );
+      const data = await response.json().catch(() => ({}));
+      // 409 means this device already voted, which is still a success for the UI
+      if (!response.ok && response.status !== 409) {
+        markVoted(false);
+        return;
+      }
+      if (typeof data.votes === "number") {
+        setQuestions((prev) =>
+          prev.map((q) => (q.id === feedbackId ? { ...q, votes: data.votes } : q))
+        );
+      }
+    } catch (error) {
+      console.error("Error upvoting question:", error);
+      markVoted(false);
+    }
+  };
+
+  const pollVoteStorageKey = activePoll ? `slidequest:poll-vote:${activePoll.id}` : null;
+
+  // Restore this device's choice when a poll appears
+  useEffect(() => {
+    setPollVote(pollVoteStorageKey ? window.localStorage.getItem(pollVoteStorageKey) : null);
+  }, [pollVoteStorageKey]);
+
+  const loadPoll = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/polls`, {
+        cache: "no-store",
+      });
+      if (!response.ok) return;
+      const data = await response.json();
+      setActivePoll((data.poll ?? null) as Poll | null);
+    } catch (error) {
+      console.error("Error loading poll:", error);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    void loadPoll();
+  }, [loadPoll]);
+
+  const loadBrandKit = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/brand-kit`, {
+        cache: "no-store",
+      });
+      if (!response.ok) return;
+      const data = await response.json();
+      setBrandKit((data.brandKit ?? null) as BrandKit | null);
+    } catch (error) {
+      console.error("Error loading brand kit:", error);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    void loadBrandKit();
+  }, [loadBrandKit]);
+
+  const handlePollVote = async (optionId: string) => {
+    if (!activePoll || !pollVoteStorageKey || pollVote) return;
+
+    setPollVote(optionId);
+    try {
+      const response = await fetch(
+        `/api/sessions/${sessionId}/polls/${activePoll.id}/vote`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ optionId }),
+        }
+      );
+      const data = await response.json().catch(() => ({}));
+      // 409 means this device already voted on the poll
+      if (!response.ok && response.status !== 409) {
+        setPollVote(null);
+        return;
+      }
+      window.localStorage.setItem(pollVoteStorageKey, optionId);
+      if (data.poll) {
+        setActivePoll(data.poll as Poll);
+      }
+    } catch (error) {
+      console.error("Error voting in poll:", error);
+      setPollVote(null);
+    }
+  };
+
+  const handleReaction = async (emoji: ReactionEmoji) => {
+    if (!isStreamingRef.current) {
+      addFloatingReaction(emoji);
+    }
+    try {
+      await fetch(`/api/sessions/${sessionId}/reactions`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ emoji }),
+      });
+    } catch (error) {
+      console.error("Error sending reaction:", error);
+    }
+  };
+
+  // Receive slide updates for remote audience members: pushed over SSE,
+  // with polling only as a fallback when the EventSource fails
   useEffect(() => {
     let cancelled = false;
+    let pollInterval: ReturnType<typeof setInterval> | null = null;
+    let eventSource: EventSource | null = null;
+
+    const applySlideState = (data: {
+      slide?: SlideData | null;
+      showQRCode?: boolean;
+      audienceUrl?: string | null;
+      revision?: number;
+    }) => {
+      const revision = data.revision ?? null;
+      // Ignore revisions older than what we're already showing
+      if (
+        revision !== null &&
+        lastRevisionRef.current !== null &&
+        revision < lastRevisionRef.current
+      ) {
+        return;
+      }
+      lastRevisionRef.current = revision;
+      setSessionValid(true);
+      if (data.slide) {
+        setSlide(data.slide);
+      }
+      setShowQRCode(data.showQRCode ?? false);
+      setAudienceUrl(data.audienceUrl ?? null);
+    };
 
     const pollSlides = async (isInitial = false) => {
       if (cancelled) return;
@@ -64,13 +274,7 @@ export default function PresentationPage() {
         }
         const data = await response.json();
         if (cancelled) return;
-        lastRevisionRef.current = data.revision ?? null;
-        setSessionValid(true);
-        if (data.slide) {
-          setSlide(data.slide);
-        }
-        setShowQRCode(data.showQRCode ?? false);
-        setAudienceUrl(data.audienceUrl ?? null);
+        applySlideState(data);
       } catch (error) {
         console.error("Error polling for slides:", error);
         if (isInitial) {
@@ -79,23 +283,90 @@ export default function PresentationPage() {
       }
     };
 
-    // Poll immediately on mount
-    void pollSlides(true);
+    const startPolling = () => {
+      if (pollInterval || cancelled) return;
+      console.log("Falling back to slide polling");
 
-    // Then poll every 2 seconds
-    const interval = setInterval(() => {
-      if (cancelled) {
-        clearInterval(interval);
-        return;
-      }
-      void pollSlides(false);
-    }, 2000);
+      // Poll immediately, then every 2 seconds
+      void pollSlides(lastRevisionRef.current === null);
+      pollInterval = setInterval(() => {
+        if (cancelled) {
+          if (pollInterval) clearInterval(pollInterval);
+          return;
+        }
+        void pollSlides(false);
+      }, 2000);
+    };
+
+    if (typeof EventSource === "undefined") {
+      startPolling();
+    } else {
+      const source = new EventSource(`/api/sessions/${sessionId}/slide/stream`);
+      eventSource = source;
+      isStreamingRef.current = true;
+      let hasOpened = false;
+
+      // Only the slide is resumed from Last-Event-ID, so after a reconnect
+      // refetch the board, poll and brand kit changed while we were away
+      source.onopen = () => {
+        if (hasOpened) {
+          void loadQuestions();
+          void loadPoll();
+          void loadBrandKit();
+        }
+        hasOpened = true;
+      };
+
+      source.onmessage = (event) => {
+        try {
+          const data = JSON.parse(event.data);
+          if (data.type === "slide" && data.payload) {
+            applySlideState(data.payload);
+          } else if (data.type === "question" && data.payload) {
+            const question = data.payload as Feedback;
+            setQuestions((prev) =>
+              prev.some((q) => q.id === question.id) ? prev : [...prev, question]
+            );
+          } else if (data.type === "question-removed" && data.payload) {
+            const { feedbackId } = data.payload as { feedbackId: string };
+            setQuestions((prev) => prev.filter((q) => q.id !== feedbackId));
+          } else if (data.type === "vote" && data.payload) {
+            const { feedbackId, votes } = data.payload as { feedbackId: string; votes: number };
+            setQuestions((prev) =>
+              prev.map((q) => (q.id === feedbackId ? { ...q, votes } : q))
+            );
+          } else if (data.type === "poll" && data.payload) {
+            const poll = data.payload as Poll;
+            setActivePoll(poll.status === "open" ? poll : null);
+          } else if (data.type === "reaction" && data.payload) {
+            addFloatingReaction(data.payload.emoji as ReactionEmoji);
+          } else if (data.type === "brand-kit") {
+            setBrandKit((data.payload ?? null) as BrandKit | null);
+          }
+        } catch (err) {
+          console.error("Error parsing slide event:", err);
+        }
+      };
+
+      source.onerror = () => {
+        // EventSource retries transient errors on its own; once it gives up
+        // (e.g. the session is gone or SSE is blocked) switch to polling
+        if (source.readyState === EventSource.CLOSED) {
+          source.close();
+          eventSource = null;
+          isStreamingRef.current = false;
+          startPolling();
+        }
+      };
+    }
 
     return () => {
       cancelled = true;
-      clearInterval(interval);
+      eventSource?.close();
+      isStreamingRef.current = false;
+      if (pollInterval) clearInterval(pollInterval);
     };
-  }, [sessionId]);
+  }, [addFloatingReaction, loadBrandKit, loadPoll, loadQuestions, sessionId]);
 
   // Handle feedback submission
   const handleSubmitFeedback = async () => {
@@ -113,6 +384,8 @@ export default function PresentationPage() {
       });
 
       if (response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setSubmitPending(Boolean(data.pending));
         setSubmitSuccess(true);
         setFeedbackText("");
         if (submitTimeoutRef.current) {
@@ -187,14 +460,17 @@ export default function PresentationPage() {
     }
 
     // Delegate slide rendering (including audience question templating) to SlideCanvas
-    return <SlideCanvas slide={slide} isFullscreen />;
+    return <SlideCanvas slide={slide} brandKit={brandKit} isFullscreen />;
   };
 
   // Main presentation view
   return (
     <>
       {/* Slide Display */}
-      {renderSlide()}
+      <div className="relative">
+        {renderSlide()}
+        <ReactionOverlay reactions={floatingReactions} />
+      </div>
 
       {/* QR Code Overlay */}
       {showQRCode && audienceUrl && (
@@ -213,13 +489,54 @@ export default function PresentationPage() {
         </div>
       )}
 
-      {/* Floating "Ask a Question" Button */}
-      <button
-        onClick={() => setShowFeedbackModal(true)}
-        className="fixed bottom-4 right-4 rounded-full bg-white px-4 py-2 text-xs font-semibold text-zinc-900 shadow-lg transition-all hover:scale-105 hover:shadow-xl sm:bottom-6 sm:right-6 sm:px-6 sm:py-3 sm:text-sm"
-      >
-        Ask a Question
-      </button>
+      {/* Live poll */}
+      {activePoll && (
+        <PollCard
+          poll={activePoll}
+          votedOptionId={pollVote}
+          onVote={(id) => void handlePollVote(id)}
+        />
+      )}
+
+      {/* Reaction bar */}
+      <div className="fixed bottom-4 left-4 flex gap-1 rounded-full border border-zinc-700 bg-zinc-900/90 px-2 py-1 shadow-lg sm:bottom-6 sm:left-6">
+        {REACTION_EMOJIS.map((emoji) => (
+          <button
+            key={emoji}
+            onClick={() => void handleReaction(emoji)}
+            aria-label={`React with ${emoji}`}
+            className="rounded-full px-1.5 py-1 text-lg transition-transform hover:scale-125 active:scale-95 sm:text-xl"
+          >
+            {emoji}
+          </button>
+        ))}
+      </div>
+
+      {/* Floating audience actions */}
+      <div className="fixed bottom-4 right-4 flex gap-2 sm:bottom-6 sm:right-6 sm:gap-3">
+        <button
+          onClick={() => setShowQuestionBoard(true)}
+          className="rounded-full border border-zinc-600 bg-zinc-900/90 px-4 py-2 text-xs font-semibold text-white shadow-lg transition-all hover:scale-105 hover:shadow-xl sm:px-6 sm:py-3 sm:text-sm"
+        >
+          Questions{questions.length > 0 ? ` (${questions.length})` : ""}
+        </button>
+        <button
+          onClick={() => setShowFeedbackModal(true)}
+          className="rounded-full bg-white px-4 py-2 text-xs font-semibold text-zinc-900 shadow-lg transition-all hover:scale-105 hover:shadow-xl sm:px-6 sm:py-3 sm:text-sm"
+        >
+          Ask a Question
+        </button>
+      </div>
+
+      {/* Shared question board */}
+      {showQuestionBoard && (
+        <QuestionBoard
+          questions={questions}
+          votedIds={votedIds}
+          onUpvote={(id) => void handleUpvote(id)}
+          onClose={() => setShowQuestionBoard(false)}
+        />
+      )}
 
       {/* Feedback Modal */}
       {showFeedbackModal && (
@@ -230,7 +547,9 @@ export default function PresentationPage() {
                 <div className="mb-3 text-4xl sm:mb-4 sm:text-5xl">✓</div>
                 <h3 className="text-lg font-semibold text-green-400 sm:text-xl">Question Submitted!</h3>
                 <p className="mt-2 text-xs text-zinc-400 sm:text-sm">
-                  The presenter will see your question
+                  {submitPending
+                    ? "Your question will appear once the presenter approves it"
+                    : "The presenter will see your question"}
                 </p>
               </div>
             ) : (
@@ -240,6 +559,7 @@ export default function PresentationPage() {
                   value={feedbackText}
                   onChange={(e) => setFeedbackText(e.target.value)}
                   placeholder="Type your question here..."
+                  maxLength={MAX_UNTRUSTED_TEXT_LENGTH}
                   className="mb-3 h-28 w-full rounded-lg border border-zinc-700 bg-zinc-800 p-3 text-sm text-white placeholder-zinc-500 focus:border-zinc-500 focus:outline-none sm:mb-4 sm:h-32 sm:text-base"
                   autoFocus
                 />
@@ -0,0 +1,195 @@
+import { useState } from "react";
+import { LOGO_PLACEMENTS } from "@/lib/brandKit";
+import type { BrandColors, BrandKit, LogoPlacement } from "@/types/brandKit";
+
+const DEFAULT_COLORS: BrandColors = {
+  primary: "#2563eb",
+  secondary: "#1e293b",
+  accent: "#f59e0b",
+  background: "#0f172a",
+  text: "#f8fafc",
+};
+
+const COLOR_FIELDS: { key: keyof BrandColors; label: string }[] = [
+  { key: "primary", label: "Primary" },
+  { key: "secondary", label: "Secondary" },
+  { key: "accent", label: "Accent" },
+  { key: "background", label: "Background" },
+  { key: "text", label: "Text" },
+];
+
+const inputClass =
+  "w-full rounded-md border border-zinc-700 bg-zinc-950 px-2 py-1 text-sm text-zinc-100 outline-none focus:border-zinc-500";
+const labelClass = "text-[11px] font-medium uppercase tracking-wide text-zinc-500";
+
+interface BrandKitDialogProps {
+  brandKit: BrandKit | null;
+  isSaving: boolean;
+  error: string | null;
+  onSave: (brandKit: BrandKit | null) => void;
+  onDismiss: () => void;
+}
+
+export function BrandKitDialog({ brandKit, isSaving, error, onSave, onDismiss }: BrandKitDialogProps) {
+  const [name, setName] = useState(brandKit?.name ?? "");
+  const [colors, setColors] = useState<BrandColors>({ ...DEFAULT_COLORS, ...brandKit?.colors });
+  const [headingFont, setHeadingFont] = useState(brandKit?.fonts?.heading ?? "");
+  const [bodyFont, setBodyFont] = useState(brandKit?.fonts?.body ?? "");
+  const [tone, setTone] = useState(brandKit?.toneKeywords?.join(", ") ?? "");
+  const [logo, setLogo] = useState(brandKit?.logo ?? null);
+
+  const handleLogoFile = (file: File | undefined) => {
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      setLogo({ dataUrl: String(reader.result), placement: logo?.placement ?? "bottom-right" });
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const handleSave = () => {
+    onSave({
+      name: name.trim() || undefined,
+      colors,
+      fonts: { heading: headingFont.trim() || undefined, body: bodyFont.trim() || undefined },
+      logo: logo ?? undefined,
+      toneKeywords: tone
+        .split(",")
+        .map((keyword) => keyword.trim())
+        .filter(Boolean),
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end justify-center bg-black/60 p-4 sm:items-center">
+      <div className="max-h-full w-full max-w-md overflow-y-auto rounded-xl border border-zinc-700 bg-zinc-900 p-4 shadow-xl">
+        <h2 className="mb-2 text-sm font-semibold text-white">Brand kit</h2>
+        <p className="mb-3 text-xs text-zinc-400">
+          Generated and native slides follow these colors, fonts and logo. The kit is saved on
+          this device and applied to new sessions.
+        </p>
+
+        <span className={labelClass}>Name</span>
+        <input
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          className={`${inputClass} mb-3 mt-1`}
+          placeholder="E.g. Acme Corp"
+        />
+
+        <span className={labelClass}>Colors</span>
+        <div className="mb-3 mt-1 grid grid-cols-5 gap-2">
+          {COLOR_FIELDS.map(({ key, label }) => (
+            <label key={key} className="flex flex-col items-center gap-1 text-[10px] text-zinc-400">
+              <input
+                type="color"
+                value={colors[key] ?? DEFAULT_COLORS[key]}
+                onChange={(event) => setColors((prev) => ({ ...prev, [key]: event.target.value }))}
+                className="h-8 w-full cursor-pointer rounded border border-zinc-700 bg-transparent"
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+
+        <div className="mb-3 grid grid-cols-2 gap-2">
+          <label className="flex flex-col gap-1">
+            <span className={labelClass}>Heading font</span>
+            <input
+              value={headingFont}
+              onChange={(event) => setHeadingFont(event.target.value)}
+              className={inputClass}
+              placeholder="E.g. Montserrat"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className={labelClass}>Body font</span>
+            <input
+              value={bodyFont}
+              onChange={(event) => setBodyFont(event.target.value)}
+              className={inputClass}
+              placeholder="E.g. Inter"
+            />
+          </label>
+        </div>
+
+        <span className={labelClass}>Tone keywords</span>
+        <input
+          value={tone}
+          onChange={(event) => setTone(event.target.value)}
+          className={`${inputClass} mb-3 mt-1`}
+          placeholder="E.g. confident, friendly, minimal"
+        />
+
+        <span className={labelClass}>Logo</span>
+        <div className="mb-3 mt-1 flex items-center gap-2">
+          {logo && (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img src={logo.dataUrl} alt="Logo preview" className="h-8 w-auto rounded bg-zinc-800 p-1" />
+          )}
+          <input
+            type="file"
+            accept="image/png,image/jpeg,image/webp"
+            onChange={(event) => handleLogoFile(event.target.files?.[0])}
+            className="min-w-0 flex-1 text-xs text-zinc-400 file:mr-2 file:rounded file:border-0 file:bg-zinc-700 file:px-2 file:py-1 file:text-xs file:text-zinc-200"
+          />
+          {logo && (
+            <select
+              value={logo.placement}
+              onChange={(event) =>
+                setLogo({ ...logo, placement: event.target.value as LogoPlacement })
+              }
+              className="rounded-md border border-zinc-700 bg-zinc-950 px-1 py-1 text-xs text-zinc-200"
+            >
+              {LOGO_PLACEMENTS.map((placement) => (
+                <option key={placement} value={placement}>
+                  {placement.replace("-", " ")}
+                </option>
+              ))}
+            </select>
+          )}
+          {logo && (
+            <button
+              type="button"
+              onClick={() => setLogo(null)}
+              aria-label="Remove logo"
+              className="rounded-md border border-zinc-700 px-2 py-1 text-xs text-zinc-400 transition-colors hover:bg-zinc-800"
+            >
+              ✕
+            </button>
+          )}
+        </div>
+
+        {error && <p className="mb-3 text-xs text-red-400">{error}</p>}
+
+        <div className="flex justify-between gap-2">
+          <button
+            type="button"
+            disabled={!brandKit || isSaving}
+            onClick={() => onSave(null)}
+            className="rounded-md border border-zinc-700 px-3 py-1.5 text-xs font-medium text-zinc-400 transition-colors hover:bg-zinc-800 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            Remove kit
+          </button>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={onDismiss}
+              className="rounded-md border border-zinc-700 px-3 py-1.5 text-xs font-medium text-zinc-300 transition-colors hover:bg-zinc-800"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              disabled={isSaving}
+              onClick={handleSave}
+              className="rounded-md bg-white px-3 py-1.5 text-xs font-medium text-zinc-900 transition-colors hover:bg-zinc-200 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {isSaving ? "Saving..." : "Save"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -24,6 +24,16 @@ interface ChannelOptionProps {
   emptyMessage?: string;
   onEmptyAction?: () => void;
   emptyActionLabel?: string;
+  onRevise?: () => void;
+  onEditDiagram?: () => void;
+  versionInfo?: SlideVersionInfo | null;
+  onSelectVersion?: (direction: "prev" | "next") => void;
+  onSelectVariant?: (direction: "prev" | "next") => void;
+}
+
+export interface SlideVersionInfo {
+  index: number;
+  total: number;
 }
 
 export function ChannelOption({
@@ -38,8 +48,15 @@ export function ChannelOption({
   emptyMessage,
   onEmptyAction,
   emptyActionLabel,
+  onRevise,
+  onEditDiagram,
+  versionInfo,
+  onSelectVersion,
+  onSelectVariant,
 }: ChannelOptionProps) {
   const hasSlides = channelInfo.total > 0;
+  const variantTotal = currentSlide?.variants?.length ?? 0;
+  const variantIndex = currentSlide?.variantIndex ?? 0;
 
   return (
     <div className={`flex flex-col rounded-xl border ${accentColor} bg-zinc-900/50 p-3`}>
@@ -51,11 +68,78 @@ export function ChannelOption({
             {label}
           </span>
         </div>
-        {hasSlides && (
-          <span className="text-xs text-zinc-500">
-            {channelInfo.currentIndex + 1}/{channelInfo.total}
-          </span>
-        )}
+        <div className="flex items-center gap-2">
+          {onSelectVariant && variantTotal > 1 && (
+            <span
+              title={currentSlide?.variantStyle}
+              className="flex items-center gap-1 text-[10px] text-zinc-400"
+            >
+              <button
+                type="button"
+                onClick={() => onSelectVariant("prev")}
+                disabled={variantIndex === 0}
+                aria-label="Previous variant"
+                className="rounded px-1 transition-colors hover:bg-zinc-800 hover:text-white disabled:opacity-30"
+              >
+                ‹
+              </button>
+              Variant {variantIndex + 1}/{variantTotal}
+              <button
+                type="button"
+                onClick={() => onSelectVariant("next")}
+                disabled={variantIndex === variantTotal - 1}
+                aria-label="Next variant"
+                className="rounded px-1 transition-colors hover:bg-zinc-800 hover:text-white disabled:opacity-30"
+              >
+                ›
+              </button>
+            </span>
+          )}
+          {versionInfo && versionInfo.total > 1 && (
+            <span className="flex items-center gap-1 text-[10px] text-zinc-400">
+              <button
+                type="button"
+                onClick={() => onSelectVersion?.("prev")}
+                disabled={versionInfo.index === 0}
+                aria-label="Previous version"
+                className="rounded px-1 transition-colors hover:bg-zinc-800 hover:text-white disabled:opacity-30"
+              >
+                ‹
+              </button>
+              v{versionInfo.index + 1}/{versionInfo.total}
+              <button
+                type="button"
+                onClick={() => onSelectVersion?.("next")}
+                disabled={versionInfo.index === versionInfo.total - 1}
+                aria-label="Next version"
+                className="rounded px-1 transition-colors hover:bg-zinc-800 hover:text-white disabled:opacity-30"
+              >
+                ›
+              </button>
+            </span>
+          )}
+          {currentSlide?.curatorReasoning && (
+            <span
+              title={currentSlide.curatorReasoning}
+              className="cursor-help rounded-full bg-purple-500/20 px-1.5 py-0.5 text-[10px] font-medium text-purple-300"
+            >
+              Curated
+            </span>
+          )}
+          {!!currentSlide?.votes && (
+            <span
+              title="Audience upvotes"
+              className="rounded-full bg-blue-500/20 px-1.5 py-0.5 text-[10px] font-medium text-blue-300"
+            >
+              ▲ {currentSlide.votes}
+            </span>
+          )}
+          {hasSlides && (
+            <span className="text-xs text-zinc-500">
+              {channelInfo.currentIndex + 1}/{channelInfo.total}
+            </span>
+          )}
+        </div>
       </div>
 
       {/* Slide Preview */}
@@ -140,6 +224,23 @@ export function ChannelOption({
           Use
         </button>
 
+        {onEditDiagram && currentSlide?.diagram ? (
+          <button
+            onClick={onEditDiagram}
+            className="rounded-md border border-zinc-700 px-2 py-1.5 text-xs font-medium text-zinc-300 transition-colors hover:bg-zinc-800"
+          >
+            Edit diagram
+          </button>
+        ) : onRevise && (
+          <button
+            onClick={onRevise}
+            disabled={!currentSlide || !!currentSlide.poll || !!currentSlide.chart || !!currentSlide.diagram}
+            className="rounded-md border border-zinc-700 px-2 py-1.5 text-xs font-medium text-zinc-300 transition-colors hover:bg-zinc-800 disabled:cursor-not-allowed disabled:opacity-30"
+          >
+            Revise
+          </button>
+        )}
+
         {/* Right arrow */}
         <button
           onClick={() => onNavigate("next")}
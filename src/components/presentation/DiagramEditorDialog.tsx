@@ -0,0 +1,80 @@
+import { useMemo, useState } from "react";
+import type { SlideData } from "@/types/slides";
+import type { BrandKit } from "@/types/brandKit";
+import { MAX_DIAGRAM_SOURCE_LENGTH, parseDiagram } from "@/lib/diagram";
+import { renderNativeSlideDataUrl } from "@/lib/nativeSlides";
+
+interface DiagramEditorDialogProps {
+  slide: SlideData;
+  brandKit?: BrandKit | null;
+  onSave: (source: string, imageUrl: string) => void;
+  onDismiss: () => void;
+}
+
+export function DiagramEditorDialog({ slide, brandKit, onSave, onDismiss }: DiagramEditorDialogProps) {
+  const [source, setSource] = useState(slide.diagram || "");
+  const result = useMemo(() => parseDiagram(source.trim()), [source]);
+  // Preview uses the same renderer as the slide, so what is saved is what was shown
+  const preview = useMemo(
+    () =>
+      "diagram" in result
+        ? renderNativeSlideDataUrl(
+            { headline: slide.headline, subheadline: slide.subheadline, diagram: result.diagram },
+            brandKit
+          )
+        : null,
+    [brandKit, result, slide.headline, slide.subheadline]
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end justify-center bg-black/60 p-4 sm:items-center">
+      <div className="w-full max-w-2xl rounded-xl border border-zinc-700 bg-zinc-900 p-4 shadow-xl">
+        <h2 className="mb-1 text-sm font-semibold text-white">Edit diagram</h2>
+        <p className="mb-3 text-xs text-zinc-400">
+          {slide.headline || "Untitled slide"}. Flowcharts use lines like A[Step] --&gt; B&#123;Decision&#125;;
+          sequence diagrams use User-&gt;&gt;API: Request.
+        </p>
+        <textarea
+          value={source}
+          onChange={(event) => setSource(event.target.value)}
+          maxLength={MAX_DIAGRAM_SOURCE_LENGTH}
+          rows={8}
+          autoFocus
+          spellCheck={false}
+          className="mb-2 w-full resize-y rounded-md border border-zinc-700 bg-zinc-950 px-2 py-1 font-mono text-xs text-zinc-100 outline-none focus:border-zinc-500"
+        />
+
+        {"error" in result ? (
+          <p className="mb-3 text-xs text-red-400">{result.error}</p>
+        ) : (
+          preview && (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img
+              src={preview}
+              alt="Diagram preview"
+              className="mb-3 aspect-video w-full rounded-md border border-zinc-800 object-contain"
+            />
+          )
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onDismiss}
+            className="rounded-md border border-zinc-700 px-3 py-1.5 text-xs font-medium text-zinc-300 transition-colors hover:bg-zinc-800"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            disabled={!preview}
+            onClick={() => preview && onSave(source.trim(), preview)}
+            className="rounded-md bg-white px-3 py-1.5 text-xs font-medium text-zinc-900 transition-colors hover:bg-zinc-200 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import type { ClaimVerdict, FactCheckClaim } from "@/types/factCheck";
+
+const VERDICT_STYLES: Partial<Record<ClaimVerdict, { label: string; className: string }>> = {
+  inaccurate: { label: "Inaccurate", className: "bg-red-500/15 text-red-300" },
+  misleading: { label: "Misleading", className: "bg-amber-500/15 text-amber-300" },
+};
+
+interface FactCheckPanelProps {
+  claims: FactCheckClaim[];
+  isChecking: boolean;
+  onCreateCorrection: (claimId: string) => void;
+  onDismiss: (claimId: string) => void;
+}
+
+// Presenter-only list of flagged claims; nothing here reaches the audience screen
+export function FactCheckPanel({ claims, isChecking, onCreateCorrection, onDismiss }: FactCheckPanelProps) {
+  return (
+    <div className="mx-6 mt-2 rounded-lg border border-red-500/40 bg-zinc-900/50 px-4 py-3">
+      <div className="mb-2 flex items-center justify-between text-xs font-semibold uppercase tracking-wide text-red-400">
+        <span>Fact check ({claims.length})</span>
+        {isChecking && <span className="font-normal normal-case text-zinc-500">Checking...</span>}
+      </div>
+      {claims.length === 0 ? (
+        <p className="text-sm text-zinc-500">No flagged claims. Only you can see this panel.</p>
+      ) : (
+        <ul className="flex max-h-64 flex-col gap-2 overflow-y-auto">
+          {claims.map((claim) => {
+            const verdict = VERDICT_STYLES[claim.verdict];
+            return (
+              <li key={claim.id} className="rounded-md border border-zinc-800 bg-zinc-950/60 p-2">
+                <div className="mb-1 flex items-start gap-2">
+                  {verdict && (
+                    <span className={`flex-shrink-0 rounded-full px-2 py-0.5 text-[11px] ${verdict.className}`}>
+                      {verdict.label}
+                    </span>
+                  )}
+                  <p className="text-sm text-zinc-100">&ldquo;{claim.claim}&rdquo;</p>
+                </div>
+                {claim.correction && (
+                  <p className="mb-1 text-sm text-emerald-300">{claim.correction}</p>
+                )}
+                {claim.explanation && <p className="mb-2 text-xs text-zinc-400">{claim.explanation}</p>}
+                {claim.sources && claim.sources.length > 0 && (
+                  <p className="mb-2 truncate text-[11px] text-zinc-500">
+                    {claim.sources.map((source, i) => (
+                      <span key={source.url}>
+                        {i > 0 && " · "}
+                        <a
+                          href={source.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="underline hover:text-zinc-300"
+                        >
+                          {source.title}
+                        </a>
+                      </span>
+                    ))}
+                  </p>
+                )}
+                <div className="flex flex-wrap items-center gap-2">
+                  <button
+                    type="button"
+                    onClick={() => onCreateCorrection(claim.id)}
+                    className="rounded-md bg-white px-2 py-1 text-xs font-medium text-zinc-900 transition-colors hover:bg-zinc-200"
+                  >
+                    Correction slide
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onDismiss(claim.id)}
+                    className="rounded-md border border-zinc-700 px-2 py-1 text-xs font-medium text-zinc-300 transition-colors hover:bg-zinc-800"
+                  >
+                    Dismiss
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+import { useState } from "react";
+import {
+  GATE_CATEGORIES,
+  GATE_SENSITIVITIES,
+  GATE_TONES,
+  MAX_GATE_BULLETS,
+} from "@/lib/gateProfile";
+import type { GateProfile, GateProfilePreset, GateTone } from "@/types/gateProfile";
+
+const inputClass =
+  "w-full rounded-md border border-zinc-700 bg-zinc-950 px-2 py-1 text-sm text-zinc-100 outline-none focus:border-zinc-500";
+const labelClass = "text-[11px] font-medium uppercase tracking-wide text-zinc-500";
+
+interface GateProfileDialogProps {
+  profile: GateProfile;
+  presets: GateProfilePreset[];
+  onApply: (profile: GateProfile) => void;
+  onSavePreset: (name: string, profile: GateProfile) => void;
+  onDeletePreset: (name: string) => void;
+  onDismiss: () => void;
+}
+
+// Changes apply from the next gate check, so this can be used mid-talk
+export function GateProfileDialog({
+  profile,
+  presets,
+  onApply,
+  onSavePreset,
+  onDeletePreset,
+  onDismiss,
+}: GateProfileDialogProps) {
+  const [draft, setDraft] = useState<GateProfile>(profile);
+  const [presetName, setPresetName] = useState("");
+  const update = (changes: Partial<GateProfile>) => setDraft((prev) => ({ ...prev, ...changes }));
+
+  const toggleCategory = (category: string) => {
+    const allowed = draft.allowedCategories.includes(category)
+      ? draft.allowedCategories.filter((c) => c !== category)
+      : [...draft.allowedCategories, category];
+    update({ allowedCategories: allowed });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end justify-center bg-black/60 p-4 sm:items-center">
+      <div className="max-h-full w-full max-w-md overflow-y-auto rounded-xl border border-zinc-700 bg-zinc-900 p-4 shadow-xl">
+        <h2 className="mb-2 text-sm font-semibold text-white">Gate profile</h2>
+        <p className="mb-3 text-xs text-zinc-400">
+          How eagerly slides are made from your talk, and how they read.
+        </p>
+
+        {presets.length > 0 && (
+          <>
+            <span className={labelClass}>Presets</span>
+            <div className="mb-3 mt-1 flex flex-wrap gap-1">
+              {presets.map((preset) => (
+                <span
+                  key={preset.name}
+                  className="flex items-center rounded-full border border-zinc-700 text-[11px] text-zinc-300"
+                >
+                  <button
+                    type="button"
+                    onClick={() => setDraft(preset.profile)}
+                    className="rounded-l-full px-2 py-0.5 transition-colors hover:bg-zinc-800"
+                  >
+                    {preset.name}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onDeletePreset(preset.name)}
+                    aria-label={`Delete preset ${preset.name}`}
+                    className="rounded-r-full px-1.5 py-0.5 text-zinc-500 transition-colors hover:bg-zinc-800 hover:text-zinc-200"
+                  >
+                    ✕
+                  </button>
+                </span>
+              ))}
+            </div>
+          </>
+        )}
+
+        <span className={labelClass}>Sensitivity</span>
+        <div className="mb-3 mt-1 flex items-center gap-1 rounded-lg border border-zinc-700 p-1">
+          {GATE_SENSITIVITIES.map((sensitivity) => (
+            <button
+              key={sensitivity}
+              type="button"
+              onClick={() => update({ sensitivity })}
+              className={`flex-1 rounded-md px-2 py-1 text-xs font-medium capitalize transition-colors ${
+                draft.sensitivity === sensitivity ? "bg-zinc-700 text-white" : "text-zinc-400 hover:text-white"
+              }`}
+            >
+              {sensitivity}
+            </button>
+          ))}
+        </div>
+
+        <div className="mb-3 grid grid-cols-2 gap-2">
+          <label className="flex flex-col gap-1">
+            <span className={labelClass}>Min gap (s)</span>
+            <input
+              type="number"
+              min={0}
+              max={600}
+              value={draft.minSecondsBetweenSlides}
+              onChange={(event) => update({ minSecondsBetweenSlides: Number(event.target.value) || 0 })}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className={labelClass}>Max bullets</span>
+            <input
+              type="number"
+              min={0}
+              max={MAX_GATE_BULLETS}
+              value={draft.maxBullets}
+              onChange={(event) => update({ maxBullets: Number(event.target.value) || 0 })}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-col gap-1" title="Drop slides still generating this long after they were spoken; 0 keeps them all">
+            <span className={labelClass}>Max age (s)</span>
+            <input
+              type="number"
+              min={0}
+              max={600}
+              value={draft.maxSlideAgeSeconds}
+              onChange={(event) => update({ maxSlideAgeSeconds: Number(event.target.value) || 0 })}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className={labelClass}>Tone</span>
+            <select
+              value={draft.tone}
+              onChange={(event) => update({ tone: event.target.value as GateTone })}
+              className={`${inputClass} capitalize`}
+            >
+              {GATE_TONES.map((tone) => (
+                <option key={tone} value={tone}>
+                  {tone}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <span className={labelClass}>Slide types (none checked allows all)</span>
+        <div className="mb-3 mt-1 grid grid-cols-3 gap-1">
+          {GATE_CATEGORIES.map((category) => (
+            <label key={category} className="flex items-center gap-1.5 text-xs capitalize text-zinc-300">
+              <input
+                type="checkbox"
+                checked={draft.allowedCategories.includes(category)}
+                onChange={() => toggleCategory(category)}
+              />
+              {category}
+            </label>
+          ))}
+        </div>
+
+        <span className={labelClass}>Save as preset</span>
+        <div className="mb-3 mt-1 flex gap-2">
+          <input
+            value={presetName}
+            onChange={(event) => setPresetName(event.target.value)}
+            maxLength={40}
+            placeholder="E.g. Keynote"
+            className={inputClass}
+          />
+          <button
+            type="button"
+            disabled={!presetName.trim()}
+            onClick={() => {
+              onSavePreset(presetName, draft);
+              setPresetName("");
+            }}
+            className="rounded-md border border-zinc-700 px-3 py-1.5 text-xs font-medium text-zinc-300 transition-colors hover:bg-zinc-800 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onDismiss}
+            className="rounded-md border border-zinc-700 px-3 py-1.5 text-xs font-medium text-zinc-300 transition-colors hover:bg-zinc-800"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => onApply(draft)}
+            className="rounded-md bg-white px-3 py-1.5 text-xs font-medium text-zinc-900 transition-colors hover:bg-zinc-200"
+          >
+            Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
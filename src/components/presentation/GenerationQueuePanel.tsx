@@ -0,0 +1,55 @@
+import { useEffect, useState } from "react";
+import type { GenerationJob, GenerationJobState } from "@/types/jobs";
+
+interface GenerationQueuePanelProps {
+  jobs: GenerationJob[];
+}
+
+const STAGE_LABELS: Partial<Record<GenerationJobState, string>> = {
+  queued: "Queued",
+  gating: "Reading the talk",
+  generating: "Drawing slide",
+};
+
+function formatEta(estimatedDoneAt: string | undefined, now: number): string {
+  if (!estimatedDoneAt) return "";
+  const seconds = Math.ceil((new Date(estimatedDoneAt).getTime() - now) / 1000);
+  return seconds > 0 ? `~${seconds}s` : "Any moment";
+}
+
+// Slides being made on the server, each with its stage and a rough ETA
+export function GenerationQueuePanel({ jobs }: GenerationQueuePanelProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  // Count the ETAs down between job updates
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  return (
+    <div className="mx-6 mt-2 rounded-lg border border-zinc-700 bg-zinc-900/50 px-4 py-3">
+      <div className="mb-2 text-xs font-semibold uppercase tracking-wide text-zinc-400">
+        In progress ({jobs.length})
+      </div>
+      <ul className="flex flex-col gap-1">
+        {jobs.map((job) => (
+          <li key={job.id} className="flex items-center gap-2 text-sm">
+            <span
+              className={`h-2 w-2 flex-shrink-0 rounded-full ${
+                job.state === "queued" ? "bg-zinc-500" : "animate-pulse bg-blue-400"
+              }`}
+            />
+            <span className="min-w-0 flex-1 truncate text-zinc-200">
+              {job.headline || "Next slide"}
+            </span>
+            <span className="text-xs text-zinc-400">{STAGE_LABELS[job.state]}</span>
+            <span className="w-20 text-right text-xs tabular-nums text-zinc-500">
+              {formatEta(job.estimatedDoneAt, now)}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
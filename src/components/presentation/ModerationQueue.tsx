@@ -0,0 +1,131 @@
+import { useState } from "react";
+import { scrubText, type ModerationFlag } from "@/lib/moderation";
+import type { Feedback } from "@/types/feedback";
+
+const FLAG_LABELS: Record<ModerationFlag, string> = {
+  email: "Email",
+  phone: "Phone number",
+  blocked: "Blocked term",
+};
+
+const REJECTION_REASONS = ["Off topic", "Inappropriate", "Duplicate", "Personal information"];
+
+function withoutKey(record: Record<string, string>, key: string): Record<string, string> {
+  const next = { ...record };
+  delete next[key];
+  return next;
+}
+
+interface ModerationQueueProps {
+  pending: Feedback[];
+  error: string | null;
+  onApprove: (feedbackId: string, text?: string) => void;
+  onReject: (feedbackId: string, reason: string) => void;
+}
+
+export function ModerationQueue({ pending, error, onApprove, onReject }: ModerationQueueProps) {
+  // Feedback ID -> edited text while the presenter is editing it
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [reasons, setReasons] = useState<Record<string, string>>({});
+
+  const clearItem = (feedbackId: string) => {
+    setDrafts((prev) => withoutKey(prev, feedbackId));
+    setReasons((prev) => withoutKey(prev, feedbackId));
+  };
+
+  return (
+    <div className="mx-6 mt-2 rounded-lg border border-amber-500/40 bg-zinc-900/50 px-4 py-3">
+      <div className="mb-2 text-xs font-semibold uppercase tracking-wide text-amber-400">
+        Moderation queue ({pending.length})
+      </div>
+      {error && <p className="mb-2 text-xs text-red-400">{error}</p>}
+      {pending.length === 0 ? (
+        <p className="text-sm text-zinc-500">No questions waiting for review.</p>
+      ) : (
+        <ul className="flex max-h-64 flex-col gap-2 overflow-y-auto">
+          {pending.map((item) => {
+            const draft = drafts[item.id];
+            const isEditing = draft !== undefined;
+            const { flags } = scrubText(item.text);
+            return (
+              <li key={item.id} className="rounded-md border border-zinc-800 bg-zinc-950/60 p-2">
+                {isEditing ? (
+                  <textarea
+                    value={draft}
+                    onChange={(event) =>
+                      setDrafts((prev) => ({ ...prev, [item.id]: event.target.value }))
+                    }
+                    className="mb-2 h-16 w-full resize-none rounded-md border border-zinc-700 bg-zinc-950 px-2 py-1 text-sm text-zinc-100 outline-none focus:border-zinc-500"
+                  />
+                ) : (
+                  <p className="mb-2 text-sm text-zinc-100">{item.text}</p>
+                )}
+                {item.reviewReason && (
+                  <p className="mb-2 text-xs text-amber-300">{item.reviewReason}</p>
+                )}
+                {flags.length > 0 && (
+                  <div className="mb-2 flex flex-wrap gap-1">
+                    {flags.map((flag) => (
+                      <span
+                        key={flag}
+                        className="rounded-full bg-red-500/15 px-2 py-0.5 text-[11px] text-red-300"
+                      >
+                        {FLAG_LABELS[flag]} (masked before answering)
+                      </span>
+                    ))}
+                  </div>
+                )}
+                <div className="flex flex-wrap items-center gap-2">
+                  <button
+                    type="button"
+                    onClick={() => {
+                      onApprove(item.id, isEditing ? draft.trim() || undefined : undefined);
+                      clearItem(item.id);
+                    }}
+                    className="rounded-md bg-white px-2 py-1 text-xs font-medium text-zinc-900 transition-colors hover:bg-zinc-200"
+                  >
+                    Approve
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setDrafts((prev) =>
+                        isEditing ? withoutKey(prev, item.id) : { ...prev, [item.id]: item.text }
+                      )
+                    }
+                    className="rounded-md border border-zinc-700 px-2 py-1 text-xs font-medium text-zinc-300 transition-colors hover:bg-zinc-800"
+                  >
+                    {isEditing ? "Cancel edit" : "Edit"}
+                  </button>
+                  <select
+                    value={reasons[item.id] ?? REJECTION_REASONS[0]}
+                    onChange={(event) =>
+                      setReasons((prev) => ({ ...prev, [item.id]: event.target.value }))
+                    }
+                    className="rounded-md border border-zinc-700 bg-zinc-950 px-1 py-1 text-xs text-zinc-300"
+                  >
+                    {REJECTION_REASONS.map((reason) => (
+                      <option key={reason} value={reason}>
+                        {reason}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      onReject(item.id, reasons[item.id] ?? REJECTION_REASONS[0]);
+                      clearItem(item.id);
+                    }}
+                    className="rounded-md border border-red-500/40 px-2 py-1 text-xs font-medium text-red-300 transition-colors hover:bg-red-500/10"
+                  >
+                    Reject
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
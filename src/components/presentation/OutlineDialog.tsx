@@ -0,0 +1,75 @@
+import { useState } from "react";
+import type { OutlineSection } from "@/types/outline";
+import { MAX_OUTLINE_SECTIONS, formatOutlineText, parseOutlineText } from "@/lib/outline";
+
+const OUTLINE_PLACEHOLDER = `Why this matters (3 min)
+- The cost of slow onboarding
+Our approach (10 min)
+- Three-step rollout
+- Early results
+Next steps (5 min)`;
+
+interface OutlineDialogProps {
+  outline: OutlineSection[];
+  onSave: (sections: OutlineSection[]) => void;
+  onDismiss: () => void;
+}
+
+export function OutlineDialog({ outline, onSave, onDismiss }: OutlineDialogProps) {
+  const [text, setText] = useState(() => formatOutlineText(outline));
+  const sections = parseOutlineText(text);
+  const totalMinutes = sections.reduce((sum, section) => sum + (section.targetMinutes ?? 0), 0);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end justify-center bg-black/60 p-4 sm:items-center">
+      <div className="w-full max-w-md rounded-xl border border-zinc-700 bg-zinc-900 p-4 shadow-xl">
+        <h2 className="mb-1 text-sm font-semibold text-white">Talk outline</h2>
+        <p className="mb-3 text-xs text-zinc-400">
+          One section per line with an optional duration, and its key points as &ldquo;-&rdquo; bullets
+          underneath. Slides follow the section you are in.
+        </p>
+        <textarea
+          value={text}
+          onChange={(event) => setText(event.target.value)}
+          rows={10}
+          autoFocus
+          className="mb-2 w-full resize-y rounded-md border border-zinc-700 bg-zinc-950 px-2 py-1 text-sm text-zinc-100 outline-none focus:border-zinc-500"
+          placeholder={OUTLINE_PLACEHOLDER}
+        />
+        <p className="mb-3 text-xs text-zinc-500">
+          {sections.length === 0
+            ? "No sections yet"
+            : `${sections.length} section${sections.length === 1 ? "" : "s"}${totalMinutes > 0 ? `, ${totalMinutes} min planned` : ""}`}
+          {sections.length >= MAX_OUTLINE_SECTIONS ? ` (at most ${MAX_OUTLINE_SECTIONS})` : ""}
+        </p>
+
+        <div className="flex justify-end gap-2">
+          {outline.length > 0 && (
+            <button
+              type="button"
+              onClick={() => onSave([])}
+              className="mr-auto rounded-md border border-zinc-700 px-3 py-1.5 text-xs font-medium text-zinc-300 transition-colors hover:bg-zinc-800"
+            >
+              Remove outline
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={onDismiss}
+            className="rounded-md border border-zinc-700 px-3 py-1.5 text-xs font-medium text-zinc-300 transition-colors hover:bg-zinc-800"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            disabled={sections.length === 0}
+            onClick={() => onSave(sections)}
+            className="rounded-md bg-white px-3 py-1.5 text-xs font-medium text-zinc-900 transition-colors hover:bg-zinc-200 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import type { SectionProgress } from "@/types/outline";
+import { formatElapsed } from "@/lib/outline";
+
+interface OutlinePanelProps {
+  progress: SectionProgress[];
+  onSelectSection: (sectionId: string) => void;
+}
+
+const STATUS_STYLES: Record<SectionProgress["status"], string> = {
+  done: "border-zinc-800 text-zinc-500",
+  current: "border-sky-500/60 bg-sky-500/10 text-white",
+  upcoming: "border-zinc-800 text-zinc-400",
+};
+
+// Section progress for the presenter; the gate moves the current section, clicking overrides it
+export function OutlinePanel({ progress, onSelectSection }: OutlinePanelProps) {
+  const current = progress.find((entry) => entry.status === "current");
+  const doneCount = progress.filter((entry) => entry.status === "done").length;
+
+  return (
+    <div className="mx-6 mt-2 rounded-lg border border-zinc-700 bg-zinc-900/50 px-4 py-3">
+      <div className="mb-2 flex items-center justify-between text-xs font-semibold uppercase tracking-wide text-zinc-400">
+        <span>
+          Outline ({doneCount}/{progress.length})
+        </span>
+        {current?.isOvertime && (
+          <span className="normal-case text-red-400">
+            Over time on &ldquo;{current.section.title}&rdquo;
+          </span>
+        )}
+      </div>
+      <ol className="flex gap-2 overflow-x-auto">
+        {progress.map((entry, i) => (
+          <li key={entry.section.id} className="min-w-[9rem] flex-1">
+            <button
+              type="button"
+              onClick={() => onSelectSection(entry.section.id)}
+              title={entry.section.keyPoints.join("\n") || entry.section.title}
+              className={`w-full rounded-md border px-2 py-1.5 text-left transition-colors hover:bg-zinc-800 ${STATUS_STYLES[entry.status]} ${
+                entry.isOvertime ? "border-red-500/60" : ""
+              }`}
+            >
+              <div className="truncate text-xs font-medium">
+                {entry.status === "done" ? "✓ " : `${i + 1}. `}
+                {entry.section.title}
+              </div>
+              <div className={`text-[11px] ${entry.isOvertime ? "text-red-400" : "text-zinc-500"}`}>
+                {entry.status === "upcoming" && entry.elapsedMs === 0
+                  ? entry.section.targetMinutes
+                    ? `${entry.section.targetMinutes} min planned`
+                    : "Not started"
+                  : `${formatElapsed(entry.elapsedMs)}${entry.section.targetMinutes ? ` / ${formatElapsed(entry.section.targetMinutes * 60_000)}` : ""}`}
+              </div>
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { getPollPercentages, getPollResults } from "@/lib/pollResults";
+import type { Poll } from "@/types/poll";
+
+interface PollCardProps {
+  poll: Poll;
+  votedOptionId: string | null;
+  onVote: (optionId: string) => void;
+}
+
+export function PollCard({ poll, votedOptionId, onVote }: PollCardProps) {
+  const results = getPollResults(poll);
+  const percentages = getPollPercentages(results);
+  const hasVoted = votedOptionId !== null;
+
+  return (
+    <div className="fixed left-4 right-4 top-4 z-40 mx-auto max-w-md rounded-xl border border-zinc-700 bg-zinc-900/95 p-4 shadow-2xl backdrop-blur-sm sm:top-6">
+      <p className="mb-1 text-xs font-semibold uppercase tracking-wide text-blue-300">Live poll</p>
+      <h3 className="mb-3 text-base font-semibold text-white sm:text-lg">{poll.question}</h3>
+
+      <ul className="flex flex-col gap-2">
+        {poll.options.map((option, i) => (
+          <li key={option.id}>
+            {hasVoted ? (
+              // After voting, show live results instead of buttons
+              <div className="relative overflow-hidden rounded-lg border border-zinc-700 px-3 py-2">
+                <div
+                  className={`absolute inset-y-0 left-0 ${
+                    option.id === votedOptionId ? "bg-blue-500/30" : "bg-zinc-700/50"
+                  } transition-all`}
+                  style={{ width: `${percentages[i]}%` }}
+                />
+                <div className="relative flex items-center justify-between text-sm text-zinc-100">
+                  <span>{option.label}</span>
+                  <span className="font-semibold">{percentages[i]}%</span>
+                </div>
+              </div>
+            ) : (
+              <button
+                onClick={() => onVote(option.id)}
+                className="w-full rounded-lg border border-zinc-700 px-3 py-2 text-left text-sm text-zinc-100 transition-colors hover:border-zinc-500 hover:bg-zinc-800"
+              >
+                {option.label}
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {hasVoted && (
+        <p className="mt-3 text-xs text-zinc-500">
+          {results.totalVotes} vote{results.totalVotes === 1 ? "" : "s"} so far
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+import { useState } from "react";
+import { getPollPercentages, getPollResults } from "@/lib/pollResults";
+import type { Poll } from "@/types/poll";
+
+const MIN_OPTIONS = 2;
+const MAX_OPTIONS = 6;
+
+interface PollDialogProps {
+  activePoll: Poll | null;
+  isSubmitting: boolean;
+  error: string | null;
+  onCreate: (question: string, options: string[]) => void;
+  onClosePoll: () => void;
+  onDismiss: () => void;
+}
+
+export function PollDialog({
+  activePoll,
+  isSubmitting,
+  error,
+  onCreate,
+  onClosePoll,
+  onDismiss,
+}: PollDialogProps) {
+  const [question, setQuestion] = useState("");
+  const [options, setOptions] = useState<string[]>(["", ""]);
+
+  const filledOptions = options.map((option) => option.trim()).filter(Boolean);
+  const canCreate = question.trim().length > 0 && filledOptions.length >= MIN_OPTIONS;
+
+  const updateOption = (index: number, value: string) => {
+    setOptions((prev) => prev.map((option, i) => (i === index ? value : option)));
+  };
+
+  const renderResults = (poll: Poll) => {
+    const results = getPollResults(poll);
+    const percentages = getPollPercentages(results);
+    return (
+      <>
+        <h2 className="mb-1 text-sm font-semibold text-white">{poll.question}</h2>
+        <p className="mb-3 text-xs text-zinc-400">
+          {results.totalVotes} vote{results.totalVotes === 1 ? "" : "s"} so far. Closing the
+          poll puts the results on screen.
+        </p>
+        <ul className="mb-3 flex flex-col gap-2">
+          {results.options.map((option, i) => (
+            <li
+              key={poll.options[i].id}
+              className="relative overflow-hidden rounded-md border border-zinc-700 px-2 py-1.5"
+            >
+              <div
+                className="absolute inset-y-0 left-0 bg-blue-500/25 transition-all"
+                style={{ width: `${percentages[i]}%` }}
+              />
+              <div className="relative flex items-center justify-between text-xs text-zinc-100">
+                <span>{option.label}</span>
+                <span className="font-semibold">
+                  {option.votes} ({percentages[i]}%)
+                </span>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end justify-center bg-black/60 p-4 sm:items-center">
+      <div className="w-full max-w-md rounded-xl border border-zinc-700 bg-zinc-900 p-4 shadow-xl">
+        {activePoll ? (
+          renderResults(activePoll)
+        ) : (
+          <>
+            <h2 className="mb-2 text-sm font-semibold text-white">New audience poll</h2>
+            <p className="mb-3 text-xs text-zinc-400">
+              Ask a quick question. The audience votes from their phones and you see the
+              counts live.
+            </p>
+            <span className="text-[11px] font-medium uppercase tracking-wide text-zinc-500">
+              Question
+            </span>
+            <input
+              value={question}
+              onChange={(event) => setQuestion(event.target.value)}
+              className="mb-3 mt-1 w-full rounded-md border border-zinc-700 bg-zinc-950 px-2 py-1 text-sm text-zinc-100 outline-none focus:border-zinc-500"
+              placeholder="E.g. Which topic should we dig into next?"
+            />
+            <span className="text-[11px] font-medium uppercase tracking-wide text-zinc-500">
+              Options
+            </span>
+            <div className="mb-3 mt-1 flex flex-col gap-2">
+              {options.map((option, i) => (
+                <div key={i} className="flex gap-2">
+                  <input
+                    value={option}
+                    onChange={(event) => updateOption(i, event.target.value)}
+                    className="flex-1 rounded-md border border-zinc-700 bg-zinc-950 px-2 py-1 text-sm text-zinc-100 outline-none focus:border-zinc-500"
+                    placeholder={`Option ${i + 1}`}
+                  />
+                  {options.length > MIN_OPTIONS && (
+                    <button
+                      type="button"
+                      onClick={() => setOptions((prev) => prev.filter((_, j) => j !== i))}
+                      aria-label={`Remove option ${i + 1}`}
+                      className="rounded-md border border-zinc-700 px-2 text-xs text-zinc-400 transition-colors hover:bg-zinc-800"
+                    >
+                      ✕
+                    </button>
+                  )}
+                </div>
+              ))}
+              {options.length < MAX_OPTIONS && (
+                <button
+                  type="button"
+                  onClick={() => setOptions((prev) => [...prev, ""])}
+                  className="self-start rounded-md border border-zinc-700 px-2 py-1 text-[11px] font-medium text-zinc-300 transition-colors hover:bg-zinc-800"
+                >
+                  Add option
+                </button>
+              )}
+            </div>
+          </>
+        )}
+
+        {error && <p className="mb-3 text-xs text-red-400">{error}</p>}
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onDismiss}
+            className="rounded-md border border-zinc-700 px-3 py-1.5 text-xs font-medium text-zinc-300 transition-colors hover:bg-zinc-800"
+          >
+            {activePoll ? "Hide" : "Cancel"}
+          </button>
+          {activePoll ? (
+            <button
+              type="button"
+              disabled={isSubmitting}
+              onClick={onClosePoll}
+              className="rounded-md bg-white px-3 py-1.5 text-xs font-medium text-zinc-900 transition-colors hover:bg-zinc-200 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              Close poll &amp; show results
+            </button>
+          ) : (
+            <button
+              type="button"
+              disabled={!canCreate || isSubmitting}
+              onClick={() => onCreate(question.trim(), filledOptions)}
+              className="rounded-md bg-white px-3 py-1.5 text-xs font-medium text-zinc-900 transition-colors hover:bg-zinc-200 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              Start poll
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,10 +3,30 @@
 import { useState, useEffect, useRef } from "react";
 import { useRealtimeAPI, ChannelType } from "@/hooks/useRealtimeAPI";
 import type { SlideData } from "@/types/slides";
+import type { BrandKit } from "@/types/brandKit";
 import { useFeedback } from "@/hooks/useFeedback";
+import { usePoll } from "@/hooks/usePoll";
+import { useReactions } from "@/hooks/useReactions";
+import { useModeration } from "@/hooks/useModeration";
+import { forgetSavedBrandKit, loadSavedBrandKit, useBrandKit } from "@/hooks/useBrandKit";
+import { buildPollResultsSlide } from "@/lib/pollResults";
+import { buildReferencesSlide, collectSessionSources } from "@/lib/citations";
+import { MAX_SLIDE_VARIANTS, chooseSlideVariant } from "@/lib/slideVariants";
 import { getAcceptedFileTypes, isOfficeUploadEnabled } from "@/utils/slideConverter";
 import { SlideCanvas } from "./SlideCanvas";
-import { ChannelOption } from "./ChannelOption";
+import { ChannelOption, type SlideVersionInfo } from "./ChannelOption";
+import { PollDialog } from "./PollDialog";
+import { ReviseSlideDialog } from "./ReviseSlideDialog";
+import { DiagramEditorDialog } from "./DiagramEditorDialog";
+import { BrandKitDialog } from "./BrandKitDialog";
+import { ReactionOverlay } from "./ReactionOverlay";
+import { ModerationQueue } from "./ModerationQueue";
+import { FactCheckPanel } from "./FactCheckPanel";
+import { OutlinePanel } from "./OutlinePanel";
+import { OutlineDialog } from "./OutlineDialog";
+import { GateProfileDialog } from "./GateProfileDialog";
+import { GenerationQueuePanel } from "./GenerationQueuePanel";
+import { REACTION_EMOJIS } from "@/types/reaction";
 import { UploadIcon, SparklesIcon, QuestionIcon, SlidesIcon } from "./Icons";
 
 interface PresenterViewProps {
@@ -50,6 +70,10 @@ export function PresenterView({ onExit }: PresenterViewProps) {
     error,
     mode,
     setMode,
+    fastMode,
+    setFastMode,
+    variantCount,
+    setVariantCount,
     start,
     stop,
     clearAutoAcceptedSlide,
@@ -61,7 +85,9 @@ export function PresenterView({ onExit }: PresenterViewProps) {
     getChannelSlide,
     getChannelInfo,
     takeSlideFromChannel,
+    navigateVariant,
     addToAudienceChannel,
+    updateAudienceVotes,
     isAnsweringQuestion,
     createExploratoryFromPrompt,
     transcript,
@@ -70,6 +96,32 @@ export function PresenterView({ onExit }: PresenterViewProps) {
     resumeGeneration,
     isGenerationPaused,
     setSessionAuth,
+    replaceChannelSlide,
+    reviseSlide,
+    isRevising,
+    revisionError,
+    getSlideVersions,
+    styleAnchors,
+    toggleStyleAnchor,
+    flaggedClaims,
+    isFactChecking,
+    dismissFactCheck,
+    createCorrectionSlide,
+    outline,
+    setOutline,
+    sectionProgress,
+    enterSection,
+    isRecapping,
+    includeTakeaways,
+    toggleTakeaways,
+    createRecap,
+    gateProfile,
+    setGateProfile,
+    gatePresets,
+    saveGatePreset,
+    deleteGatePreset,
+    pendingJobs,
+    sessionStream,
   } = useRealtimeAPI();
 
   const officeUploadsEnabled = isOfficeUploadEnabled();
@@ -86,8 +138,47 @@ export function PresenterView({ onExit }: PresenterViewProps) {
   const [showUrl, setShowUrl] = useState(false);
   const [showTranscript, setShowTranscript] = useState(false);
 
-  // Feedback hook - will connect when sessionId is set
-  const { feedback, dismissFeedback } = useFeedback(sessionId);
+  // Feedback hook - will connect when the session is set
+  const {
+    feedback,
+    dismissFeedback,
+    replayedCount,
+    dismissReplayNotice,
+    votes,
+    pendingFeedback,
+  } = useFeedback(sessionStream);
+
+  const {
+    enabled: moderationEnabled,
+    error: moderationError,
+    setEnabled: setModerationEnabled,
+    approve: approveFeedback,
+    reject: rejectFeedback,
+    hold: holdFeedback,
+  } = useModeration(sessionId, presenterToken);
+
+  const {
+    activePoll,
+    isSubmitting: isPollSubmitting,
+    error: pollError,
+    createPoll,
+    closePoll,
+  } = usePoll(sessionId, presenterToken);
+  const [showPollDialog, setShowPollDialog] = useState(false);
+
+  const { floatingReactions, tallies: reactionTallies } = useReactions(sessionId, presenterToken);
+
+  const {
+    brandKit,
+    isSaving: isSavingBrandKit,
+    error: brandKitError,
+    saveBrandKit,
+  } = useBrandKit(sessionId, presenterToken);
+  const [showBrandKitDialog, setShowBrandKitDialog] = useState(false);
+  // Why the brand kit saved on this device was dropped when the session was created
+  const [brandKitNotice, setBrandKitNotice] = useState<string | null>(null);
+  const [showOutlineDialog, setShowOutlineDialog] = useState(false);
+  const [showGateProfileDialog, setShowGateProfileDialog] = useState(false);
 
   // Slide navigation state
   const [slideNav, setSlideNav] = useState<{
@@ -100,6 +191,19 @@ export function PresenterView({ onExit }: PresenterViewProps) {
   const [presentationWindow, setPresentationWindow] = useState<Window | null>(null);
 
   const currentSlide = slideNav.index >= 0 ? slideNav.history[slideNav.index] : null;
+  const citedSourceCount = collectSessionSources(slideNav.history).length;
+
+  // Slide being revised and where it lives (null channel means the history)
+  const [reviseTarget, setReviseTarget] = useState<{
+    slide: SlideData;
+    channel: ChannelType | null;
+  } | null>(null);
+
+  // Diagram slide being edited, located the same way as reviseTarget
+  const [diagramTarget, setDiagramTarget] = useState<{
+    slide: SlideData;
+    channel: ChannelType | null;
+  } | null>(null);
 
   // Exploratory input dialog state
   const [showExploratoryInput, setShowExploratoryInput] = useState(false);
@@ -118,15 +222,32 @@ export function PresenterView({ onExit }: PresenterViewProps) {
   // Check if we have any slide history
   const hasSlideHistory = slideNav.history.length > 0;
   const displayedTranscript = (fullTranscript || transcript || "").trim();
+  const currentSlideReactions = currentSlide ? reactionTallies[currentSlide.id] : undefined;
 
   // Create session on component mount
   useEffect(() => {
     async function createSession() {
       setCreatingSession(true);
       try {
-        const response = await fetch("/api/sessions/create", {
-          method: "POST",
-        });
+        const saved = loadSavedBrandKit();
+        if (saved.error) {
+          setBrandKitNotice(saved.error);
+        }
+        const create = (brandKit: BrandKit | null) =>
+          fetch("/api/sessions/create", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ brandKit }),
+          });
+
+        let response = await create(saved.brandKit);
+        // A kit this server still rejects shouldn't keep the presenter from starting
+        if (response.status === 400 && saved.brandKit) {
+          const data = await response.json().catch(() => ({}));
+          forgetSavedBrandKit();
+          setBrandKitNotice(data.error || "The server rejected the saved brand kit");
+          response = await create(null);
+        }
         if (response.ok) {
           const data = await response.json();
           setSessionId(data.sessionId);
@@ -160,10 +281,18 @@ export function PresenterView({ onExit }: PresenterViewProps) {
       (async () => {
         const result = await addToAudienceChannel(
           latestFeedback.text,
-          latestFeedback.id
+          latestFeedback.id,
+          { reviewed: latestFeedback.status === "approved" }
         );
         if (result.accepted) {
           dismissFeedback(latestFeedback.id);
+        } else if (result.needsReview) {
+          // If the hold fails the question stays in the feed, unanswered, next to the error
+          if (await holdFeedback(latestFeedback.id, result.reason || "Held for review")) {
+            // Comes back through the feed if the presenter approves it
+            processedFeedbackIdsRef.current.delete(latestFeedback.id);
+            dismissFeedback(latestFeedback.id);
+          }
         } else {
           // Question was rejected by the gate; keep it visible but mark as read
           console.log(
@@ -173,7 +302,19 @@ export function PresenterView({ onExit }: PresenterViewProps) {
         }
       })();
     }
-  }, [feedback, addToAudienceChannel, dismissFeedback]);
+  }, [feedback, addToAudienceChannel, dismissFeedback, holdFeedback]);
+
+  // Re-rank the audience channel as upvotes come in from the question board
+  useEffect(() => {
+    updateAudienceVotes(votes);
+  }, [votes, updateAudienceVotes]);
+
+  // Auto-hide the reconnect replay notice after a few seconds
+  useEffect(() => {
+    if (replayedCount === 0) return;
+    const timeout = setTimeout(dismissReplayNotice, 8000);
+    return () => clearTimeout(timeout);
+  }, [replayedCount, dismissReplayNotice]);
 
   // Open presentation window
   const openPresentationWindow = () => {
@@ -266,6 +407,84 @@ export function PresenterView({ onExit }: PresenterViewProps) {
     }
   };
 
+  // Put another version of a slide in place wherever the slide currently sits
+  const replaceSlide = (channel: ChannelType | null, slideId: string, slide: SlideData) => {
+    if (channel) {
+      replaceChannelSlide(channel, slideId, slide);
+      return;
+    }
+    setSlideNav((prev) => ({
+      ...prev,
+      history: prev.history.map((s) => (s.id === slideId ? slide : s)),
+    }));
+  };
+
+  const getVersionInfo = (slide: SlideData | null): SlideVersionInfo | null => {
+    if (!slide) return null;
+    const versions = getSlideVersions(slide.id);
+    if (versions.length < 2) return null;
+    return { index: versions.findIndex((v) => v.id === slide.id), total: versions.length };
+  };
+  const currentVersionInfo = getVersionInfo(currentSlide);
+  const isCurrentStyleAnchor =
+    !!currentSlide && styleAnchors.some((anchor) => anchor.slideId === currentSlide.id);
+
+  const selectSlideVersion = (
+    channel: ChannelType | null,
+    slide: SlideData | null,
+    direction: "prev" | "next"
+  ) => {
+    if (!slide) return;
+    const versions = getSlideVersions(slide.id);
+    const index = versions.findIndex((v) => v.id === slide.id);
+    const next = versions[direction === "prev" ? index - 1 : index + 1];
+    if (next) replaceSlide(channel, slide.id, next);
+  };
+
+  const handleReviseSlide = async (instruction: string) => {
+    if (!reviseTarget) return;
+    const revised = await reviseSlide(reviseTarget.slide, instruction);
+    if (!revised) return;
+    replaceSlide(reviseTarget.channel, reviseTarget.slide.id, revised);
+    setReviseTarget(null);
+  };
+
+  // Edited diagrams replace the slide in place; the image is the preview the presenter saw
+  const handleSaveDiagram = (diagram: string, imageUrl: string) => {
+    if (!diagramTarget) return;
+    replaceSlide(diagramTarget.channel, diagramTarget.slide.id, {
+      ...diagramTarget.slide,
+      diagram,
+      imageUrl,
+    });
+    setDiagramTarget(null);
+  };
+
+  // Close the running poll and put its results on screen
+  const handleClosePoll = async () => {
+    const poll = await closePoll();
+    if (!poll) return;
+    const slide = buildPollResultsSlide(poll);
+    setSlideNav((prev) => {
+      const baseHistory =
+        prev.index >= 0 ? prev.history.slice(0, prev.index + 1) : [];
+      const history = [...baseHistory, slide];
+      return { history, index: history.length - 1 };
+    });
+    recordAcceptedSlide(slide);
+    setShowPollDialog(false);
+  };
+
+  // Close the session with a slide listing every cited source, replacing an earlier one
+  const handleShowReferences = () => {
+    setSlideNav((prev) => {
+      const slide = buildReferencesSlide(prev.history);
+      if (!slide) return prev;
+      const history = [...prev.history.filter((s) => s.source !== "references"), slide];
+      return { history, index: history.length - 1 };
+    });
+  };
+
   // Handle file upload
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
@@ -276,6 +495,12 @@ export function PresenterView({ onExit }: PresenterViewProps) {
     event.target.value = "";
   };
 
+  // Ending the talk closes it with the references slide; the button can add it any time
+  const handleStop = () => {
+    stop();
+    handleShowReferences();
+  };
+
   const handleExit = () => {
     stop();
     if (presentationWindow && !presentationWindow.closed) {
@@ -337,6 +562,24 @@ export function PresenterView({ onExit }: PresenterViewProps) {
                   Paused
                 </span>
               )}
+              {replayedCount > 0 && (
+                <button
+                  onClick={dismissReplayNotice}
+                  title="Questions submitted while the feedback stream was reconnecting"
+                  className="rounded-full bg-amber-500/20 px-2 py-1 text-xs text-amber-400 sm:px-3 sm:text-sm"
+                >
+                  Replayed {replayedCount} missed question{replayedCount === 1 ? "" : "s"}
+                </button>
+              )}
+              {brandKitNotice && (
+                <button
+                  onClick={() => setBrandKitNotice(null)}
+                  title={brandKitNotice}
+                  className="rounded-full bg-amber-500/20 px-2 py-1 text-xs text-amber-400 sm:px-3 sm:text-sm"
+                >
+                  Saved brand kit was invalid and has been cleared
+                </button>
+              )}
             </div>
           </div>
 
@@ -353,7 +596,7 @@ export function PresenterView({ onExit }: PresenterViewProps) {
             )}
             {isRecording && (
               <button
-                onClick={stop}
+                onClick={handleStop}
                 className="rounded-lg bg-red-500 px-3 py-1.5 text-xs font-medium text-white transition-colors hover:bg-red-600 sm:px-4 sm:py-2 sm:text-sm"
               >
                 Stop
@@ -404,8 +647,97 @@ export function PresenterView({ onExit }: PresenterViewProps) {
             >
               Stream
             </button>
+            <button
+              onClick={() => setMode("fact-check")}
+              title="Gated slides, plus a private check of the claims you make"
+              className={`rounded-md px-2 py-1 text-xs font-medium transition-colors sm:px-3 sm:py-1.5 ${
+                mode === "fact-check"
+                  ? "bg-zinc-700 text-white"
+                  : "text-zinc-400 hover:text-white"
+              }`}
+            >
+              Fact-check
+            </button>
           </div>
 
+          <button
+            onClick={() => setFastMode(!fastMode)}
+            title="Render slides from local templates instead of the image model"
+            className={`rounded-lg px-2 py-1.5 text-xs font-medium transition-colors sm:px-4 sm:py-2 sm:text-sm ${
+              fastMode
+                ? "bg-emerald-500/20 text-emerald-300 hover:bg-emerald-500/30"
+                : "border border-zinc-700 text-zinc-300 hover:bg-zinc-800"
+            }`}
+          >
+            {fastMode ? "Fast Mode On" : "Fast Mode"}
+          </button>
+
+          <button
+            onClick={() => setVariantCount(variantCount >= MAX_SLIDE_VARIANTS ? 1 : variantCount + 1)}
+            disabled={fastMode}
+            title="Generate several layouts for each slide idea and pick one"
+            className={`rounded-lg px-2 py-1.5 text-xs font-medium transition-colors disabled:cursor-not-allowed disabled:opacity-50 sm:px-4 sm:py-2 sm:text-sm ${
+              variantCount > 1 && !fastMode
+                ? "bg-violet-500/20 text-violet-300 hover:bg-violet-500/30"
+                : "border border-zinc-700 text-zinc-300 hover:bg-zinc-800"
+            }`}
+          >
+            Variants: {variantCount}
+          </button>
+
+          <button
+            onClick={() => setShowGateProfileDialog(true)}
+            title="How eagerly slides are made, and how they read"
+            className="rounded-lg border border-zinc-700 px-2 py-1.5 text-xs font-medium capitalize text-zinc-300 transition-colors hover:bg-zinc-800 sm:px-4 sm:py-2 sm:text-sm"
+          >
+            Gate: {gateProfile.sensitivity}
+          </button>
+
+          <button
+            onClick={() => setShowOutlineDialog(true)}
+            title="Sections and key points that slides should follow"
+            className={`rounded-lg px-2 py-1.5 text-xs font-medium transition-colors sm:px-4 sm:py-2 sm:text-sm ${
+              outline.length > 0
+                ? "bg-sky-500/20 text-sky-300 hover:bg-sky-500/30"
+                : "border border-zinc-700 text-zinc-300 hover:bg-zinc-800"
+            }`}
+          >
+            {outline.length > 0 ? `Outline (${outline.length})` : "Outline"}
+          </button>
+
+          <div className="flex items-center gap-1 rounded-lg border border-zinc-700 p-1">
+            <button
+              onClick={() => void createRecap()}
+              disabled={!hasSlideHistory || isRecapping}
+              title="Summarize the talk so far into the exploratory channel"
+              className="rounded-md px-2 py-1 text-xs font-medium text-zinc-300 transition-colors hover:bg-zinc-800 disabled:cursor-not-allowed disabled:opacity-50 sm:px-3 sm:py-1.5"
+            >
+              {isRecapping ? "Recapping..." : "Recap"}
+            </button>
+            <button
+              onClick={toggleTakeaways}
+              title="Also build one slide per key takeaway"
+              className={`rounded-md px-2 py-1 text-xs font-medium transition-colors sm:px-3 sm:py-1.5 ${
+                includeTakeaways ? "bg-zinc-700 text-white" : "text-zinc-400 hover:text-white"
+              }`}
+            >
+              + Takeaways
+            </button>
+          </div>
+
+          <button
+            onClick={() => setShowBrandKitDialog(true)}
+            disabled={!presenterToken}
+            title="Colors, fonts and logo applied to every slide"
+            className={`rounded-lg px-2 py-1.5 text-xs font-medium transition-colors disabled:cursor-not-allowed disabled:opacity-50 sm:px-4 sm:py-2 sm:text-sm ${
+              brandKit
+                ? "bg-pink-500/20 text-pink-300 hover:bg-pink-500/30"
+                : "border border-zinc-700 text-zinc-300 hover:bg-zinc-800"
+            }`}
+          >
+            {brandKit ? brandKit.name || "Brand Kit On" : "Brand Kit"}
+          </button>
+
           <button
             onClick={openPresentationWindow}
             disabled={!sessionId}
@@ -440,6 +772,37 @@ export function PresenterView({ onExit }: PresenterViewProps) {
               >
                 {showTranscript ? "Hide Transcript" : "Show Transcript"}
               </button>
+              <button
+                onClick={() => setShowPollDialog(true)}
+                disabled={!presenterToken}
+                className={`rounded-lg px-2 py-1.5 text-xs font-medium transition-colors disabled:cursor-not-allowed disabled:opacity-50 sm:px-4 sm:py-2 sm:text-sm ${
+                  activePoll
+                    ? "bg-blue-500/20 text-blue-300 hover:bg-blue-500/30"
+                    : "border border-zinc-700 text-zinc-300 hover:bg-zinc-800"
+                }`}
+              >
+                {activePoll ? "Poll Live" : "Poll"}
+              </button>
+              <button
+                onClick={handleShowReferences}
+                disabled={citedSourceCount === 0}
+                title="Show a closing slide listing every cited source"
+                className="rounded-lg border border-zinc-700 px-2 py-1.5 text-xs font-medium text-zinc-300 transition-colors hover:bg-zinc-800 disabled:cursor-not-allowed disabled:opacity-50 sm:px-4 sm:py-2 sm:text-sm"
+              >
+                References{citedSourceCount > 0 ? ` (${citedSourceCount})` : ""}
+              </button>
+              <button
+                onClick={() => void setModerationEnabled(!moderationEnabled)}
+                disabled={!presenterToken}
+                title="Hold audience questions for review before they become slides"
+                className={`rounded-lg px-2 py-1.5 text-xs font-medium transition-colors disabled:cursor-not-allowed disabled:opacity-50 sm:px-4 sm:py-2 sm:text-sm ${
+                  moderationEnabled
+                    ? "bg-amber-500/20 text-amber-300 hover:bg-amber-500/30"
+                    : "border border-zinc-700 text-zinc-300 hover:bg-zinc-800"
+                }`}
+              >
+                {moderationEnabled ? `Moderating (${pendingFeedback.length})` : "Moderate"}
+              </button>
             </div>
           )}
         </div>
@@ -471,6 +834,30 @@ export function PresenterView({ onExit }: PresenterViewProps) {
         </div>
       )}
 
+      {(moderationEnabled || pendingFeedback.length > 0 || moderationError) && (
+        <ModerationQueue
+          pending={pendingFeedback}
+          error={moderationError}
+          onApprove={(id, text) => void approveFeedback(id, text)}
+          onReject={(id, reason) => void rejectFeedback(id, reason)}
+        />
+      )}
+
+      {outline.length > 0 && (
+        <OutlinePanel progress={sectionProgress} onSelectSection={enterSection} />
+      )}
+
+      {pendingJobs.length > 0 && <GenerationQueuePanel jobs={pendingJobs} />}
+
+      {(mode === "fact-check" || flaggedClaims.length > 0) && (
+        <FactCheckPanel
+          claims={flaggedClaims}
+          isChecking={isFactChecking}
+          onCreateCorrection={(id) => void createCorrectionSlide(id)}
+          onDismiss={dismissFactCheck}
+        />
+      )}
+
       {/* Error */}
       {error && (
         <div className="mx-6 mt-4 rounded-lg border border-red-500/30 bg-red-500/10 px-4 py-3 text-sm text-red-400">
@@ -483,9 +870,94 @@ export function PresenterView({ onExit }: PresenterViewProps) {
         {/* Current slide preview */}
         <div className="flex flex-1 flex-col">
           <div className="mb-2 text-xs font-medium text-zinc-500 sm:mb-3 sm:text-sm">CURRENT SLIDE</div>
-          <div className="aspect-video flex-1 overflow-hidden rounded-xl border border-zinc-800 lg:aspect-auto">
-            <SlideCanvas slide={currentSlide} />
+          <div className="relative aspect-video flex-1 overflow-hidden rounded-xl border border-zinc-800 lg:aspect-auto">
+            <SlideCanvas slide={currentSlide} brandKit={brandKit} />
+            <ReactionOverlay reactions={floatingReactions} size="sm" />
           </div>
+          {currentSlide && !currentSlide.poll && !currentSlide.chart && currentSlide.source !== "references" && (
+            <div className="mt-2 flex items-center gap-2 text-xs text-zinc-400">
+              {currentSlide.diagram ? (
+                <button
+                  onClick={() => setDiagramTarget({ slide: currentSlide, channel: null })}
+                  className="rounded-md border border-zinc-700 px-2 py-1 font-medium text-zinc-300 transition-colors hover:bg-zinc-800"
+                >
+                  Edit diagram
+                </button>
+              ) : (
+                <button
+                  onClick={() => setReviseTarget({ slide: currentSlide, channel: null })}
+                  className="rounded-md border border-zinc-700 px-2 py-1 font-medium text-zinc-300 transition-colors hover:bg-zinc-800"
+                >
+                  Revise
+                </button>
+              )}
+              <button
+                onClick={() => toggleStyleAnchor(currentSlide, slideNav.index + 1)}
+                title="New slides copy the look of the style anchors"
+                className={`rounded-md px-2 py-1 font-medium transition-colors ${
+                  isCurrentStyleAnchor
+                    ? "bg-amber-500/20 text-amber-300 hover:bg-amber-500/30"
+                    : "border border-zinc-700 text-zinc-300 hover:bg-zinc-800"
+                }`}
+              >
+                {isCurrentStyleAnchor ? "★ Style anchor" : "☆ Use as style"}
+              </button>
+              {currentVersionInfo && (
+                <span className="flex items-center gap-1">
+                  <button
+                    onClick={() => selectSlideVersion(null, currentSlide, "prev")}
+                    disabled={currentVersionInfo.index === 0}
+                    aria-label="Previous version"
+                    className="rounded px-1.5 transition-colors hover:bg-zinc-800 hover:text-white disabled:opacity-30"
+                  >
+                    ‹
+                  </button>
+                  Version {currentVersionInfo.index + 1} of {currentVersionInfo.total}
+                  <button
+                    onClick={() => selectSlideVersion(null, currentSlide, "next")}
+                    disabled={currentVersionInfo.index === currentVersionInfo.total - 1}
+                    aria-label="Next version"
+                    className="rounded px-1.5 transition-colors hover:bg-zinc-800 hover:text-white disabled:opacity-30"
+                  >
+                    ›
+                  </button>
+                </span>
+              )}
+              {currentSlide.revisionInstruction && (
+                <span className="truncate text-zinc-500">“{currentSlide.revisionInstruction}”</span>
+              )}
+            </div>
+          )}
+          {styleAnchors.length > 0 && (
+            <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-zinc-400">
+              <span className="font-medium text-zinc-500">Style anchors</span>
+              {styleAnchors.map((anchor) => (
+                <span
+                  key={anchor.slideId ?? anchor.slideNumber}
+                  title={anchor.headline}
+                  className="flex items-center gap-1 rounded-md bg-zinc-800 py-0.5 pl-0.5 pr-2 text-zinc-200"
+                >
+                  {anchor.imageDataUrl ? (
+                    // eslint-disable-next-line @next/next/no-img-element
+                    <img src={anchor.imageDataUrl} alt="" className="h-5 w-9 rounded-sm object-cover" />
+                  ) : (
+                    <span className="h-5 w-9 rounded-sm bg-zinc-700" />
+                  )}
+                  <span className="max-w-[10rem] truncate">{anchor.headline}</span>
+                </span>
+              ))}
+            </div>
+          )}
+          {currentSlideReactions && (
+            <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-zinc-400">
+              <span className="font-medium text-zinc-500">Reactions</span>
+              {REACTION_EMOJIS.filter((emoji) => currentSlideReactions[emoji]).map((emoji) => (
+                <span key={emoji} className="rounded-full bg-zinc-800 px-2 py-0.5 text-zinc-200">
+                  {emoji} {currentSlideReactions[emoji]}
+                </span>
+              ))}
+            </div>
+          )}
           {/* Hidden file input for upload */}
           <input
             ref={fileInputRef}
@@ -522,6 +994,18 @@ export function PresenterView({ onExit }: PresenterViewProps) {
               channelInfo={getChannelInfo("exploratory")}
               onNavigate={(dir) => navigateChannel("exploratory", dir)}
               onUse={() => handleUseChannelSlide("exploratory")}
+              onRevise={() => {
+                const slide = getChannelSlide("exploratory");
+                // Revising commits to the variant on display
+                if (slide) setReviseTarget({ slide: chooseSlideVariant(slide), channel: "exploratory" });
+              }}
+              versionInfo={getVersionInfo(getChannelSlide("exploratory"))}
+              onSelectVersion={(dir) => selectSlideVersion("exploratory", getChannelSlide("exploratory"), dir)}
+              onEditDiagram={() => {
+                const slide = getChannelSlide("exploratory");
+                if (slide) setDiagramTarget({ slide, channel: "exploratory" });
+              }}
+              onSelectVariant={(dir) => navigateVariant("exploratory", dir)}
               isProcessing={isProcessing}
               isRecording={isRecording}
               emptyMessage={
@@ -554,6 +1038,12 @@ export function PresenterView({ onExit }: PresenterViewProps) {
               channelInfo={getChannelInfo("audience")}
               onNavigate={(dir) => navigateChannel("audience", dir)}
               onUse={() => handleUseChannelSlide("audience")}
+              onRevise={() => {
+                const slide = getChannelSlide("audience");
+                if (slide) setReviseTarget({ slide, channel: "audience" });
+              }}
+              versionInfo={getVersionInfo(getChannelSlide("audience"))}
+              onSelectVersion={(dir) => selectSlideVersion("audience", getChannelSlide("audience"), dir)}
               isProcessing={isAnsweringQuestion}
               emptyMessage={isAnsweringQuestion ? "Answering question..." : "No questions yet"}
             />
@@ -569,6 +1059,12 @@ export function PresenterView({ onExit }: PresenterViewProps) {
                 channelInfo={getChannelInfo("slides")}
                 onNavigate={(dir) => navigateChannel("slides", dir)}
                 onUse={() => handleUseChannelSlide("slides")}
+                onRevise={() => {
+                  const slide = getChannelSlide("slides");
+                  if (slide) setReviseTarget({ slide, channel: "slides" });
+                }}
+                versionInfo={getVersionInfo(getChannelSlide("slides"))}
+                onSelectVersion={(dir) => selectSlideVersion("slides", getChannelSlide("slides"), dir)}
                 emptyMessage="Upload slides"
               />
             ) : (
@@ -665,6 +1161,74 @@ export function PresenterView({ onExit }: PresenterViewProps) {
           </div>
         </div>
       )}
+
+      {/* Audience poll dialog */}
+      {showBrandKitDialog && (
+        <BrandKitDialog
+          brandKit={brandKit}
+          isSaving={isSavingBrandKit}
+          error={brandKitError}
+          onSave={async (next) => {
+            if (await saveBrandKit(next)) setShowBrandKitDialog(false);
+          }}
+          onDismiss={() => setShowBrandKitDialog(false)}
+        />
+      )}
+
+      {reviseTarget && (
+        <ReviseSlideDialog
+          slide={reviseTarget.slide}
+          isRevising={isRevising}
+          error={revisionError}
+          onRevise={(instruction) => void handleReviseSlide(instruction)}
+          onDismiss={() => setReviseTarget(null)}
+        />
+      )}
+
+      {diagramTarget && (
+        <DiagramEditorDialog
+          slide={diagramTarget.slide}
+          brandKit={brandKit}
+          onSave={handleSaveDiagram}
+          onDismiss={() => setDiagramTarget(null)}
+        />
+      )}
+
+      {showOutlineDialog && (
+        <OutlineDialog
+          outline={outline}
+          onSave={(sections) => {
+            setOutline(sections);
+            setShowOutlineDialog(false);
+          }}
+          onDismiss={() => setShowOutlineDialog(false)}
+        />
+      )}
+
+      {showGateProfileDialog && (
+        <GateProfileDialog
+          profile={gateProfile}
+          presets={gatePresets}
+          onApply={(profile) => {
+            setGateProfile(profile);
+            setShowGateProfileDialog(false);
+          }}
+          onSavePreset={saveGatePreset}
+          onDeletePreset={deleteGatePreset}
+          onDismiss={() => setShowGateProfileDialog(false)}
+        />
+      )}
+
+      {showPollDialog && (
+        <PollDialog
+          activePoll={activePoll}
+          isSubmitting={isPollSubmitting}
+          error={pollError}
+          onCreate={(question, options) => void createPoll(question, options)}
+          onClosePoll={() => void handleClosePoll()}
+          onDismiss={() => setShowPollDialog(false)}
+        />
+      )}
     </div>
   );
 }
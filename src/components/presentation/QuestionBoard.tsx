@@ -0,0 +1,64 @@
+import type { Feedback } from "@/types/feedback";
+
+interface QuestionBoardProps {
+  questions: Feedback[];
+  votedIds: Set<string>;
+  onUpvote: (feedbackId: string) => void;
+  onClose: () => void;
+}
+
+export function QuestionBoard({ questions, votedIds, onUpvote, onClose }: QuestionBoardProps) {
+  // Most upvoted first, oldest first among ties
+  const sorted = [...questions].sort(
+    (a, b) => (b.votes ?? 0) - (a.votes ?? 0) || a.timestamp.localeCompare(b.timestamp)
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end justify-center bg-black/50 p-4 sm:items-center">
+      <div className="flex max-h-[80vh] w-full max-w-lg flex-col rounded-xl bg-zinc-900 p-4 shadow-2xl sm:p-6">
+        <div className="mb-3 flex items-center justify-between sm:mb-4">
+          <h3 className="text-lg font-semibold text-white sm:text-xl">Audience Questions</h3>
+          <button
+            onClick={onClose}
+            className="rounded-lg border border-zinc-700 px-3 py-1 text-xs font-medium text-zinc-400 transition-colors hover:bg-zinc-800 hover:text-white sm:text-sm"
+          >
+            Close
+          </button>
+        </div>
+
+        {sorted.length === 0 ? (
+          <p className="py-6 text-center text-sm text-zinc-500">
+            No questions yet. Be the first to ask!
+          </p>
+        ) : (
+          <ul className="flex flex-col gap-2 overflow-y-auto">
+            {sorted.map((question) => {
+              const hasVoted = votedIds.has(question.id);
+              return (
+                <li
+                  key={question.id}
+                  className="flex items-start gap-3 rounded-lg border border-zinc-800 bg-zinc-800/50 p-3"
+                >
+                  <button
+                    onClick={() => onUpvote(question.id)}
+                    disabled={hasVoted}
+                    aria-label={hasVoted ? "Upvoted" : "Upvote question"}
+                    className={`flex min-w-[3rem] flex-col items-center rounded-md border px-2 py-1 text-xs font-semibold transition-colors ${
+                      hasVoted
+                        ? "cursor-default border-blue-500/60 bg-blue-500/20 text-blue-300"
+                        : "border-zinc-700 text-zinc-300 hover:border-zinc-500 hover:bg-zinc-700"
+                    }`}
+                  >
+                    <span>▲</span>
+                    <span>{question.votes ?? 0}</span>
+                  </button>
+                  <p className="flex-1 text-sm leading-relaxed text-zinc-100">{question.text}</p>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+import type { FloatingReaction } from "@/hooks/useFloatingReactions";
+
+interface ReactionOverlayProps {
+  reactions: FloatingReaction[];
+  size?: "sm" | "lg";
+}
+
+export function ReactionOverlay({ reactions, size = "lg" }: ReactionOverlayProps) {
+  return (
+    <div className="pointer-events-none absolute inset-0 overflow-hidden" aria-hidden>
+      {reactions.map((reaction) => (
+        <span
+          key={reaction.id}
+          className={`absolute bottom-4 animate-reaction-float ${size === "lg" ? "text-4xl sm:text-5xl" : "text-2xl"}`}
+          style={{ left: `${reaction.left}%` }}
+        >
+          {reaction.emoji}
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { useState } from "react";
+import type { SlideData } from "@/types/slides";
+
+const INSTRUCTION_SUGGESTIONS = ["Less text", "Make the chart a bar chart", "Use a lighter background"];
+
+interface ReviseSlideDialogProps {
+  slide: SlideData;
+  isRevising: boolean;
+  error: string | null;
+  onRevise: (instruction: string) => void;
+  onDismiss: () => void;
+}
+
+export function ReviseSlideDialog({
+  slide,
+  isRevising,
+  error,
+  onRevise,
+  onDismiss,
+}: ReviseSlideDialogProps) {
+  const [instruction, setInstruction] = useState("");
+  const canRevise = instruction.trim().length > 0 && !isRevising;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end justify-center bg-black/60 p-4 sm:items-center">
+      <div className="w-full max-w-md rounded-xl border border-zinc-700 bg-zinc-900 p-4 shadow-xl">
+        <h2 className="mb-1 text-sm font-semibold text-white">Revise slide</h2>
+        <p className="mb-3 text-xs text-zinc-400">
+          {slide.headline || "Untitled slide"}
+          {slide.version ? ` (v${slide.version})` : ""}. Describe what to change; the new
+          version is kept alongside the old one.
+        </p>
+        <textarea
+          value={instruction}
+          onChange={(event) => setInstruction(event.target.value)}
+          maxLength={500}
+          rows={3}
+          autoFocus
+          className="mb-2 w-full resize-none rounded-md border border-zinc-700 bg-zinc-950 px-2 py-1 text-sm text-zinc-100 outline-none focus:border-zinc-500"
+          placeholder="E.g. make the chart a bar chart"
+        />
+        <div className="mb-3 flex flex-wrap gap-1">
+          {INSTRUCTION_SUGGESTIONS.map((suggestion) => (
+            <button
+              key={suggestion}
+              type="button"
+              onClick={() => setInstruction(suggestion)}
+              className="rounded-full border border-zinc-700 px-2 py-0.5 text-[11px] text-zinc-400 transition-colors hover:bg-zinc-800 hover:text-zinc-200"
+            >
+              {suggestion}
+            </button>
+          ))}
+        </div>
+
+        {error && <p className="mb-3 text-xs text-red-400">{error}</p>}
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onDismiss}
+            className="rounded-md border border-zinc-700 px-3 py-1.5 text-xs font-medium text-zinc-300 transition-colors hover:bg-zinc-800"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            disabled={!canRevise}
+            onClick={() => onRevise(instruction)}
+            className="rounded-md bg-white px-3 py-1.5 text-xs font-medium text-zinc-900 transition-colors hover:bg-zinc-200 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {isRevising ? "Revising..." : "Revise"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
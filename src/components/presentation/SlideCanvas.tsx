@@ -1,12 +1,60 @@
-import type { SlideData } from "@/types/slides";
-import { getBgClass, getBgStyle, isLightColor } from "@/lib/slideColors";
+import type { SlideData, SlideSource } from "@/types/slides";
+import type { BrandKit } from "@/types/brandKit";
+import { getBgClass, getBgStyle, isLightColor, resolveSlideBackground } from "@/lib/slideColors";
+import { getPollPercentages } from "@/lib/pollResults";
+import { renderNativeSlideDataUrl } from "@/lib/nativeSlides";
+import { parseDiagram } from "@/lib/diagram";
 
 interface SlideCanvasProps {
   slide: SlideData | null;
   isFullscreen?: boolean;
+  // Applied to natively drawn slides; generated images already carry the brand
+  brandKit?: BrandKit | null;
 }
 
-export function SlideCanvas({ slide, isFullscreen = false }: SlideCanvasProps) {
+const LOGO_POSITIONS: Record<NonNullable<BrandKit["logo"]>["placement"], string> = {
+  "top-left": "left-3 top-3 sm:left-6 sm:top-6",
+  "top-right": "right-3 top-3 sm:right-6 sm:top-6",
+  "bottom-left": "bottom-3 left-3 sm:bottom-6 sm:left-6",
+  "bottom-right": "bottom-3 right-3 sm:bottom-6 sm:right-6",
+};
+
+function BrandLogo({ brandKit }: { brandKit?: BrandKit | null }) {
+  if (!brandKit?.logo) return null;
+  return (
+    // eslint-disable-next-line @next/next/no-img-element
+    <img
+      src={brandKit.logo.dataUrl}
+      alt={brandKit.name ? `${brandKit.name} logo` : "Logo"}
+      className={`absolute h-6 w-auto max-w-[25%] object-contain sm:h-12 ${LOGO_POSITIONS[brandKit.logo.placement]}`}
+    />
+  );
+}
+
+// Small citation line so the audience can see where the facts came from
+function SourcesFooter({ sources }: { sources?: SlideSource[] }) {
+  if (!sources?.length) return null;
+  return (
+    <p className="absolute inset-x-0 bottom-0 truncate bg-black/60 px-3 py-1 text-[10px] text-zinc-300 sm:px-6 sm:text-xs">
+      Sources:{" "}
+      {sources.map((source, i) => (
+        <span key={source.url}>
+          {i > 0 && " · "}
+          <a
+            href={source.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="underline decoration-zinc-500 hover:text-white"
+          >
+            {source.title}
+          </a>
+        </span>
+      ))}
+    </p>
+  );
+}
+
+export function SlideCanvas({ slide, isFullscreen = false, brandKit }: SlideCanvasProps) {
   if (!slide) {
     return (
       <div className={`flex h-full w-full items-center justify-center bg-zinc-900 ${isFullscreen ? "min-h-screen" : ""}`}>
@@ -28,7 +76,7 @@ export function SlideCanvas({ slide, isFullscreen = false }: SlideCanvasProps) {
     if (slide.imageUrl) {
       return (
         <div
-          className={`flex h-full w-full flex-col items-center justify-center bg-black p-4 sm:p-10 ${
+          className={`relative flex h-full w-full flex-col items-center justify-center bg-black p-4 sm:p-10 ${
             isFullscreen ? "min-h-screen" : ""
           }`}
         >
@@ -68,6 +116,7 @@ export function SlideCanvas({ slide, isFullscreen = false }: SlideCanvasProps) {
               />
             </div>
           </div>
+          <SourcesFooter sources={slide.sources} />
         </div>
       );
     }
@@ -97,48 +146,185 @@ export function SlideCanvas({ slide, isFullscreen = false }: SlideCanvasProps) {
     );
   }
 
+  // Poll results are drawn as a native bar chart
+  if (slide.poll) {
+    const { poll } = slide;
+    const percentages = getPollPercentages(poll);
+    const maxVotes = Math.max(1, ...poll.options.map((option) => option.votes));
+
+    const brandColors = brandKit?.colors;
+
+    return (
+      <div
+        className={`relative flex h-full w-full flex-col items-center justify-center bg-zinc-950 p-6 sm:p-12 ${isFullscreen ? "min-h-screen" : ""}`}
+        style={brandColors ? { backgroundColor: brandColors.background, color: brandColors.text, fontFamily: brandKit?.fonts?.body } : undefined}
+      >
+        <div className="w-full max-w-4xl">
+          <span
+            className="text-xs font-semibold uppercase tracking-[0.2em] text-blue-300 sm:text-sm"
+            style={brandColors ? { color: brandColors.primary } : undefined}
+          >
+            Poll Results
+          </span>
+          <h1
+            className={`mb-6 mt-2 text-2xl font-bold leading-tight sm:mb-10 sm:text-5xl ${brandColors ? "" : "text-white"}`}
+            style={brandKit?.fonts?.heading ? { fontFamily: brandKit.fonts.heading } : undefined}
+          >
+            {poll.question}
+          </h1>
+          <ul className="space-y-3 sm:space-y-5">
+            {poll.options.map((option, i) => (
+              <li key={i}>
+                <div className={`mb-1 flex items-baseline justify-between gap-4 text-sm sm:text-xl ${brandColors ? "" : "text-zinc-200"}`}>
+                  <span>{option.label}</span>
+                  <span className={`font-semibold ${brandColors ? "" : "text-white"}`}>
+                    {percentages[i]}%
+                    <span className="ml-2 text-xs font-normal text-zinc-400 sm:text-base">
+                      ({option.votes})
+                    </span>
+                  </span>
+                </div>
+                <div className="h-3 w-full overflow-hidden rounded-full bg-zinc-800 sm:h-5">
+                  <div
+                    className={`h-full rounded-full ${option.votes === maxVotes && option.votes > 0 ? "bg-blue-400" : "bg-zinc-500"}`}
+                    style={{
+                      width: `${(option.votes / maxVotes) * 100}%`,
+                      ...(brandColors && {
+                        backgroundColor:
+                          option.votes === maxVotes && option.votes > 0
+                            ? brandColors.primary
+                            : brandColors.secondary,
+                      }),
+                    }}
+                  />
+                </div>
+              </li>
+            ))}
+          </ul>
+          <p className="mt-6 text-sm text-zinc-500 sm:mt-8 sm:text-lg">
+            {poll.totalVotes} vote{poll.totalVotes === 1 ? "" : "s"}
+          </p>
+        </div>
+        <BrandLogo brandKit={brandKit} />
+      </div>
+    );
+  }
+
+  // Closing list of every source cited during the session
+  if (slide.source === "references") {
+    const sources = slide.sources ?? [];
+    const brandColors = brandKit?.colors;
+
+    return (
+      <div
+        className={`relative flex h-full w-full flex-col items-center justify-center bg-zinc-950 p-6 sm:p-12 ${isFullscreen ? "min-h-screen" : ""}`}
+        style={brandColors ? { backgroundColor: brandColors.background, color: brandColors.text, fontFamily: brandKit?.fonts?.body } : undefined}
+      >
+        <div className="w-full max-w-5xl">
+          <h1
+            className={`mb-4 text-2xl font-bold leading-tight sm:mb-8 sm:text-5xl ${brandColors ? "" : "text-white"}`}
+            style={brandKit?.fonts?.heading ? { fontFamily: brandKit.fonts.heading } : undefined}
+          >
+            {slide.headline}
+          </h1>
+          <ol
+            className={`list-decimal space-y-1 pl-5 text-xs sm:space-y-2 sm:pl-8 ${sources.length > 8 ? "gap-10 sm:columns-2 sm:text-base" : "sm:text-xl"} ${brandColors ? "" : "text-zinc-200"}`}
+          >
+            {sources.map((source) => (
+              <li key={source.url} className="break-inside-avoid">
+                <a
+                  href={source.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="underline decoration-zinc-500 underline-offset-4 hover:opacity-80"
+                  style={brandColors ? { textDecorationColor: brandColors.primary } : undefined}
+                >
+                  {source.title}
+                </a>
+              </li>
+            ))}
+          </ol>
+        </div>
+        <BrandLogo brandKit={brandKit} />
+      </div>
+    );
+  }
+
+  // Redrawn from the data with the same renderer that produced the stored image
+  const parsedDiagram = slide.diagram ? parseDiagram(slide.diagram) : null;
+  const diagram = parsedDiagram && "diagram" in parsedDiagram ? parsedDiagram.diagram : undefined;
+  if (slide.chart || diagram) {
+    const kind = slide.chart ? "Chart" : "Diagram";
+    return (
+      <div className={`relative flex h-full w-full items-center justify-center bg-black ${isFullscreen ? "min-h-screen" : ""}`}>
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img
+          src={renderNativeSlideDataUrl(
+            { headline: slide.headline, subheadline: slide.subheadline, chart: slide.chart, diagram },
+            brandKit
+          )}
+          alt={slide.headline ? `${kind}: ${slide.headline}` : kind}
+          className="max-h-full max-w-full object-contain"
+        />
+        <SourcesFooter sources={slide.sources} />
+      </div>
+    );
+  }
+
   if (slide.imageUrl) {
     return (
-      <div className={`flex h-full w-full items-center justify-center bg-black ${isFullscreen ? "min-h-screen" : ""}`}>
+      <div className={`relative flex h-full w-full items-center justify-center bg-black ${isFullscreen ? "min-h-screen" : ""}`}>
         {/* eslint-disable-next-line @next/next/no-img-element */}
         <img
           src={slide.imageUrl}
           alt="Presentation Slide"
           className="max-h-full max-w-full object-contain"
         />
+        <SourcesFooter sources={slide.sources} />
       </div>
     );
   }
 
-  const bgClass = getBgClass(slide.backgroundColor || "zinc");
-  const bgStyle = getBgStyle(slide.backgroundColor || "zinc");
-  const isLight = isLightColor(slide.backgroundColor || "zinc");
+  const background = resolveSlideBackground(slide.backgroundColor, brandKit);
+  const bgClass = getBgClass(background);
+  const bgStyle = getBgStyle(background);
+  const isLight = isLightColor(background);
+  // Brand text color only applies on the brand's own background
+  const brandText = brandKit && !slide.backgroundColor ? brandKit.colors.text : undefined;
 
   return (
     <div
-      className={`flex h-full w-full flex-col items-center justify-center p-6 sm:p-12 ${bgClass} ${isFullscreen ? "min-h-screen" : ""}`}
-      style={bgStyle}
+      className={`relative flex h-full w-full flex-col items-center justify-center p-6 sm:p-12 ${bgClass} ${isFullscreen ? "min-h-screen" : ""}`}
+      style={{ ...bgStyle, color: brandText, fontFamily: brandKit?.fonts?.body }}
     >
       <div className="max-w-4xl text-center">
-        <h1 className={`mb-3 text-2xl font-bold leading-tight sm:mb-6 sm:text-5xl ${isLight ? "text-zinc-900" : "text-white"}`}>
+        <h1
+          className={`mb-3 text-2xl font-bold leading-tight sm:mb-6 sm:text-5xl ${brandText ? "" : isLight ? "text-zinc-900" : "text-white"}`}
+          style={brandKit?.fonts?.heading ? { fontFamily: brandKit.fonts.heading } : undefined}
+        >
           {slide.headline}
         </h1>
         {slide.subheadline && (
-          <p className={`mb-4 text-base sm:mb-8 sm:text-2xl ${isLight ? "text-zinc-600" : "text-zinc-300"}`}>
+          <p className={`mb-4 text-base sm:mb-8 sm:text-2xl ${brandText ? "opacity-80" : isLight ? "text-zinc-600" : "text-zinc-300"}`}>
             {slide.subheadline}
           </p>
         )}
         {slide.bullets && slide.bullets.length > 0 && (
           <ul className="space-y-2 text-left sm:space-y-4">
             {slide.bullets.map((bullet, i) => (
-              <li key={i} className={`flex items-start gap-2 text-sm sm:gap-4 sm:text-xl ${isLight ? "text-zinc-700" : "text-zinc-200"}`}>
-                <span className={`mt-1.5 h-1.5 w-1.5 flex-shrink-0 rounded-full sm:mt-2 sm:h-2 sm:w-2 ${isLight ? "bg-zinc-400" : "bg-zinc-500"}`} />
+              <li key={i} className={`flex items-start gap-2 text-sm sm:gap-4 sm:text-xl ${brandText ? "" : isLight ? "text-zinc-700" : "text-zinc-200"}`}>
+                <span
+                  className={`mt-1.5 h-1.5 w-1.5 flex-shrink-0 rounded-full sm:mt-2 sm:h-2 sm:w-2 ${isLight ? "bg-zinc-400" : "bg-zinc-500"}`}
+                  style={brandKit ? { backgroundColor: brandKit.colors.primary } : undefined}
+                />
                 {bullet}
               </li>
             ))}
           </ul>
         )}
       </div>
+      <BrandLogo brandKit={brandKit} />
+      <SourcesFooter sources={slide.sources} />
     </div>
   );
 }
@@ -1,6 +1,9 @@
 "use client";
 
 import { useCallback, useState } from "react";
+import { scrubText } from "@/lib/moderation";
+import { detectPromptInjection, sanitizeUntrustedText } from "@/lib/promptSafety";
+import type { Generation } from "@/lib/generations";
 import type { SlideData } from "@/types/slides";
 import type { SlideHistoryEntry, StyleReference } from "@/types/realtime";
 
@@ -10,6 +13,28 @@ interface AudienceQuestionGateResult {
   normalizedQuestion?: string;
   category?: string;
   priority?: "low" | "normal" | "high";
+  suspectedInjection?: boolean;
+}
+
+export interface AudienceQuestionResult {
+  accepted: boolean;
+  reason?: string;
+  // The question should go to the presenter's moderation queue instead of the screen
+  needsReview?: boolean;
+}
+
+export interface AudienceQuestionOptions {
+  // Approved by the presenter, so a suspected injection doesn't send it back for review
+  reviewed?: boolean;
+}
+
+// The fallback slide shows the question itself, so keep it to a headline
+const MAX_FALLBACK_HEADLINE_LENGTH = 120;
+
+// Quoted so the projected text reads as the audience's words, not the speaker's
+function quoteQuestion(question: string): string {
+  const shortened = sanitizeUntrustedText(question, MAX_FALLBACK_HEADLINE_LENGTH);
+  return `“${shortened}${shortened.length < question.length ? "…" : ""}”`;
 }
 
 interface UseAudienceQuestionsOptions {
@@ -17,6 +42,10 @@ interface UseAudienceQuestionsOptions {
   acceptedSlidesRef: React.MutableRefObject<SlideHistoryEntry[]>;
   styleReferencesRef: React.MutableRefObject<StyleReference[]>;
   slideCounterRef: React.MutableRefObject<number>;
+  sessionAuthRef: React.MutableRefObject<{ sessionId: string | null }>;
+  fastModeRef: React.MutableRefObject<boolean>;
+  // Tracks each question's requests so stopping the presentation cancels them
+  startGeneration: () => Generation;
 }
 
 export function useAudienceQuestions({
@@ -24,19 +53,27 @@ export function useAudienceQuestions({
   acceptedSlidesRef,
   styleReferencesRef,
   slideCounterRef,
+  sessionAuthRef,
+  fastModeRef,
+  startGeneration,
 }: UseAudienceQuestionsOptions) {
   const [isAnsweringQuestion, setIsAnsweringQuestion] = useState(false);
 
   const addToAudienceChannel = useCallback(
     async (
       questionText: string,
-      feedbackId: string
-    ): Promise<{ accepted: boolean; reason?: string }> => {
+      feedbackId: string,
+      { reviewed = false }: AudienceQuestionOptions = {}
+    ): Promise<AudienceQuestionResult> => {
       console.log("Processing audience question:", questionText);
       setIsAnsweringQuestion(true);
 
+      // Contact details and blocked terms never reach the models or the projector
+      const scrubbedQuestion = sanitizeUntrustedText(scrubText(questionText).text);
+      const generation = startGeneration();
+
       try {
-        const trimmedQuestion = questionText.trim();
+        const trimmedQuestion = scrubbedQuestion.trim();
         if (!trimmedQuestion) {
           return { accepted: false, reason: "Empty question text" };
         }
@@ -50,6 +87,7 @@ export function useAudienceQuestions({
               question: trimmedQuestion,
               slideHistory: acceptedSlidesRef.current,
             }),
+            signal: generation.signal,
           });
 
           if (gateResponse.ok) {
@@ -65,6 +103,19 @@ export function useAudienceQuestions({
           console.error("Audience question gate request failed:", gateError);
         }
 
+        // Without a gate answer the local check still applies
+        const suspectedInjection = gateResult
+          ? gateResult.suspectedInjection === true
+          : detectPromptInjection(trimmedQuestion).length > 0;
+        if (suspectedInjection && !reviewed) {
+          console.warn("Audience question held for review: possible prompt injection");
+          return {
+            accepted: false,
+            needsReview: true,
+            reason: "Possible prompt injection",
+          };
+        }
+
         if (gateResult && gateResult.accept === false) {
           console.log(
             "Audience question rejected by gate:",
@@ -89,6 +140,7 @@ export function useAudienceQuestions({
               .map((s) => `${s.headline}: ${s.visualDescription}`)
               .join("\n"),
           }),
+          signal: generation.signal,
         });
 
         if (!answerResponse.ok) {
@@ -115,7 +167,10 @@ export function useAudienceQuestions({
             },
             styleReferences: styleReferencesRef.current,
             slideNumber: currentSlideNumber,
+            sessionId: sessionAuthRef.current.sessionId,
+            renderMode: fastModeRef.current ? "template" : "image",
           }),
+          signal: generation.signal,
         });
 
         if (!geminiResponse.ok) {
@@ -125,6 +180,9 @@ export function useAudienceQuestions({
         }
 
         const geminiData = await geminiResponse.json();
+        if (generation.isCancelled()) {
+          return { accepted: false, reason: "Cancelled" };
+        }
 
         const answerSlide: SlideData = {
           id: `audience-${feedbackId}`,
@@ -133,7 +191,10 @@ export function useAudienceQuestions({
           subheadline: answer.subheadline,
           bullets: answer.bullets,
           visualDescription: answer.visualDescription,
+          sources: answer.sources,
           source: "question",
+          feedbackId,
+          priority: gateResult?.priority,
           originalIdea: {
             title: "Audience Question",
             content: `Q: ${gatedQuestion}`,
@@ -147,14 +208,27 @@ export function useAudienceQuestions({
 
         return { accepted: true, reason: gateResult?.reason };
       } catch (error) {
+        if (generation.isCancelled()) {
+          return { accepted: false, reason: "Cancelled" };
+        }
         console.error("Failed to process audience question:", error);
+        // The fallback goes straight to the screen, so it must not skip the review
+        if (!reviewed && detectPromptInjection(scrubbedQuestion).length > 0) {
+          return {
+            accepted: false,
+            needsReview: true,
+            reason: "Possible prompt injection",
+          };
+        }
+        const quotedQuestion = quoteQuestion(scrubbedQuestion);
         const fallbackSlide: SlideData = {
           id: `audience-${feedbackId}`,
-          headline: questionText,
+          headline: quotedQuestion,
           source: "question",
+          feedbackId,
           originalIdea: {
             title: "Audience Question",
-            content: questionText,
+            content: quotedQuestion,
             category: "question",
           },
           timestamp: new Date().toISOString(),
@@ -166,10 +240,19 @@ export function useAudienceQuestions({
           reason: "Fallback slide created due to processing error",
         };
       } finally {
+        generation.finish();
         setIsAnsweringQuestion(false);
       }
     },
-    [acceptedSlidesRef, appendAudienceSlide, slideCounterRef, styleReferencesRef]
+    [
+      acceptedSlidesRef,
+      appendAudienceSlide,
+      fastModeRef,
+      sessionAuthRef,
+      slideCounterRef,
+      startGeneration,
+      styleReferencesRef,
+    ]
   );
 
   return {
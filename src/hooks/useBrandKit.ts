@@ -0,0 +1,113 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { parseBrandKit } from "@/lib/brandKit";
+import type { BrandKit } from "@/types/brandKit";
+
+const BRAND_KIT_STORAGE_KEY = "slidequest:brand-kit";
+
+/**
+ * The presenter's last saved brand kit, sent along when a session is created.
+ * A stored kit the server would reject is forgotten, and `error` says why.
+ */
+export function loadSavedBrandKit(): { brandKit: BrandKit | null; error?: string } {
+  let stored: unknown;
+  try {
+    const raw = window.localStorage.getItem(BRAND_KIT_STORAGE_KEY);
+    if (!raw) return { brandKit: null };
+    stored = JSON.parse(raw);
+  } catch {
+    forgetSavedBrandKit();
+    return { brandKit: null, error: "Saved brand kit is not valid JSON" };
+  }
+
+  const parsed = parseBrandKit(stored);
+  if (!parsed.brandKit) {
+    forgetSavedBrandKit();
+    return { brandKit: null, error: parsed.error };
+  }
+  return { brandKit: parsed.brandKit };
+}
+
+export function forgetSavedBrandKit(): void {
+  try {
+    window.localStorage.removeItem(BRAND_KIT_STORAGE_KEY);
+  } catch {
+    // Storage unavailable; nothing to forget
+  }
+}
+
+/**
+ * Presenter view of the session brand kit. Saving also remembers the kit on
+ * this device for the next session.
+ */
+export function useBrandKit(sessionId: string | null, presenterToken: string | null) {
+  const [brandKit, setBrandKitState] = useState<BrandKit | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    let cancelled = false;
+    fetch(`/api/sessions/${sessionId}/brand-kit`, { cache: "no-store" })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (!cancelled && data) {
+          setBrandKitState((data.brandKit ?? null) as BrandKit | null);
+        }
+      })
+      .catch((err) => console.error("Failed to load brand kit:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId]);
+
+  const saveBrandKit = useCallback(
+    async (next: BrandKit | null): Promise<boolean> => {
+      if (!sessionId || !presenterToken) return false;
+
+      setIsSaving(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/sessions/${sessionId}/brand-kit`, {
+          method: "PUT",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${presenterToken}`,
+          },
+          body: JSON.stringify({ brandKit: next }),
+        });
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok) {
+          setError(data.error || "Failed to save brand kit");
+          return false;
+        }
+
+        const saved = (data.brandKit ?? null) as BrandKit | null;
+        setBrandKitState(saved);
+        if (saved) {
+          window.localStorage.setItem(BRAND_KIT_STORAGE_KEY, JSON.stringify(saved));
+        } else {
+          window.localStorage.removeItem(BRAND_KIT_STORAGE_KEY);
+        }
+        return true;
+      } catch (err) {
+        console.error("Failed to save brand kit:", err);
+        setError("Failed to save brand kit");
+        return false;
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [presenterToken, sessionId]
+  );
+
+  return {
+    brandKit,
+    isSaving,
+    error,
+    saveBrandKit,
+  };
+}
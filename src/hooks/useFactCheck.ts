@@ -0,0 +1,85 @@
+"use client";
+
+import { useCallback, useRef, useState } from "react";
+import type { FactCheckClaim } from "@/types/factCheck";
+import { isFlaggedVerdict } from "@/lib/factCheck";
+
+// Short finalized segments are batched so each check has a full statement to work with
+const MIN_SEGMENT_LENGTH = 60;
+const MAX_CONTEXT_LENGTH = 1000;
+const MAX_FLAGGED_CLAIMS = 20;
+
+export function useFactCheck() {
+  const [flaggedClaims, setFlaggedClaims] = useState<FactCheckClaim[]>([]);
+  const [isFactChecking, setIsFactChecking] = useState(false);
+  const bufferRef = useRef("");
+  const contextRef = useRef("");
+  const isCheckingRef = useRef(false);
+
+  const checkBufferedSegments = useCallback(async () => {
+    if (isCheckingRef.current) return;
+    isCheckingRef.current = true;
+    setIsFactChecking(true);
+
+    try {
+      // Segments that arrive while one is being checked are picked up by the next pass
+      while (bufferRef.current.length >= MIN_SEGMENT_LENGTH) {
+        const segment = bufferRef.current;
+        bufferRef.current = "";
+
+        try {
+          const response = await fetch("/api/fact-check", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ transcript: segment, context: contextRef.current }),
+          });
+
+          if (!response.ok) {
+            console.error("Fact check failed:", await response.text());
+          } else {
+            const data = await response.json();
+            const flagged = ((data.claims || []) as FactCheckClaim[]).filter((claim) =>
+              isFlaggedVerdict(claim.verdict)
+            );
+            if (flagged.length > 0) {
+              setFlaggedClaims((prev) => [...flagged, ...prev].slice(0, MAX_FLAGGED_CLAIMS));
+            }
+          }
+        } catch (err) {
+          console.error("Fact check failed:", err);
+        }
+
+        contextRef.current = `${contextRef.current} ${segment}`.trim().slice(-MAX_CONTEXT_LENGTH);
+      }
+    } finally {
+      isCheckingRef.current = false;
+      setIsFactChecking(false);
+    }
+  }, []);
+
+  const addTranscriptSegment = useCallback(
+    (text: string) => {
+      bufferRef.current = bufferRef.current ? `${bufferRef.current} ${text}` : text;
+      void checkBufferedSegments();
+    },
+    [checkBufferedSegments]
+  );
+
+  const dismissFactCheck = useCallback((claimId: string) => {
+    setFlaggedClaims((prev) => prev.filter((claim) => claim.id !== claimId));
+  }, []);
+
+  const resetFactChecks = useCallback(() => {
+    bufferRef.current = "";
+    contextRef.current = "";
+    setFlaggedClaims([]);
+  }, []);
+
+  return {
+    flaggedClaims,
+    isFactChecking,
+    addTranscriptSegment,
+    dismissFactCheck,
+    resetFactChecks,
+  };
+}
@@ -2,81 +2,109 @@
 
 import { useState, useEffect, useCallback, useRef } from "react";
 import { Feedback } from "@/types/feedback";
+import type { SessionStream } from "@/hooks/useSessionStream";
 
-export function useFeedback(sessionId: string | null) {
+export function useFeedback(sessionStream: SessionStream | null) {
   const [feedback, setFeedback] = useState<Feedback[]>([]);
   const [unreadCount, setUnreadCount] = useState(0);
   const [isConnected, setIsConnected] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Number of questions recovered by the last reconnect (0 hides the notice)
+  const [replayedCount, setReplayedCount] = useState(0);
+  // Feedback ID -> upvotes from the audience question board
+  const [votes, setVotes] = useState<Record<string, number>>({});
+  // Submissions waiting for the presenter to approve or reject them
+  const [pendingFeedback, setPendingFeedback] = useState<Feedback[]>([]);
 
-  const eventSourceRef = useRef<EventSource | null>(null);
   const readFeedbackIdsRef = useRef<Set<string>>(new Set());
   const receivedFeedbackIdsRef = useRef<Set<string>>(new Set());
+  const pendingReplayCountRef = useRef(0);
 
   useEffect(() => {
-    if (!sessionId) {
+    if (!sessionStream) {
       return;
     }
 
-    console.log(`Connecting to feedback stream for session ${sessionId}`);
+    const unsubscribe = sessionStream.subscribe({
+      onOpen: () => {
+        setIsConnected(true);
+        setError(null);
+      },
 
-    // Create SSE connection
-    const eventSource = new EventSource(`/api/sessions/${sessionId}/stream`);
-    eventSourceRef.current = eventSource;
-
-    eventSource.onopen = () => {
-      console.log("Feedback stream connected");
-      setIsConnected(true);
-      setError(null);
-    };
-
-    eventSource.onmessage = (event) => {
-      try {
-        const data = JSON.parse(event.data);
+      onMessage: (data) => {
         if (data.type === "feedback" && data.payload) {
           const newFeedback = data.payload as Feedback;
           console.log(`Received feedback: "${newFeedback.text.substring(0, 50)}..."`);
 
           // Prevent duplicates across reconnects/stream glitches
+          // Approved items leave the moderation queue
+          setPendingFeedback((prev) => prev.filter((f) => f.id !== newFeedback.id));
+
           if (!receivedFeedbackIdsRef.current.has(newFeedback.id)) {
             receivedFeedbackIdsRef.current.add(newFeedback.id);
 
             setFeedback((prev) => [newFeedback, ...prev]); // Newest first
+            if (newFeedback.votes) {
+              setVotes((prev) => ({ ...prev, [newFeedback.id]: newFeedback.votes ?? 0 }));
+            }
 
             // Increment unread count for newly received feedback
             setUnreadCount((prev) => prev + 1);
+
+            if (data.replayed) {
+              pendingReplayCountRef.current += 1;
+            }
+          }
+        } else if (data.type === "pending" && data.payload) {
+          const pending = data.payload as Feedback;
+          // A published question held back for review comes through again once approved
+          receivedFeedbackIdsRef.current.delete(pending.id);
+          setPendingFeedback((prev) =>
+            prev.some((f) => f.id === pending.id) ? prev : [...prev, pending]
+          );
+        } else if (data.type === "rejected" && data.payload) {
+          const rejectedId = (data.payload as Feedback).id;
+          setPendingFeedback((prev) => prev.filter((f) => f.id !== rejectedId));
+        } else if (data.type === "vote" && data.payload) {
+          const { feedbackId, votes: voteCount } = data.payload as {
+            feedbackId: string;
+            votes: number;
+          };
+          setVotes((prev) => ({ ...prev, [feedbackId]: voteCount }));
+        } else if (data.type === "replay") {
+          if (data.votes) {
+            setVotes((prev) => ({ ...prev, ...(data.votes as Record<string, number>) }));
+          }
+          // Server finished replaying what we missed while disconnected
+          const recovered = pendingReplayCountRef.current;
+          pendingReplayCountRef.current = 0;
+          if (recovered > 0) {
+            console.log(`Replayed ${recovered} missed question(s) after reconnect`);
+            setReplayedCount(recovered);
           }
         }
-      } catch (err) {
-        console.error("Error parsing feedback event:", err);
-      }
-    };
+      },
 
-    eventSource.onerror = (err) => {
-      console.error("Feedback stream error:", err);
-      setIsConnected(false);
-      setError("Connection lost. Reconnecting...");
-
-      // EventSource will automatically reconnect
-      // If it closes, clean up
-      if (eventSource.readyState === EventSource.CLOSED) {
-        console.log("Stream closed, attempting to reconnect...");
-        setError("Connection closed. Refresh to reconnect.");
-      }
-    };
+      onError: (closed) => {
+        setIsConnected(false);
+        setError(closed ? "Connection closed. Refresh to reconnect." : "Connection lost. Reconnecting...");
+      },
+    });
 
-    // Cleanup on unmount or sessionId change
+    // Cleanup on unmount or session change
     return () => {
-      console.log("Closing feedback stream");
-      eventSource.close();
-      eventSourceRef.current = null;
+      unsubscribe();
       // Reset tracking so a new session starts clean
       readFeedbackIdsRef.current = new Set();
       receivedFeedbackIdsRef.current = new Set();
+      pendingReplayCountRef.current = 0;
       setFeedback([]);
       setUnreadCount(0);
+      setReplayedCount(0);
+      setVotes({});
+      setPendingFeedback([]);
     };
-  }, [sessionId]);
+  }, [sessionStream]);
 
   // Mark feedback as read
   const markAsRead = useCallback((feedbackId: string) => {
@@ -100,6 +128,11 @@ export function useFeedback(sessionId: string | null) {
     }
   }, []);
 
+  // Hide the "replayed N missed questions" notice
+  const dismissReplayNotice = useCallback(() => {
+    setReplayedCount(0);
+  }, []);
+
   // Check if a feedback item is read
   const isRead = useCallback((feedbackId: string) => {
     return readFeedbackIdsRef.current.has(feedbackId);
@@ -110,6 +143,10 @@ export function useFeedback(sessionId: string | null) {
     unreadCount,
     isConnected,
     error,
+    replayedCount,
+    dismissReplayNotice,
+    votes,
+    pendingFeedback,
     markAsRead,
     markAllAsRead,
     dismissFeedback,
@@ -0,0 +1,44 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { ReactionEmoji } from "@/types/reaction";
+
+// Matches the reaction-float animation in globals.css
+const FLOAT_DURATION_MS = 2400;
+// Cap on-screen emojis so a burst of taps can't flood the slide
+const MAX_FLOATING = 30;
+
+export interface FloatingReaction {
+  id: number;
+  emoji: ReactionEmoji;
+  // Horizontal position as a percentage of the overlay width
+  left: number;
+}
+
+export function useFloatingReactions() {
+  const [floatingReactions, setFloatingReactions] = useState<FloatingReaction[]>([]);
+  const nextIdRef = useRef(0);
+  const timeoutsRef = useRef<Set<ReturnType<typeof setTimeout>>>(new Set());
+
+  const addFloatingReaction = useCallback((emoji: ReactionEmoji) => {
+    const id = nextIdRef.current++;
+    const left = 10 + Math.random() * 80;
+    setFloatingReactions((prev) => [...prev, { id, emoji, left }].slice(-MAX_FLOATING));
+
+    const timeout = setTimeout(() => {
+      timeoutsRef.current.delete(timeout);
+      setFloatingReactions((prev) => prev.filter((r) => r.id !== id));
+    }, FLOAT_DURATION_MS);
+    timeoutsRef.current.add(timeout);
+  }, []);
+
+  useEffect(() => {
+    const timeouts = timeoutsRef.current;
+    return () => {
+      timeouts.forEach(clearTimeout);
+      timeouts.clear();
+    };
+  }, []);
+
+  return { floatingReactions, addFloatingReaction };
+}
@@ -0,0 +1,75 @@
+"use client";
+
+import { useCallback, useRef, useState } from "react";
+import type { GateProfile, GateProfilePreset } from "@/types/gateProfile";
+import { DEFAULT_GATE_PROFILE, normalizeGateProfile } from "@/lib/gateProfile";
+
+const GATE_PRESETS_STORAGE_KEY = "slidequest:gate-presets";
+const MAX_PRESETS = 12;
+const MAX_PRESET_NAME_LENGTH = 40;
+
+function loadPresets(): GateProfilePreset[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const stored = window.localStorage.getItem(GATE_PRESETS_STORAGE_KEY);
+    const parsed = stored ? (JSON.parse(stored) as unknown) : [];
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter((preset) => typeof preset?.name === "string" && preset.name.trim())
+      .slice(0, MAX_PRESETS)
+      .map((preset) => ({ name: preset.name, profile: normalizeGateProfile(preset.profile) }));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * The session's gate profile and the presenter's named presets. Presets are
+ * remembered on this device; the profile itself lasts for the session.
+ */
+export function useGateProfile() {
+  const [gateProfile, setGateProfileState] = useState<GateProfile>(DEFAULT_GATE_PROFILE);
+  const [presets, setPresets] = useState<GateProfilePreset[]>(loadPresets);
+  // Gate checks read the profile between renders
+  const gateProfileRef = useRef<GateProfile>(DEFAULT_GATE_PROFILE);
+
+  const setGateProfile = useCallback((next: GateProfile) => {
+    const profile = normalizeGateProfile(next);
+    gateProfileRef.current = profile;
+    setGateProfileState(profile);
+  }, []);
+
+  const storePresets = useCallback((next: GateProfilePreset[]) => {
+    setPresets(next);
+    try {
+      window.localStorage.setItem(GATE_PRESETS_STORAGE_KEY, JSON.stringify(next));
+    } catch (err) {
+      console.error("Failed to save gate presets:", err);
+    }
+  }, []);
+
+  // Saving under an existing name overwrites that preset
+  const saveGatePreset = useCallback(
+    (name: string, profile: GateProfile) => {
+      const trimmed = name.trim().slice(0, MAX_PRESET_NAME_LENGTH);
+      if (!trimmed) return;
+      const others = presets.filter((preset) => preset.name !== trimmed);
+      storePresets([...others, { name: trimmed, profile: normalizeGateProfile(profile) }].slice(-MAX_PRESETS));
+    },
+    [presets, storePresets]
+  );
+
+  const deleteGatePreset = useCallback(
+    (name: string) => storePresets(presets.filter((preset) => preset.name !== name)),
+    [presets, storePresets]
+  );
+
+  return {
+    gateProfile,
+    gateProfileRef,
+    setGateProfile,
+    gatePresets: presets,
+    saveGatePreset,
+    deleteGatePreset,
+  };
+}
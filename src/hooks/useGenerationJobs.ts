@@ -0,0 +1,132 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { SessionStream } from "@/hooks/useSessionStream";
+import type { GenerationJob } from "@/types/jobs";
+
+interface UseGenerationJobsOptions {
+  sessionStream: SessionStream | null;
+  sessionAuthRef: React.MutableRefObject<{ sessionId: string | null; presenterToken: string | null }>;
+  // Called once for each stage a job reaches, including when it finishes
+  onJobUpdateRef: React.MutableRefObject<(job: GenerationJob) => void>;
+  // Called with the server's full job list each time the stream (re)connects
+  onJobsSnapshotRef: React.MutableRefObject<(jobs: GenerationJob[]) => void>;
+}
+
+const isFinished = (job: GenerationJob) => job.state === "done" || job.state === "failed";
+
+/**
+ * Server-side generation jobs for the presenter's session. Their progress
+ * arrives on the session stream; a reconnect gets the current list again,
+ * so slides finished while the stream was down are still collected.
+ */
+export function useGenerationJobs({
+  sessionStream,
+  sessionAuthRef,
+  onJobUpdateRef,
+  onJobsSnapshotRef,
+}: UseGenerationJobsOptions) {
+  // Unfinished jobs, oldest first
+  const [pendingJobs, setPendingJobs] = useState<GenerationJob[]>([]);
+  const finishedJobIdsRef = useRef<Set<string>>(new Set());
+
+  const jobsRequest = useCallback(
+    (path: string, init: RequestInit = {}) => {
+      const { sessionId: authSessionId, presenterToken } = sessionAuthRef.current;
+      if (!authSessionId || !presenterToken) return null;
+      return fetch(`/api/sessions/${authSessionId}/jobs${path}`, {
+        ...init,
+        headers: { ...init.headers, Authorization: `Bearer ${presenterToken}` },
+      });
+    },
+    [sessionAuthRef]
+  );
+
+  useEffect(() => {
+    if (!sessionStream) return;
+
+    // Job ID -> last stage handled; ETA refreshes and replays repeat a stage
+    const handledStates = new Map<string, GenerationJob["state"]>();
+
+    const handleJob = (job: GenerationJob) => {
+      setPendingJobs((prev) => {
+        const others = prev.filter((pending) => pending.id !== job.id);
+        return isFinished(job)
+          ? others
+          : [...others, job].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+      });
+
+      if (handledStates.get(job.id) === job.state) return;
+      handledStates.set(job.id, job.state);
+      onJobUpdateRef.current(job);
+
+      if (isFinished(job)) {
+        finishedJobIdsRef.current.add(job.id);
+        // The server keeps a finished job's slides until they are collected
+        void jobsRequest(`/${job.id}`, { method: "DELETE" })?.catch((err) => {
+          console.error("Failed to clear generation job:", err);
+        });
+      }
+    };
+
+    const unsubscribe = sessionStream.subscribe({
+      onMessage: (data) => {
+        if (data.type === "job" && data.payload) {
+          handleJob(data.payload as GenerationJob);
+        } else if (data.type === "jobs" && Array.isArray(data.payload)) {
+          const jobs = data.payload as GenerationJob[];
+          jobs.forEach(handleJob);
+          onJobsSnapshotRef.current(jobs);
+        }
+      },
+    });
+
+    return () => {
+      unsubscribe();
+      setPendingJobs([]);
+    };
+  }, [jobsRequest, onJobUpdateRef, onJobsSnapshotRef, sessionStream]);
+
+  const enqueueJob = useCallback(
+    async (body: object): Promise<GenerationJob | null> => {
+      try {
+        const response = await jobsRequest("", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        });
+        if (!response) return null;
+
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok) {
+          console.error("Failed to queue generation job:", data.error);
+          return null;
+        }
+
+        // The stream may already have reported this job, even as finished
+        const job = data.job as GenerationJob;
+        if (!finishedJobIdsRef.current.has(job.id)) {
+          setPendingJobs((prev) => (prev.some((pending) => pending.id === job.id) ? prev : [...prev, job]));
+        }
+        return job;
+      } catch (err) {
+        console.error("Failed to queue generation job:", err);
+        return null;
+      }
+    },
+    [jobsRequest]
+  );
+
+  const cancelAllJobs = useCallback(() => {
+    void jobsRequest("", { method: "DELETE" })?.catch((err) => {
+      console.error("Failed to cancel generation jobs:", err);
+    });
+    setPendingJobs([]);
+  }, [jobsRequest]);
+
+  return {
+    pendingJobs,
+    enqueueJob,
+    cancelAllJobs,
+  };
+}
@@ -0,0 +1,100 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+/**
+ * Presenter controls for the moderation queue. The queue itself arrives
+ * through useFeedback as `pendingFeedback`.
+ */
+export function useModeration(sessionId: string | null, presenterToken: string | null) {
+  const [enabled, setEnabledState] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!sessionId || !presenterToken) return;
+
+    let cancelled = false;
+    fetch(`/api/sessions/${sessionId}/moderation`, {
+      headers: { Authorization: `Bearer ${presenterToken}` },
+      cache: "no-store",
+    })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (!cancelled && data) {
+          setEnabledState(Boolean(data.enabled));
+        }
+      })
+      .catch((err) => console.error("Failed to load moderation setting:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [presenterToken, sessionId]);
+
+  const postAction = useCallback(
+    async (path: string, body: object, failureMessage: string): Promise<boolean> => {
+      if (!sessionId || !presenterToken) return false;
+
+      setError(null);
+      try {
+        const response = await fetch(`/api/sessions/${sessionId}/${path}`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${presenterToken}`,
+          },
+          body: JSON.stringify(body),
+        });
+        if (!response.ok) {
+          const data = await response.json().catch(() => ({}));
+          setError(data.error || failureMessage);
+          return false;
+        }
+        return true;
+      } catch (err) {
+        console.error(failureMessage, err);
+        setError(failureMessage);
+        return false;
+      }
+    },
+    [presenterToken, sessionId]
+  );
+
+  const setEnabled = useCallback(
+    async (next: boolean) => {
+      const ok = await postAction("moderation", { enabled: next }, "Failed to update moderation");
+      if (ok) {
+        setEnabledState(next);
+      }
+    },
+    [postAction]
+  );
+
+  // The stream removes the item from the queue once the server confirms
+  const approve = useCallback(
+    (feedbackId: string, text?: string) =>
+      postAction(`feedback/${feedbackId}/approve`, { text }, "Failed to approve question"),
+    [postAction]
+  );
+
+  const reject = useCallback(
+    (feedbackId: string, reason: string) =>
+      postAction(`feedback/${feedbackId}/reject`, { reason }, "Failed to reject question"),
+    [postAction]
+  );
+
+  const hold = useCallback(
+    (feedbackId: string, reason: string) =>
+      postAction(`feedback/${feedbackId}/hold`, { reason }, "Failed to hold question for review"),
+    [postAction]
+  );
+
+  return {
+    enabled,
+    error,
+    setEnabled,
+    approve,
+    reject,
+    hold,
+  };
+}
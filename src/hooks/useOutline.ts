@@ -0,0 +1,84 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { OutlineSection } from "@/types/outline";
+import { getSectionProgress } from "@/lib/outline";
+
+// Progress only needs to move once a second for the timers to read right
+const TICK_MS = 1000;
+
+export function useOutline() {
+  const [outline, setOutlineState] = useState<OutlineSection[]>([]);
+  const [currentSectionId, setCurrentSectionId] = useState<string | null>(null);
+  const [elapsedMs, setElapsedMs] = useState<Record<string, number>>({});
+  const [currentStartedAt, setCurrentStartedAt] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  // The gate reads these between renders; every setter below keeps them in step with state
+  const outlineRef = useRef<OutlineSection[]>([]);
+  const currentSectionIdRef = useRef<string | null>(null);
+  const currentStartedAtRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (currentStartedAt === null) return;
+    const interval = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(interval);
+  }, [currentStartedAt]);
+
+  const enterSection = useCallback(
+    (sectionId: string) => {
+      if (sectionId === currentSectionIdRef.current) return;
+      if (!outlineRef.current.some((section) => section.id === sectionId)) return;
+
+      const timestamp = Date.now();
+      const previousId = currentSectionIdRef.current;
+      const startedAt = currentStartedAtRef.current;
+      if (previousId && startedAt !== null) {
+        setElapsedMs((prev) => ({
+          ...prev,
+          [previousId]: (prev[previousId] ?? 0) + timestamp - startedAt,
+        }));
+      }
+      currentSectionIdRef.current = sectionId;
+      currentStartedAtRef.current = timestamp;
+      setCurrentSectionId(sectionId);
+      setCurrentStartedAt(timestamp);
+      setNow(timestamp);
+    },
+    []
+  );
+
+  // Timing starts with the first section when the talk starts
+  const startOutline = useCallback(() => {
+    const [first] = outlineRef.current;
+    if (first && !currentSectionIdRef.current) enterSection(first.id);
+  }, [enterSection]);
+
+  const resetOutlineProgress = useCallback(() => {
+    currentSectionIdRef.current = null;
+    currentStartedAtRef.current = null;
+    setCurrentSectionId(null);
+    setElapsedMs({});
+    setCurrentStartedAt(null);
+  }, []);
+
+  const setOutline = useCallback(
+    (sections: OutlineSection[]) => {
+      outlineRef.current = sections;
+      setOutlineState(sections);
+      resetOutlineProgress();
+    },
+    [resetOutlineProgress]
+  );
+
+  return {
+    outline,
+    outlineRef,
+    currentSectionId,
+    currentSectionIdRef,
+    sectionProgress: getSectionProgress(outline, currentSectionId, elapsedMs, currentStartedAt, now),
+    setOutline,
+    enterSection,
+    startOutline,
+    resetOutlineProgress,
+  };
+}
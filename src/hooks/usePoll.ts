@@ -0,0 +1,108 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { Poll } from "@/types/poll";
+
+export function usePoll(sessionId: string | null, presenterToken: string | null) {
+  const [activePoll, setActivePoll] = useState<Poll | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Live vote counts arrive on the audience stream
+  useEffect(() => {
+    if (!sessionId) return;
+
+    const eventSource = new EventSource(`/api/sessions/${sessionId}/slide/stream`);
+
+    eventSource.onmessage = (event) => {
+      try {
+        const data = JSON.parse(event.data);
+        if (data.type === "poll" && data.payload) {
+          const poll = data.payload as Poll;
+          setActivePoll((prev) => {
+            if (poll.status === "open") return poll;
+            return prev?.id === poll.id ? null : prev;
+          });
+        }
+      } catch (err) {
+        console.error("Error parsing poll event:", err);
+      }
+    };
+
+    return () => {
+      eventSource.close();
+      setActivePoll(null);
+    };
+  }, [sessionId]);
+
+  const createPoll = useCallback(
+    async (question: string, options: string[]): Promise<Poll | null> => {
+      if (!sessionId || !presenterToken) return null;
+
+      setIsSubmitting(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/sessions/${sessionId}/polls`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${presenterToken}`,
+          },
+          body: JSON.stringify({ question, options }),
+        });
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok) {
+          setError(data.error || "Failed to create poll");
+          return null;
+        }
+        setActivePoll(data.poll);
+        return data.poll as Poll;
+      } catch (err) {
+        console.error("Failed to create poll:", err);
+        setError("Failed to create poll");
+        return null;
+      } finally {
+        setIsSubmitting(false);
+      }
+    },
+    [presenterToken, sessionId]
+  );
+
+  // Closes the active poll and returns its final results
+  const closePoll = useCallback(async (): Promise<Poll | null> => {
+    if (!sessionId || !presenterToken || !activePoll) return null;
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/sessions/${sessionId}/polls/${activePoll.id}/close`,
+        {
+          method: "POST",
+          headers: { Authorization: `Bearer ${presenterToken}` },
+        }
+      );
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setError(data.error || "Failed to close poll");
+        return null;
+      }
+      setActivePoll(null);
+      return data.poll as Poll;
+    } catch (err) {
+      console.error("Failed to close poll:", err);
+      setError("Failed to close poll");
+      return null;
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [activePoll, presenterToken, sessionId]);
+
+  return {
+    activePoll,
+    isSubmitting,
+    error,
+    createPoll,
+    closePoll,
+  };
+}
@@ -0,0 +1,68 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useFloatingReactions } from "@/hooks/useFloatingReactions";
+import type { ReactionCounts, ReactionEmoji, ReactionTallies } from "@/types/reaction";
+
+/**
+ * Presenter-side reactions: floating emojis for the preview plus per-slide tallies
+ */
+export function useReactions(sessionId: string | null, presenterToken: string | null) {
+  const { floatingReactions, addFloatingReaction } = useFloatingReactions();
+  const [tallies, setTallies] = useState<ReactionTallies>({});
+
+  // Load tallies recorded before this view connected
+  useEffect(() => {
+    if (!sessionId || !presenterToken) return;
+
+    let cancelled = false;
+    fetch(`/api/sessions/${sessionId}/reactions`, {
+      headers: { Authorization: `Bearer ${presenterToken}` },
+      cache: "no-store",
+    })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (!cancelled && data?.tallies) {
+          // Live counts may already have arrived; they are newer
+          setTallies((prev) => ({ ...data.tallies, ...prev }));
+        }
+      })
+      .catch((err) => console.error("Failed to load reaction tallies:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [presenterToken, sessionId]);
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    const eventSource = new EventSource(`/api/sessions/${sessionId}/slide/stream`);
+
+    eventSource.onmessage = (event) => {
+      try {
+        const data = JSON.parse(event.data);
+        if (data.type === "reaction" && data.payload) {
+          const { emoji, slideId, counts } = data.payload as {
+            emoji: ReactionEmoji;
+            slideId: string | null;
+            counts: ReactionCounts | null;
+          };
+          addFloatingReaction(emoji);
+          if (slideId && counts) {
+            setTallies((prev) => ({ ...prev, [slideId]: counts }));
+          }
+        }
+      } catch (err) {
+        console.error("Error parsing reaction event:", err);
+      }
+    };
+
+    return () => {
+      eventSource.close();
+      setTallies({});
+    };
+  }, [addFloatingReaction, sessionId]);
+
+  return { floatingReactions, tallies };
+}
@@ -6,16 +6,31 @@ import {
   LiveTranscriptionEvents,
   type LiveTranscriptionEvent,
 } from "@deepgram/sdk";
-import type { SlideData } from "@/types/slides";
-import type { SlideHistoryEntry, StyleReference } from "@/types/realtime";
-import { useSlideChannels } from "./useSlideChannels";
+import type { SlideData, SlideSource } from "@/types/slides";
+import type { ChartData } from "@/types/chart";
+import type { SlideHistoryEntry } from "@/types/realtime";
+import { STALE_JOB_ERROR, type GenerationJob } from "@/types/jobs";
+import { useSlideChannels, type CuratorDecision, type SlideOptions } from "./useSlideChannels";
 import { useSlideUploads } from "./useSlideUploads";
 import { useAudienceQuestions } from "./useAudienceQuestions";
+import { useSlideRevisions } from "./useSlideRevisions";
+import { useStyleReferences } from "./useStyleReferences";
+import { useFactCheck } from "./useFactCheck";
+import { useOutline } from "./useOutline";
+import { useRecap } from "./useRecap";
+import { useGateProfile } from "./useGateProfile";
+import { useGenerationJobs } from "./useGenerationJobs";
+import { useSessionStream } from "./useSessionStream";
+import { buildCorrectionSlideContent } from "@/lib/factCheck";
+import { MAX_SLIDE_VARIANTS, groupSlideVariants } from "@/lib/slideVariants";
+import { getGateTimings } from "@/lib/gateProfile";
+import { createGenerationRegistry, isAbortError, type Generation } from "@/lib/generations";
 
 export type { SlideData } from "@/types/slides";
 export type { ChannelType, SlideOptions } from "./useSlideChannels";
 
-export type PresentationMode = "gated" | "stream-of-consciousness";
+// Fact-check mode runs the gate as usual and also checks the claims in every finalized segment
+export type PresentationMode = "gated" | "stream-of-consciousness" | "fact-check";
 
 interface SlideContent {
   headline: string;
@@ -24,10 +39,18 @@ interface SlideContent {
   visualDescription: string;
   category: string;
   sourceTranscript: string;
+  sources?: SlideSource[];
+  chart?: ChartData;
+  diagram?: string;
 }
 
 type FollowupSlideContent = Omit<SlideContent, "sourceTranscript">;
 
+// The recap only needs the recent part of a long talk
+const MAX_TALK_TRANSCRIPT_LENGTH = 20000;
+// A gate job that hasn't reported back by now is treated as lost, so the gate opens again
+const GATE_LOCK_TIMEOUT_MS = 60000;
+
 export function useRealtimeAPI() {
   const {
     exploratoryChannel,
@@ -36,12 +59,16 @@ export function useRealtimeAPI() {
     slideOptions,
     uploadedSlides,
     addToExploratoryChannel,
+    applyCuratorDecision,
     navigateChannel,
     getChannelSlide,
     getChannelInfo,
     takeSlideFromChannel,
+    navigateVariant,
     removeSlideOption,
+    replaceChannelSlide,
     appendAudienceSlide,
+    updateAudienceVotes,
     appendSlidesToSlidesChannel,
     useUploadedSlide,
     getNextUploadedSlide,
@@ -58,11 +85,14 @@ export function useRealtimeAPI() {
   const [fullTranscript, setFullTranscript] = useState<string>("");
   const [isGenerationPaused, setIsGenerationPaused] = useState(false);
   const [processingCount, setProcessingCount] = useState(0);
-  const isProcessing = processingCount > 0;
   const [mode, setMode] = useState<PresentationMode>("gated");
   const [gateStatus, setGateStatus] = useState<string>("");
   const [curatorStatus, setCuratorStatus] = useState<string>("");
   const [autoAcceptedSlide, setAutoAcceptedSlide] = useState<SlideData | null>(null);
+  // Fast mode skips the image model and renders slides from local templates
+  const [fastMode, setFastMode] = useState(false);
+  // How many layout variants the gate generates for each slide idea
+  const [variantCount, setVariantCountState] = useState(1);
 
   type DeepgramLiveConnection = ReturnType<
     ReturnType<typeof createClient>["listen"]["live"]
@@ -73,33 +103,119 @@ export function useRealtimeAPI() {
   const recorderRef = useRef<MediaRecorder | null>(null);
   const lastIdeaTextRef = useRef<string>("");
   const fullTranscriptRef = useRef<string>("");
+  // Everything said since start, unlike fullTranscriptRef which the gate clears per slide
+  const talkTranscriptRef = useRef<string>("");
   const generationPausedRef = useRef<boolean>(false);
   const lastGateCheckRef = useRef<string>("");
   const isGatingRef = useRef<boolean>(false);
+  // When the gate lock was taken, and the job holding it once the server has accepted it
+  const gatingStartedAtRef = useRef<number>(0);
+  const gatingJobIdRef = useRef<string | null>(null);
+  // Jobs already past their gate; the stream can report one before its POST returns
+  const jobsPastGateRef = useRef<Set<string>>(new Set());
   const modeRef = useRef<PresentationMode>(mode);
+  const fastModeRef = useRef<boolean>(fastMode);
+  const variantCountRef = useRef<number>(variantCount);
   const gateDebounceTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const priorIdeasRef = useRef<{ title: string; content: string; category: string }[]>([]);
+  const lastGateSlideAtRef = useRef<number>(0);
+  // When the latest final transcript segment arrived; generations based on it age from here
+  const lastSegmentAtRef = useRef<number>(0);
+  const [generations] = useState(createGenerationRegistry);
   const acceptedSlidesRef = useRef<SlideHistoryEntry[]>([]);
-  const styleReferencesRef = useRef<StyleReference[]>([]);
+  const {
+    styleReferencesRef,
+    styleAnchors,
+    addAutoStyleReference,
+    toggleStyleAnchor,
+    stylePreferencesRef,
+    addStylePreference,
+    resetStyleReferences,
+  } = useStyleReferences();
   const slideCounterRef = useRef<number>(0);
+  const slideOptionsRef = useRef<SlideOptions>(slideOptions);
   const sessionAuthRef = useRef<{ sessionId: string | null; presenterToken: string | null }>({
     sessionId: null,
     presenterToken: null,
   });
+  // The session stream needs the session as state to reconnect when it changes
+  const [sessionAuth, setSessionAuthState] = useState<{
+    sessionId: string | null;
+    presenterToken: string | null;
+  }>({ sessionId: null, presenterToken: null });
+  // Shared by every presenter hook that listens to the session stream
+  const sessionStream = useSessionStream(sessionAuth.sessionId, sessionAuth.presenterToken);
+  const jobUpdateHandlerRef = useRef<(job: GenerationJob) => void>(() => {});
+  const jobsSnapshotHandlerRef = useRef<(jobs: GenerationJob[]) => void>(() => {});
+  // Gate jobs whose slide idea has already been recorded
+  const appliedGateJobsRef = useRef<Set<string>>(new Set());
+  const { pendingJobs, enqueueJob, cancelAllJobs } = useGenerationJobs({
+    sessionStream,
+    sessionAuthRef,
+    onJobUpdateRef: jobUpdateHandlerRef,
+    onJobsSnapshotRef: jobsSnapshotHandlerRef,
+  });
+  const isProcessing = processingCount > 0 || pendingJobs.length > 0;
   const { isUploadingSlides, uploadProgress, uploadSlides } = useSlideUploads({
     appendSlidesToSlidesChannel,
-    styleReferencesRef,
+    addAutoStyleReference,
   });
 
   modeRef.current = mode;
+  fastModeRef.current = fastMode;
+  variantCountRef.current = variantCount;
+  slideOptionsRef.current = slideOptions;
+
+  const setVariantCount = useCallback((count: number) => {
+    setVariantCountState(Math.min(Math.max(Math.round(count), 1), MAX_SLIDE_VARIANTS));
+  }, []);
+
+  const {
+    gateProfile,
+    gateProfileRef,
+    setGateProfile,
+    gatePresets,
+    saveGatePreset,
+    deleteGatePreset,
+  } = useGateProfile();
 
   const { isAnsweringQuestion, addToAudienceChannel } = useAudienceQuestions({
     appendAudienceSlide,
     acceptedSlidesRef,
     styleReferencesRef,
     slideCounterRef,
+    sessionAuthRef,
+    fastModeRef,
+    startGeneration: generations.start,
   });
 
+  const {
+    flaggedClaims,
+    isFactChecking,
+    addTranscriptSegment,
+    dismissFactCheck,
+    resetFactChecks,
+  } = useFactCheck();
+
+  const {
+    outline,
+    outlineRef,
+    currentSectionId,
+    currentSectionIdRef,
+    sectionProgress,
+    setOutline,
+    enterSection,
+    startOutline,
+    resetOutlineProgress,
+  } = useOutline();
+
+  const { isRevising, revisionError, reviseSlide, getVersions: getSlideVersions } =
+    useSlideRevisions({
+      styleReferencesRef,
+      sessionAuthRef,
+      fastModeRef,
+    });
+
   const lastExploratoryGenerationRef = useRef<number>(0);
   const exploratoryGenerationTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const pendingExploratoryContextRef = useRef<{
@@ -111,8 +227,6 @@ export function useRealtimeAPI() {
     audienceQuestions: [],
     presenterPrompts: [],
   });
-  const EXPLORATORY_INTERVAL_MS = 20000;
-  const GATE_DEBOUNCE_MS = 900;
 
   const withProcessing = useCallback(
     async <T,>(fn: () => Promise<T>): Promise<T> => {
@@ -129,107 +243,309 @@ export function useRealtimeAPI() {
   const setSessionAuth = useCallback(
     (sessionId: string | null, presenterToken: string | null) => {
       sessionAuthRef.current = { sessionId, presenterToken };
+      setSessionAuthState({ sessionId, presenterToken });
     },
     []
   );
 
+  // Let the curator decide whether a new exploratory slide replaces one of the
+  // two visible options or is dropped
+  const curateExploratorySlide = useCallback(
+    async (slide: SlideData, generation: Generation) => {
+      const shownOptions = slideOptionsRef.current;
+      const toCuratorSlide = (s: SlideData) => ({
+        id: s.id,
+        headline: s.headline,
+        sourceTranscript: s.originalIdea?.content || s.visualDescription,
+        category: s.originalIdea?.category,
+      });
+
+      setCuratorStatus("Curating new slide...");
+      try {
+        const response = await fetch("/api/slide-curator", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            newSlide: toCuratorSlide(slide),
+            currentOptions: shownOptions.map((option) => (option ? toCuratorSlide(option) : null)),
+          }),
+          signal: generation.signal,
+        });
+
+        if (!response.ok) {
+          throw new Error(await response.text());
+        }
+
+        const decision = (await response.json()) as CuratorDecision;
+        console.log("Curator decision:", decision.action, decision.reasoning);
+        applyCuratorDecision(slide, decision, shownOptions);
+        setCuratorStatus(decision.reasoning);
+      } catch (err) {
+        if (generation.isCancelled()) {
+          console.log("Dropped a stale slide while curating:", slide.headline);
+          setCuratorStatus("");
+          return;
+        }
+        // Without a curator every new slide is kept
+        console.error("Slide curator failed, adding slide directly:", err);
+        addToExploratoryChannel(slide);
+        setCuratorStatus("");
+      }
+    },
+    [addToExploratoryChannel, applyCuratorDecision]
+  );
+
   // Generate slide image from structured content (used in gated mode)
   const generateSlideImage = useCallback(
-    async (slideContent: SlideContent) => {
+    async (
+      slideContent: SlideContent,
+      { skipCurator = false, generation: callerGeneration }: { skipCurator?: boolean; generation?: Generation } = {}
+    ) => {
       if (generationPausedRef.current) {
         console.log("Generation paused: skipping slide image request");
         return;
       }
       console.log("Generating slide image:", slideContent);
 
-      await withProcessing(async () => {
-        // Increment slide counter for this new slide
-        slideCounterRef.current += 1;
-        const currentSlideNumber = slideCounterRef.current;
+      // Callers with their own generation (and age limit) finish it themselves
+      const generation = callerGeneration ?? generations.start();
 
-        try {
-          const response = await fetch("/api/gemini", {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              slideContent,
-              styleReferences: styleReferencesRef.current,
-              slideNumber: currentSlideNumber,
-            }),
-          });
-
-          if (response.ok) {
-            const data = await response.json();
-            console.log("Slide generated:", data.slide?.id || "unknown");
-            if (data.slide) {
-              // Add to exploratory channel queue
-              addToExploratoryChannel(data.slide);
+      try {
+        await withProcessing(async () => {
+          // Increment slide counter for this new slide
+          slideCounterRef.current += 1;
+          const currentSlideNumber = slideCounterRef.current;
+
+          // Template and native slides all look alike, so variants only apply to the image model
+          const variantCount =
+            fastModeRef.current || slideContent.chart || slideContent.diagram ? 1 : variantCountRef.current;
+
+          const requestSlide = async (variantIndex?: number): Promise<SlideData | null> => {
+            try {
+              const response = await fetch("/api/gemini", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                  slideContent,
+                  styleReferences: styleReferencesRef.current,
+                  stylePreferences: stylePreferencesRef.current,
+                  slideNumber: currentSlideNumber,
+                  sessionId: sessionAuthRef.current.sessionId,
+                  renderMode: fastModeRef.current ? "template" : "image",
+                  variant: variantIndex === undefined ? undefined : { index: variantIndex },
+                }),
+                signal: generation.signal,
+              });
+
+              if (!response.ok) {
+                console.error("Gemini API error:", await response.text());
+                return null;
+              }
+              const data = await response.json();
+              console.log("Slide generated:", data.slide?.id || "unknown");
+              return data.slide || null;
+            } catch (err) {
+              if (!isAbortError(err)) console.error("Failed to generate slide:", err);
+              return null;
             }
-          } else {
-            console.error("Gemini API error:", await response.text());
+          };
+
+          const slides =
+            variantCount > 1
+              ? await Promise.all(
+                  Array.from({ length: variantCount }, (_, index) => requestSlide(index))
+                )
+              : [await requestSlide()];
+
+          if (generation.isCancelled()) {
+            console.log("Dropped a stale slide:", slideContent.headline);
+            return;
           }
-        } catch (err) {
-          console.error("Failed to generate slide:", err);
+
+          // Variants of one idea share a single channel entry
+          const entry = groupSlideVariants(
+            slides.filter((slide): slide is SlideData => slide !== null)
+          );
+          if (entry && skipCurator) {
+            addToExploratoryChannel(entry);
+          } else if (entry) {
+            await curateExploratorySlide(entry, generation);
+          }
+        });
+      } finally {
+        if (!callerGeneration) generation.finish();
+      }
+    },
+    [
+      addToExploratoryChannel,
+      curateExploratorySlide,
+      generations,
+      styleReferencesRef,
+      stylePreferencesRef,
+      withProcessing,
+    ]
+  );
+
+  // Recap slides skip the curator so the summary is always offered
+  const generateRecapSlide = useCallback(
+    (content: FollowupSlideContent, generation: Generation) =>
+      generateSlideImage(
+        { ...content, sourceTranscript: "Recap of the talk" },
+        { skipCurator: true, generation }
+      ),
+    [generateSlideImage]
+  );
+
+  const { isRecapping, includeTakeaways, toggleTakeaways, createRecap, resetRecap } = useRecap({
+    acceptedSlidesRef,
+    talkTranscriptRef,
+    generateRecapSlide,
+    startGeneration: generations.start,
+  });
+
+  // Gate jobs run on the server and report each stage on the session stream
+  const handleJobUpdate = useCallback(
+    (job: GenerationJob) => {
+      if (job.state === "queued") return;
+      if (job.state === "gating") {
+        setGateStatus("Analyzing...");
+        return;
+      }
+
+      // Past the gate, so the next check can go ahead; an older job finishing
+      // must not release the lock a newer gate job holds
+      jobsPastGateRef.current.add(job.id);
+      if (job.id === gatingJobIdRef.current) {
+        isGatingRef.current = false;
+        gatingJobIdRef.current = null;
+      }
+      const gate = job.gate;
+      if (gate?.sectionId) enterSection(gate.sectionId);
+
+      if (job.state === "failed") {
+        setGateStatus(job.error === STALE_JOB_ERROR ? "Dropped a stale slide" : "Gate check failed");
+        return;
+      }
+
+      if (gate?.shouldCreateSlide && gate.slideContent) {
+        // Seen at "generating" and again at "done"; a reconnect may only deliver the latter
+        if (!appliedGateJobsRef.current.has(job.id)) {
+          appliedGateJobsRef.current.add(job.id);
+          // Track this idea so we don't duplicate it
+          priorIdeasRef.current.push({
+            title: gate.slideContent.headline,
+            content: gate.slideContent.sourceTranscript,
+            category: gate.slideContent.category,
+          });
+
+          // Clear the accumulated transcript since we're using it
+          fullTranscriptRef.current = "";
+          setFullTranscript("");
+          lastGateSlideAtRef.current = Date.now();
         }
-      });
+
+        if (job.state === "generating") {
+          setGateStatus("Creating slide...");
+          return;
+        }
+
+        // Variants of one idea share a single channel entry
+        const entry = groupSlideVariants(job.slides ?? []);
+        if (entry) {
+          slideCounterRef.current += 1;
+          const generation = generations.start();
+          void curateExploratorySlide(entry, generation).finally(generation.finish);
+        }
+        setGateStatus("");
+      } else if (gate?.conclusionIntent) {
+        setGateStatus(gate.reason || "Building a recap...");
+        fullTranscriptRef.current = "";
+        setFullTranscript("");
+        void createRecap({ auto: true }).finally(() => setGateStatus(""));
+      } else {
+        setGateStatus(gate?.reason || "Waiting for more content...");
+      }
     },
-    [addToExploratoryChannel, withProcessing]
+    [createRecap, curateExploratorySlide, enterSection, generations]
   );
 
+  // A reconnect lists every job the server still has; if the gate job isn't
+  // among the unfinished ones, the update that would release the gate was lost
+  const handleJobsSnapshot = useCallback((jobs: GenerationJob[]) => {
+    const gatingJobId = gatingJobIdRef.current;
+    if (!gatingJobId) return;
+    const stillGating = jobs.some(
+      (job) => job.id === gatingJobId && (job.state === "queued" || job.state === "gating")
+    );
+    if (!stillGating) {
+      isGatingRef.current = false;
+      gatingJobIdRef.current = null;
+    }
+  }, []);
+
+  useEffect(() => {
+    jobUpdateHandlerRef.current = handleJobUpdate;
+    jobsSnapshotHandlerRef.current = handleJobsSnapshot;
+  }, [handleJobUpdate, handleJobsSnapshot]);
+
   // Check with the gate if we should create a slide (gated mode)
   const checkSlideGate = useCallback(
     async (transcriptText: string) => {
       if (generationPausedRef.current) return;
-      if (isGatingRef.current) return;
+      if (isGatingRef.current) {
+        if (Date.now() - gatingStartedAtRef.current < GATE_LOCK_TIMEOUT_MS) return;
+        console.warn("Gate job never reported back, releasing the gate");
+        isGatingRef.current = false;
+        gatingJobIdRef.current = null;
+      }
       if (transcriptText === lastGateCheckRef.current) return;
 
+      // The transcript keeps building up, so the next segment after the wait asks again
+      const waitMs =
+        lastGateSlideAtRef.current + gateProfileRef.current.minSecondsBetweenSlides * 1000 - Date.now();
+      if (waitMs > 0) {
+        setGateStatus(`Next slide in ${Math.ceil(waitMs / 1000)}s`);
+        return;
+      }
+
       isGatingRef.current = true;
+      gatingStartedAtRef.current = Date.now();
       lastGateCheckRef.current = transcriptText;
-      setGateStatus("Analyzing...");
-
-      try {
-        const response = await fetch("/api/slide-gate", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            transcript: transcriptText,
-            priorIdeas: priorIdeasRef.current,
-            acceptedSlides: acceptedSlidesRef.current,
-            isFirstSlide: acceptedSlidesRef.current.length === 0,
-          }),
-        });
+      setGateStatus("Queued...");
+
+      // The server drops a slide that would arrive after the speaker has moved on
+      const job = await enqueueJob({
+        gate: {
+          transcript: transcriptText,
+          priorIdeas: priorIdeasRef.current,
+          acceptedSlides: acceptedSlidesRef.current,
+          isFirstSlide: acceptedSlidesRef.current.length === 0,
+          outline: outlineRef.current.length > 0 ? outlineRef.current : undefined,
+          currentSectionId: currentSectionIdRef.current,
+          gateProfile: gateProfileRef.current,
+        },
+        render: {
+          styleReferences: styleReferencesRef.current,
+          stylePreferences: stylePreferencesRef.current,
+          slideNumber: slideCounterRef.current + 1,
+          renderMode: fastModeRef.current ? "template" : "image",
+          variantCount: variantCountRef.current,
+        },
+        sourceAgeMs: lastSegmentAtRef.current ? Date.now() - lastSegmentAtRef.current : 0,
+        maxAgeMs: gateProfileRef.current.maxSlideAgeSeconds * 1000,
+      });
 
-        if (response.ok) {
-          const data = await response.json();
-          console.log("Gate response:", data);
-
-          if (data.shouldCreateSlide && data.slideContent) {
-            setGateStatus("Creating slide...");
-
-            // Track this idea so we don't duplicate it
-            priorIdeasRef.current.push({
-              title: data.slideContent.headline,
-              content: data.slideContent.sourceTranscript,
-              category: data.slideContent.category,
-            });
-
-            // Clear the accumulated transcript since we're using it
-            fullTranscriptRef.current = "";
-            setFullTranscript("");
-            await generateSlideImage(data.slideContent);
-            setGateStatus("");
-          } else {
-            setGateStatus(data.reason || "Waiting for more content...");
-          }
-        }
-      } catch (err) {
-        console.error("Gate check failed:", err);
+      // Otherwise the gate is released when the job reports past its gating stage
+      if (!job) {
+        isGatingRef.current = false;
         setGateStatus("Gate check failed");
-      } finally {
+      } else if (jobsPastGateRef.current.has(job.id)) {
         isGatingRef.current = false;
+      } else if (isGatingRef.current) {
+        gatingJobIdRef.current = job.id;
       }
     },
-    [generateSlideImage]
+    [currentSectionIdRef, enqueueJob, gateProfileRef, outlineRef, styleReferencesRef, stylePreferencesRef]
   );
 
   // Direct idea processing (stream-of-consciousness mode)
@@ -241,6 +557,9 @@ export function useRealtimeAPI() {
         return;
       }
       console.log("Processing idea (stream mode):", { title, content, category });
+      const generation = generations.start({
+        maxAgeMs: gateProfileRef.current.maxSlideAgeSeconds * 1000,
+      });
       await withProcessing(async () => {
         // Increment slide counter for this new slide
         slideCounterRef.current += 1;
@@ -255,14 +574,20 @@ export function useRealtimeAPI() {
               content,
               category,
               styleReferences: styleReferencesRef.current,
+              stylePreferences: stylePreferencesRef.current,
               slideNumber: currentSlideNumber,
+              sessionId: sessionAuthRef.current.sessionId,
+              renderMode: fastModeRef.current ? "template" : "image",
             }),
+            signal: generation.signal,
           });
 
           if (response.ok) {
             const data = await response.json();
             console.log("Gemini response:", data);
-            if (data.slide) {
+            if (generation.isCancelled()) {
+              console.log("Dropped a stale slide:", title);
+            } else if (data.slide) {
               // In stream mode, auto-accept the slide directly
               setAutoAcceptedSlide(data.slide);
             }
@@ -270,11 +595,13 @@ export function useRealtimeAPI() {
             console.error("Gemini API error:", await response.text());
           }
         } catch (err) {
-          console.error("Failed to generate slide:", err);
+          if (!isAbortError(err)) console.error("Failed to generate slide:", err);
+        } finally {
+          generation.finish();
         }
       });
     },
-    [withProcessing]
+    [gateProfileRef, generations, styleReferencesRef, stylePreferencesRef, withProcessing]
   );
 
   // Consolidate pending exploratory triggers into a single generation run with all fresh context.
@@ -365,6 +692,9 @@ export function useRealtimeAPI() {
         acceptedSlidesRef.current[acceptedSlidesRef.current.length - 1] ||
         null;
 
+      // Exploratory slides answer explicit cues rather than the live transcript, so they don't age out
+      const generation = generations.start();
+
       return await withProcessing(async () => {
         try {
           const response = await fetch("/api/exploratory-input", {
@@ -388,7 +718,9 @@ export function useRealtimeAPI() {
               slideHistoryContext,
               uploadedSlidesContext,
               audienceContext,
+              gateProfile: gateProfileRef.current,
             }),
+            signal: generation.signal,
           });
 
           if (!response.ok) {
@@ -456,17 +788,23 @@ export function useRealtimeAPI() {
               bullets: followup.bullets,
               visualDescription: followup.visualDescription,
               category: followup.category,
+              sources: followup.sources,
+              diagram: followup.diagram,
               sourceTranscript,
-            });
+            }, { generation });
           }
           return true;
         } catch (err) {
+          // A stopped presentation has nothing to retry
+          if (isAbortError(err)) return true;
           console.error("Error generating exploratory slides from context:", err);
           return false;
+        } finally {
+          generation.finish();
         }
       });
     },
-    [audienceChannel.queue, generateSlideImage, slidesChannel.queue, withProcessing]
+    [audienceChannel.queue, gateProfileRef, generateSlideImage, generations, slidesChannel.queue, withProcessing]
   );
 
   const triggerExploratoryGeneration = useCallback(
@@ -484,12 +822,13 @@ export function useRealtimeAPI() {
 
       const now = Date.now();
       const elapsed = now - lastExploratoryGenerationRef.current;
+      const { exploratoryIntervalMs } = getGateTimings(gateProfileRef.current);
 
-      if (elapsed < EXPLORATORY_INTERVAL_MS && !forceNow) {
+      if (elapsed < exploratoryIntervalMs && !forceNow) {
         if (exploratoryGenerationTimeoutRef.current) {
           clearTimeout(exploratoryGenerationTimeoutRef.current);
         }
-        const delay = EXPLORATORY_INTERVAL_MS - elapsed;
+        const delay = exploratoryIntervalMs - elapsed;
         exploratoryGenerationTimeoutRef.current = setTimeout(() => {
           void triggerExploratoryGeneration(true);
         }, delay);
@@ -531,7 +870,7 @@ export function useRealtimeAPI() {
         );
       }
     },
-    [generateExploratorySlidesFromContext]
+    [gateProfileRef, generateExploratorySlidesFromContext]
   );
 
   // Generate exploratory follow-up slides based on the currently accepted slide
@@ -652,19 +991,13 @@ export function useRealtimeAPI() {
 
       acceptedSlidesRef.current.push(slideEntry);
 
-      // Keep first 2 slides as style references for consistency
-      // These establish the visual style that subsequent slides should follow
-      if (styleReferencesRef.current.length < 2) {
-        styleReferencesRef.current.push({
-          headline: slideEntry.headline,
-          visualDescription: slideEntry.visualDescription,
-          category: slideEntry.category,
-          slideNumber: acceptedSlidesRef.current.length,
-        });
-        console.log(
-          "Added style reference slide:",
-          styleReferencesRef.current.length
-        );
+      // The first accepted slides establish the visual style that
+      // subsequent slides follow, unless the presenter picked anchors
+      addAutoStyleReference(slide, acceptedSlidesRef.current.length);
+
+      // A chosen variant tells future generations which layout the presenter prefers
+      if (slide.variantStyle) {
+        addStylePreference(slide.variantStyle);
       }
 
       // When an audience question slide is accepted, generate exploratory follow-ups
@@ -682,7 +1015,7 @@ export function useRealtimeAPI() {
         "slides in history"
       );
     },
-    [generateAudienceFollowups, generateSlideFollowups]
+    [addAutoStyleReference, addStylePreference, generateAudienceFollowups, generateSlideFollowups]
   );
 
   // Record an accepted slide for context in future gate calls
@@ -771,6 +1104,7 @@ export function useRealtimeAPI() {
 
         recorder.start(250);
         setIsRecording(true);
+        startOutline();
       } catch (err) {
         console.error("Microphone access denied or failed:", err);
         setError("Microphone access denied");
@@ -794,8 +1128,17 @@ export function useRealtimeAPI() {
         if ((data.is_final || data.speech_final) && text.length > 5) {
           if (text === lastIdeaTextRef.current) return;
           lastIdeaTextRef.current = text;
+          lastSegmentAtRef.current = Date.now();
+          talkTranscriptRef.current = `${talkTranscriptRef.current} ${text}`
+            .trim()
+            .slice(-MAX_TALK_TRANSCRIPT_LENGTH);
+
+          if (modeRef.current === "fact-check") {
+            // Checked even while slide generation is paused
+            addTranscriptSegment(text);
+          }
 
-          if (modeRef.current === "gated") {
+          if (modeRef.current !== "stream-of-consciousness") {
             // Gated mode: accumulate transcript and check with gate
             fullTranscriptRef.current = fullTranscriptRef.current
               ? `${fullTranscriptRef.current} ${text}`
@@ -806,17 +1149,18 @@ export function useRealtimeAPI() {
               return;
             }
 
-            // Check with the gate when we have enough content
-            // Lower threshold (20 chars) - the gate decides if it's slide-worthy
-            // First slide (intro) needs even less content to trigger
-            const threshold = acceptedSlidesRef.current.length === 0 ? 20 : 30;
+            // Check with the gate when we have enough content; the gate decides if it's slide-worthy.
+            // The profile's sensitivity sets how much; the first slide (intro) needs less
+            const timings = getGateTimings(gateProfileRef.current);
+            const threshold =
+              acceptedSlidesRef.current.length === 0 ? timings.firstSlideMinChars : timings.minTranscriptChars;
             if (fullTranscriptRef.current.length > threshold) {
               if (gateDebounceTimeoutRef.current) {
                 clearTimeout(gateDebounceTimeoutRef.current);
               }
               gateDebounceTimeoutRef.current = setTimeout(() => {
                 void checkSlideGate(fullTranscriptRef.current);
-              }, GATE_DEBOUNCE_MS);
+              }, timings.debounceMs);
             }
           } else {
             // Stream-of-consciousness mode: generate slide immediately
@@ -842,7 +1186,7 @@ export function useRealtimeAPI() {
       setIsConnected(false);
       setIsRecording(false);
     });
-  }, [processIdea, checkSlideGate]);
+  }, [processIdea, checkSlideGate, addTranscriptSegment, gateProfileRef, startOutline]);
 
   const stop = useCallback(() => {
     if (recorderRef.current && recorderRef.current.state !== "inactive") {
@@ -874,6 +1218,12 @@ export function useRealtimeAPI() {
       presenterPrompts: [],
     };
     lastExploratoryGenerationRef.current = 0;
+    generations.abortAll();
+    cancelAllJobs();
+    isGatingRef.current = false;
+    gatingJobIdRef.current = null;
+    jobsPastGateRef.current = new Set();
+    appliedGateJobsRef.current = new Set();
 
     setIsConnected(false);
     setIsRecording(false);
@@ -887,11 +1237,28 @@ export function useRealtimeAPI() {
     lastGateCheckRef.current = "";
     priorIdeasRef.current = [];
     acceptedSlidesRef.current = [];
-    styleReferencesRef.current = [];
+    resetStyleReferences();
+    resetFactChecks();
+    resetOutlineProgress();
+    talkTranscriptRef.current = "";
+    lastGateSlideAtRef.current = 0;
+    lastSegmentAtRef.current = 0;
+    resetRecap();
     slideCounterRef.current = 0;
     generationPausedRef.current = false;
     setIsGenerationPaused(false);
-  }, [resetChannels]);
+  }, [cancelAllJobs, generations, resetChannels, resetStyleReferences, resetFactChecks, resetOutlineProgress, resetRecap]);
+
+  // Push a correction for a flagged claim straight into the exploratory channel
+  const createCorrectionSlide = useCallback(
+    async (claimId: string) => {
+      const claim = flaggedClaims.find((c) => c.id === claimId);
+      if (!claim) return;
+      dismissFactCheck(claimId);
+      await generateSlideImage(buildCorrectionSlideContent(claim), { skipCurator: true });
+    },
+    [dismissFactCheck, flaggedClaims, generateSlideImage]
+  );
 
   const clearSlideOptions = useCallback(() => {
     clearExploratoryChannel();
@@ -917,7 +1284,12 @@ export function useRealtimeAPI() {
     curatorStatus,
     mode,
     setMode,
+    fastMode,
+    setFastMode,
+    variantCount,
+    setVariantCount,
     setSessionAuth,
+    sessionStream,
     start,
     stop,
     clearSlideOptions,
@@ -940,8 +1312,43 @@ export function useRealtimeAPI() {
     getChannelSlide,
     getChannelInfo,
     takeSlideFromChannel,
+    navigateVariant,
     addToAudienceChannel,
+    updateAudienceVotes,
     isAnsweringQuestion,
     createExploratoryFromPrompt,
+    replaceChannelSlide,
+    // Per-slide revisions
+    reviseSlide,
+    isRevising,
+    revisionError,
+    getSlideVersions,
+    // Style anchors
+    styleAnchors,
+    toggleStyleAnchor,
+    // Fact-check mode
+    flaggedClaims,
+    isFactChecking,
+    dismissFactCheck,
+    createCorrectionSlide,
+    // Outline and section progress
+    outline,
+    setOutline,
+    currentSectionId,
+    sectionProgress,
+    enterSection,
+    // End-of-talk recap
+    isRecapping,
+    includeTakeaways,
+    toggleTakeaways,
+    createRecap,
+    // Server-side generation jobs
+    pendingJobs,
+    // Gate tuning
+    gateProfile,
+    setGateProfile,
+    gatePresets,
+    saveGatePreset,
+    deleteGatePreset,
   };
 }
@@ -0,0 +1,92 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Generation } from "@/lib/generations";
+import type { SlideHistoryEntry } from "@/types/realtime";
+import type { RecapSlideContent } from "@/lib/recap";
+
+interface UseRecapOptions {
+  acceptedSlidesRef: React.MutableRefObject<SlideHistoryEntry[]>;
+  talkTranscriptRef: React.MutableRefObject<string>;
+  generateRecapSlide: (content: RecapSlideContent, generation: Generation) => Promise<void>;
+  // Registers each recap so stopping the presentation cancels it
+  startGeneration: () => Generation;
+}
+
+export function useRecap({
+  acceptedSlidesRef,
+  talkTranscriptRef,
+  generateRecapSlide,
+  startGeneration,
+}: UseRecapOptions) {
+  const [isRecapping, setIsRecapping] = useState(false);
+  const [includeTakeaways, setIncludeTakeaways] = useState(false);
+  const includeTakeawaysRef = useRef(includeTakeaways);
+  // The recap in flight, if any
+  const recapGenerationRef = useRef<Generation | null>(null);
+  // Slide count at the last automatic recap; "any questions?" twice in a row recaps once
+  const lastAutoRecapCountRef = useRef(-1);
+
+  const toggleTakeaways = useCallback(() => {
+    includeTakeawaysRef.current = !includeTakeawaysRef.current;
+    setIncludeTakeaways(includeTakeawaysRef.current);
+  }, []);
+
+  const createRecap = useCallback(
+    async ({ auto = false }: { auto?: boolean } = {}) => {
+      const slideCount = acceptedSlidesRef.current.length;
+      if (auto && slideCount === lastAutoRecapCountRef.current) return;
+      if (auto) lastAutoRecapCountRef.current = slideCount;
+
+      // A newer recap covers more of the talk, so it replaces one still in flight
+      recapGenerationRef.current?.cancel();
+      const generation = startGeneration();
+      recapGenerationRef.current = generation;
+      setIsRecapping(true);
+      try {
+        const response = await fetch("/api/recap", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            acceptedSlides: acceptedSlidesRef.current,
+            transcript: talkTranscriptRef.current,
+            includeTakeaways: includeTakeawaysRef.current,
+          }),
+          signal: generation.signal,
+        });
+        if (!response.ok) {
+          console.error("Recap failed:", await response.text());
+          return;
+        }
+
+        const data = await response.json();
+        for (const slide of (data.slides || []) as RecapSlideContent[]) {
+          if (generation.isCancelled()) return;
+          await generateRecapSlide(slide, generation);
+        }
+      } catch (err) {
+        if (!generation.isCancelled()) {
+          console.error("Recap failed:", err);
+        }
+      } finally {
+        generation.finish();
+        if (recapGenerationRef.current === generation) {
+          recapGenerationRef.current = null;
+          setIsRecapping(false);
+        }
+      }
+    },
+    [acceptedSlidesRef, generateRecapSlide, startGeneration, talkTranscriptRef]
+  );
+
+  // A recap finishing after the presenter view is gone has nowhere to go
+  useEffect(() => {
+    return () => recapGenerationRef.current?.cancel();
+  }, []);
+
+  const resetRecap = useCallback(() => {
+    lastAutoRecapCountRef.current = -1;
+  }, []);
+
+  return { isRecapping, includeTakeaways, toggleTakeaways, createRecap, resetRecap };
+}
@@ -0,0 +1,100 @@
+"use client";
+
+import { useMemo } from "react";
+
+// One parsed event from the session stream; `type` says what it carries
+export interface SessionStreamMessage {
+  type: string;
+  [key: string]: unknown;
+}
+
+export interface SessionStreamListener {
+  onMessage: (message: SessionStreamMessage) => void;
+  onOpen?: () => void;
+  // `closed` means the browser stopped reconnecting
+  onError?: (closed: boolean) => void;
+}
+
+export interface SessionStream {
+  /**
+   * Adds a listener; the connection opens with the first one and closes with the last
+   * Returns a function that removes the listener
+   */
+  subscribe(listener: SessionStreamListener): () => void;
+}
+
+function createSessionStream(url: string): SessionStream {
+  const listeners = new Set<SessionStreamListener>();
+  let eventSource: EventSource | null = null;
+  let isOpen = false;
+
+  const connect = () => {
+    const source = new EventSource(url);
+
+    source.onopen = () => {
+      console.log("Session stream connected");
+      isOpen = true;
+      listeners.forEach((listener) => listener.onOpen?.());
+    };
+
+    source.onmessage = (event) => {
+      let message: SessionStreamMessage;
+      try {
+        message = JSON.parse(event.data);
+      } catch (err) {
+        console.error("Error parsing session stream event:", err);
+        return;
+      }
+      listeners.forEach((listener) => listener.onMessage(message));
+    };
+
+    // EventSource reconnects by itself unless it reports CLOSED
+    source.onerror = (err) => {
+      console.error("Session stream error:", err);
+      isOpen = false;
+      const closed = source.readyState === EventSource.CLOSED;
+      listeners.forEach((listener) => listener.onError?.(closed));
+    };
+
+    return source;
+  };
+
+  return {
+    subscribe(listener) {
+      listeners.add(listener);
+      if (!eventSource) {
+        eventSource = connect();
+      } else if (isOpen) {
+        listener.onOpen?.();
+      }
+
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0 && eventSource) {
+          console.log("Closing session stream");
+          eventSource.close();
+          eventSource = null;
+          isOpen = false;
+        }
+      };
+    },
+  };
+}
+
+/**
+ * The presenter's connection to the session stream (feedback, moderation and
+ * generation jobs). Every hook that needs those events subscribes to this one
+ * connection instead of opening its own.
+ */
+export function useSessionStream(
+  sessionId: string | null,
+  presenterToken: string | null
+): SessionStream | null {
+  return useMemo(() => {
+    if (!sessionId || !presenterToken) return null;
+    // The stream is presenter-only, and EventSource can't send an Authorization header
+    return createSessionStream(
+      `/api/sessions/${sessionId}/stream?token=${encodeURIComponent(presenterToken)}`
+    );
+  }, [presenterToken, sessionId]);
+}
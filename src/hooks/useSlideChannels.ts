@@ -1,7 +1,8 @@
 "use client";
 
-import { useCallback, useState } from "react";
+import { useCallback, useRef, useState } from "react";
 import type { SlideData } from "@/types/slides";
+import { chooseSlideVariant, selectSlideVariant } from "@/lib/slideVariants";
 
 export type ChannelType = "exploratory" | "audience" | "slides";
 
@@ -12,8 +13,36 @@ export interface ChannelState {
 
 export type SlideOptions = [SlideData | null, SlideData | null];
 
+export interface CuratorDecision {
+  action: "replace_slot_1" | "replace_slot_2" | "discard";
+  reasoning: string;
+}
+
 const initialChannelState: ChannelState = { queue: [], currentIndex: 0 };
 
+const MAX_EXPLORATORY_SLIDES = 10;
+
+// How much the audience-question gate's priority counts, in upvotes
+const PRIORITY_WEIGHT: Record<NonNullable<SlideData["priority"]>, number> = {
+  high: 3,
+  normal: 0,
+  low: -2,
+};
+
+function audienceScore(slide: SlideData): number {
+  return (slide.votes ?? 0) + PRIORITY_WEIGHT[slide.priority ?? "normal"];
+}
+
+// Highest score first; keeps arrival order among ties and the current slide selected
+function sortAudienceChannel(queue: SlideData[], currentId: string | null): ChannelState {
+  const sorted = queue
+    .map((slide, index) => ({ slide, index }))
+    .sort((a, b) => audienceScore(b.slide) - audienceScore(a.slide) || a.index - b.index)
+    .map(({ slide }) => slide);
+  const currentIndex = currentId ? sorted.findIndex((s) => s.id === currentId) : 0;
+  return { queue: sorted, currentIndex: Math.max(0, currentIndex) };
+}
+
 export function useSlideChannels() {
   const [exploratoryChannel, setExploratoryChannel] =
     useState<ChannelState>(initialChannelState);
@@ -28,7 +57,7 @@ export function useSlideChannels() {
     const slideWithSource = { ...newSlide, source: "exploratory" as const };
     setExploratoryChannel((prev) => {
       const currentSlide = prev.queue[prev.currentIndex] ?? null;
-      const newQueue = [slideWithSource, ...prev.queue].slice(0, 10);
+      const newQueue = [slideWithSource, ...prev.queue].slice(0, MAX_EXPLORATORY_SLIDES);
 
       const newIndex = currentSlide
         ? Math.max(0, newQueue.findIndex((s) => s.id === currentSlide.id))
@@ -42,6 +71,40 @@ export function useSlideChannels() {
     console.log("Added slide to exploratory channel");
   }, []);
 
+  // Put a new exploratory slide where the curator decided, relative to the
+  // options it was shown; those may have moved or been used in the meantime
+  const applyCuratorDecision = useCallback(
+    (newSlide: SlideData, decision: CuratorDecision, shownOptions: SlideOptions) => {
+      if (decision.action === "discard") {
+        console.log("Curator discarded slide:", decision.reasoning);
+        return;
+      }
+
+      const slot = decision.action === "replace_slot_1" ? 0 : 1;
+      const replacedId = shownOptions[slot]?.id ?? null;
+      const slideWithSource = {
+        ...newSlide,
+        source: "exploratory" as const,
+        curatorReasoning: decision.reasoning,
+      };
+
+      setExploratoryChannel((prev) => {
+        const queue = [...prev.queue];
+        const replacedIndex = replacedId ? queue.findIndex((s) => s.id === replacedId) : -1;
+
+        if (replacedIndex === -1) {
+          // The slot was empty or its slide is gone, so fill the slot instead
+          queue.splice(Math.min(prev.currentIndex + slot, queue.length), 0, slideWithSource);
+        } else {
+          queue[replacedIndex] = slideWithSource;
+        }
+
+        return { ...prev, queue: queue.slice(0, MAX_EXPLORATORY_SLIDES) };
+      });
+    },
+    []
+  );
+
   const navigateChannel = useCallback(
     (channel: ChannelType, direction: "prev" | "next") => {
       const setChannel =
@@ -124,11 +187,35 @@ export function useSlideChannels() {
         return { queue: newQueue, currentIndex: newIndex };
       });
 
-      return slide;
+      return chooseSlideVariant(slide);
     },
     [exploratoryChannel, audienceChannel, slidesChannel]
   );
 
+  // Cycle through the variants grouped in the selected entry
+  const navigateVariant = useCallback(
+    (channel: ChannelType, direction: "prev" | "next") => {
+      const setChannel =
+        channel === "exploratory"
+          ? setExploratoryChannel
+          : channel === "audience"
+          ? setAudienceChannel
+          : setSlidesChannel;
+
+      setChannel((prev) => {
+        const entry = prev.queue[prev.currentIndex];
+        if (!entry?.variants) return prev;
+        const index = (entry.variantIndex ?? 0) + (direction === "prev" ? -1 : 1);
+        if (index < 0 || index >= entry.variants.length) return prev;
+
+        const queue = [...prev.queue];
+        queue[prev.currentIndex] = selectSlideVariant(entry, index);
+        return { ...prev, queue };
+      });
+    },
+    []
+  );
+
   const removeSlideOption = useCallback((id: string) => {
     setExploratoryChannel((prev) => {
       const removedIndex = prev.queue.findIndex((s) => s.id === id);
@@ -144,11 +231,59 @@ export function useSlideChannels() {
     });
   }, []);
 
+  // Swap a slide for another version of itself without moving the selection
+  const replaceChannelSlide = useCallback(
+    (channel: ChannelType, slideId: string, slide: SlideData) => {
+      const setChannel =
+        channel === "exploratory"
+          ? setExploratoryChannel
+          : channel === "audience"
+          ? setAudienceChannel
+          : setSlidesChannel;
+
+      setChannel((prev) => {
+        if (!prev.queue.some((s) => s.id === slideId)) return prev;
+        return {
+          ...prev,
+          queue: prev.queue.map((s) => (s.id === slideId ? slide : s)),
+        };
+      });
+    },
+    []
+  );
+
+  const audienceVotesRef = useRef<Record<string, number>>({});
+
   const appendAudienceSlide = useCallback((slide: SlideData) => {
-    setAudienceChannel((prev) => ({
-      ...prev,
-      queue: [...prev.queue, slide],
-    }));
+    const votes = slide.feedbackId
+      ? audienceVotesRef.current[slide.feedbackId] ?? slide.votes
+      : slide.votes;
+    setAudienceChannel((prev) => {
+      const currentSlide = prev.queue[prev.currentIndex] ?? null;
+      return sortAudienceChannel(
+        [...prev.queue, { ...slide, votes }],
+        currentSlide?.id ?? null
+      );
+    });
+  }, []);
+
+  // Apply the latest upvote counts (keyed by feedback ID) and re-rank the audience channel
+  const updateAudienceVotes = useCallback((votes: Record<string, number>) => {
+    audienceVotesRef.current = votes;
+    setAudienceChannel((prev) => {
+      const changed = prev.queue.some(
+        (s) => s.feedbackId && votes[s.feedbackId] !== undefined && votes[s.feedbackId] !== s.votes
+      );
+      if (!changed) return prev;
+
+      const currentSlide = prev.queue[prev.currentIndex] ?? null;
+      const queue = prev.queue.map((s) =>
+        s.feedbackId && votes[s.feedbackId] !== undefined
+          ? { ...s, votes: votes[s.feedbackId] }
+          : s
+      );
+      return sortAudienceChannel(queue, currentSlide?.id ?? null);
+    });
   }, []);
 
   const appendSlidesToSlidesChannel = useCallback((slides: SlideData[]) => {
@@ -228,12 +363,16 @@ export function useSlideChannels() {
     slideOptions,
     uploadedSlides,
     addToExploratoryChannel,
+    applyCuratorDecision,
     navigateChannel,
     getChannelSlide,
     getChannelInfo,
     takeSlideFromChannel,
+    navigateVariant,
     removeSlideOption,
+    replaceChannelSlide,
     appendAudienceSlide,
+    updateAudienceVotes,
     appendSlidesToSlidesChannel,
     useUploadedSlide,
     getNextUploadedSlide,
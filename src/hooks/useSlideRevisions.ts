@@ -0,0 +1,100 @@
+"use client";
+
+import { useCallback, useRef, useState } from "react";
+import {
+  addSlideVersion,
+  buildSlideRevision,
+  emptySlideVersions,
+  getSlideVersions,
+  type SlideVersionState,
+} from "@/lib/slideVersions";
+import type { SlideData } from "@/types/slides";
+import type { StyleReference } from "@/types/realtime";
+
+interface UseSlideRevisionsOptions {
+  styleReferencesRef: React.MutableRefObject<StyleReference[]>;
+  sessionAuthRef: React.MutableRefObject<{ sessionId: string | null }>;
+  fastModeRef: React.MutableRefObject<boolean>;
+}
+
+export function useSlideRevisions({
+  styleReferencesRef,
+  sessionAuthRef,
+  fastModeRef,
+}: UseSlideRevisionsOptions) {
+  const [versions, setVersions] = useState<SlideVersionState>(emptySlideVersions);
+  const [isRevising, setIsRevising] = useState(false);
+  const [revisionError, setRevisionError] = useState<string | null>(null);
+  const versionsRef = useRef<SlideVersionState>(versions);
+  versionsRef.current = versions;
+
+  // Regenerates the slide with the instruction applied and records it as a new version
+  const reviseSlide = useCallback(
+    async (slide: SlideData, instruction: string): Promise<SlideData | null> => {
+      const trimmedInstruction = instruction.trim();
+      if (!trimmedInstruction) return null;
+
+      setIsRevising(true);
+      setRevisionError(null);
+      try {
+        const response = await fetch("/api/gemini", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            slideContent: {
+              headline: slide.headline || slide.originalIdea?.title || "Untitled",
+              subheadline: slide.subheadline,
+              bullets: slide.bullets,
+              visualDescription: slide.visualDescription || "",
+              category: slide.originalIdea?.category || "concept",
+              sourceTranscript: slide.originalIdea?.content || "",
+            },
+            revision: {
+              instruction: trimmedInstruction,
+              previousImageUrl: slide.imageUrl,
+            },
+            styleReferences: styleReferencesRef.current,
+            sessionId: sessionAuthRef.current.sessionId,
+            renderMode: fastModeRef.current ? "template" : "image",
+          }),
+        });
+
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok || !data.slide) {
+          setRevisionError(data.error || "Failed to revise slide");
+          return null;
+        }
+
+        const revision = buildSlideRevision(
+          versionsRef.current,
+          slide,
+          data.slide as SlideData,
+          trimmedInstruction
+        );
+        const next = addSlideVersion(versionsRef.current, slide, revision);
+        versionsRef.current = next;
+        setVersions(next);
+        return revision;
+      } catch (err) {
+        console.error("Failed to revise slide:", err);
+        setRevisionError("Failed to revise slide");
+        return null;
+      } finally {
+        setIsRevising(false);
+      }
+    },
+    [fastModeRef, sessionAuthRef, styleReferencesRef]
+  );
+
+  const getVersions = useCallback(
+    (slideId: string): SlideData[] => getSlideVersions(versions, slideId),
+    [versions]
+  );
+
+  return {
+    isRevising,
+    revisionError,
+    reviseSlide,
+    getVersions,
+  };
+}
@@ -3,16 +3,15 @@
 import { useCallback, useState } from "react";
 import { convertFilesToImages } from "@/utils/slideConverter";
 import type { SlideData } from "@/types/slides";
-import type { StyleReference } from "@/types/realtime";
 
 interface UseSlideUploadsOptions {
   appendSlidesToSlidesChannel: (slides: SlideData[]) => void;
-  styleReferencesRef: React.MutableRefObject<StyleReference[]>;
+  addAutoStyleReference: (slide: SlideData, slideNumber: number) => void;
 }
 
 export function useSlideUploads({
   appendSlidesToSlidesChannel,
-  styleReferencesRef,
+  addAutoStyleReference,
 }: UseSlideUploadsOptions) {
   const [isUploadingSlides, setIsUploadingSlides] = useState(false);
   const [uploadProgress, setUploadProgress] = useState<string>("");
@@ -64,27 +63,9 @@ export function useSlideUploads({
 
             appendSlidesToSlidesChannel(slidesWithSource);
 
-            const slidesToUseAsStyle = slidesWithSource.slice(0, 2);
-            slidesToUseAsStyle.forEach((slide: SlideData, index: number) => {
-              if (styleReferencesRef.current.length < 2) {
-                styleReferencesRef.current.push({
-                  headline:
-                    slide.headline ||
-                    slide.originalIdea?.title ||
-                    "Uploaded Slide",
-                  visualDescription:
-                    slide.visualDescription ||
-                    slide.originalIdea?.content ||
-                    "",
-                  category:
-                    slide.originalIdea?.category || "uploaded",
-                  slideNumber: index + 1,
-                });
-                console.log(
-                  "Set uploaded slide as style reference:",
-                  styleReferencesRef.current.length
-                );
-              }
+            // The uploaded deck's own slides are the best style reference
+            slidesWithSource.slice(0, 2).forEach((slide: SlideData, index: number) => {
+              addAutoStyleReference(slide, index + 1);
             });
 
             setUploadProgress("");
@@ -109,7 +90,7 @@ export function useSlideUploads({
         setTimeout(() => setUploadProgress(""), 3000);
       }
     },
-    [appendSlidesToSlidesChannel, styleReferencesRef]
+    [addAutoStyleReference, appendSlidesToSlidesChannel]
   );
 
   return {
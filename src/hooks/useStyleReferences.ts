@@ -0,0 +1,112 @@
+"use client";
+
+import { useCallback, useRef, useState } from "react";
+import { downscaleImage } from "@/utils/imageDownscale";
+import type { SlideData } from "@/types/slides";
+import type { StyleReference } from "@/types/realtime";
+
+// The first accepted slides set the style until the presenter picks anchors
+const AUTO_STYLE_REFERENCES = 2;
+const MAX_STYLE_ANCHORS = 3;
+const MAX_STYLE_PREFERENCES = 3;
+
+function toStyleReference(slide: SlideData, slideNumber: number): StyleReference {
+  return {
+    slideId: slide.id,
+    headline: slide.headline || slide.originalIdea?.title || "Untitled",
+    visualDescription: slide.visualDescription || slide.originalIdea?.content || "",
+    category: slide.originalIdea?.category || (slide.isUploaded ? "uploaded" : "concept"),
+    slideNumber,
+  };
+}
+
+/**
+ * Slides whose look every new slide should copy. Each reference keeps a
+ * downscaled copy of the slide image for the image model.
+ */
+export function useStyleReferences() {
+  const styleReferencesRef = useRef<StyleReference[]>([]);
+  const [styleAnchors, setStyleAnchors] = useState<StyleReference[]>([]);
+  const pickedManuallyRef = useRef(false);
+  // Layout directions of variants the presenter chose, most recent last
+  const stylePreferencesRef = useRef<string[]>([]);
+
+  const commit = useCallback((references: StyleReference[]) => {
+    styleReferencesRef.current = references;
+    setStyleAnchors(references);
+  }, []);
+
+  // The image arrives after the reference is in place; requests sent meanwhile use the text only
+  const attachImage = useCallback(
+    (slide: SlideData) => {
+      if (!slide.imageUrl) return;
+      void downscaleImage(slide.imageUrl).then((imageDataUrl) => {
+        if (!imageDataUrl) return;
+        commit(
+          styleReferencesRef.current.map((reference) =>
+            reference.slideId === slide.id ? { ...reference, imageDataUrl } : reference
+          )
+        );
+      });
+    },
+    [commit]
+  );
+
+  const addAutoStyleReference = useCallback(
+    (slide: SlideData, slideNumber: number) => {
+      // Poll results are drawn natively, so they have no style to copy
+      if (pickedManuallyRef.current || slide.poll) return;
+      const references = styleReferencesRef.current;
+      if (references.length >= AUTO_STYLE_REFERENCES) return;
+      if (references.some((reference) => reference.slideId === slide.id)) return;
+
+      commit([...references, toStyleReference(slide, slideNumber)]);
+      attachImage(slide);
+      console.log("Added style reference slide:", references.length + 1);
+    },
+    [attachImage, commit]
+  );
+
+  // Presenter control: adding past the limit drops the oldest anchor
+  const toggleStyleAnchor = useCallback(
+    (slide: SlideData, slideNumber: number) => {
+      if (slide.poll) return;
+      pickedManuallyRef.current = true;
+
+      const references = styleReferencesRef.current;
+      if (references.some((reference) => reference.slideId === slide.id)) {
+        commit(references.filter((reference) => reference.slideId !== slide.id));
+        return;
+      }
+      commit([
+        ...references.slice(-(MAX_STYLE_ANCHORS - 1)),
+        toStyleReference(slide, slideNumber),
+      ]);
+      attachImage(slide);
+    },
+    [attachImage, commit]
+  );
+
+  const addStylePreference = useCallback((variantStyle: string) => {
+    stylePreferencesRef.current = [
+      ...stylePreferencesRef.current.filter((preference) => preference !== variantStyle),
+      variantStyle,
+    ].slice(-MAX_STYLE_PREFERENCES);
+  }, []);
+
+  const resetStyleReferences = useCallback(() => {
+    pickedManuallyRef.current = false;
+    stylePreferencesRef.current = [];
+    commit([]);
+  }, [commit]);
+
+  return {
+    styleReferencesRef,
+    styleAnchors,
+    addAutoStyleReference,
+    toggleStyleAnchor,
+    stylePreferencesRef,
+    addStylePreference,
+    resetStyleReferences,
+  };
+}
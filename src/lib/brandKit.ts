@@ -0,0 +1,149 @@
+import type { BrandKit, LogoPlacement } from "@/types/brandKit";
+import type { SlidePalette } from "@/lib/slideRenderer";
+
+export const LOGO_PLACEMENTS: LogoPlacement[] = ["top-left", "top-right", "bottom-left", "bottom-right"];
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+// Raster only, so the logo can be attached to image-model prompts as-is
+const LOGO_DATA_URL = /^data:image\/(png|jpeg|webp);base64,([A-Za-z0-9+/=]+)$/;
+const MAX_LOGO_BYTES = 200 * 1024;
+const MAX_FONT_LENGTH = 60;
+const MAX_TONE_KEYWORDS = 8;
+const MAX_KEYWORD_LENGTH = 30;
+
+// Size of the image a base64 data URL holds
+function decodedLength(base64: string): number {
+  const padding = base64.endsWith("==") ? 2 : base64.endsWith("=") ? 1 : 0;
+  return Math.floor((base64.length * 3) / 4) - padding;
+}
+
+export type BrandKitParseResult =
+  | { brandKit: BrandKit; error?: undefined }
+  | { brandKit?: undefined; error: string };
+
+/**
+ * Validates a brand kit from a request body, dropping empty optional fields
+ */
+export function parseBrandKit(input: unknown): BrandKitParseResult {
+  if (!input || typeof input !== "object") {
+    return { error: "Brand kit must be an object" };
+  }
+  const raw = input as Record<string, unknown>;
+  const rawColors = (raw.colors ?? {}) as Record<string, unknown>;
+
+  const colors: Record<string, string> = {};
+  for (const key of ["primary", "secondary", "accent", "background", "text"]) {
+    const value = rawColors[key];
+    if (value === undefined || value === "") {
+      if (key === "accent") continue;
+      return { error: `colors.${key} is required` };
+    }
+    if (typeof value !== "string" || !HEX_COLOR.test(value)) {
+      return { error: `colors.${key} must be a hex color` };
+    }
+    colors[key] = value.toLowerCase();
+  }
+
+  const brandKit: BrandKit = {
+    colors: {
+      primary: colors.primary,
+      secondary: colors.secondary,
+      accent: colors.accent,
+      background: colors.background,
+      text: colors.text,
+    },
+  };
+
+  if (typeof raw.name === "string" && raw.name.trim()) {
+    brandKit.name = raw.name.trim().slice(0, 80);
+  }
+
+  const rawFonts = (raw.fonts ?? {}) as Record<string, unknown>;
+  const fonts: NonNullable<BrandKit["fonts"]> = {};
+  for (const key of ["heading", "body"] as const) {
+    const value = rawFonts[key];
+    if (value === undefined || value === "") continue;
+    if (typeof value !== "string" || value.length > MAX_FONT_LENGTH || /[<>";{}]/.test(value)) {
+      return { error: `fonts.${key} must be a font name` };
+    }
+    fonts[key] = value.trim();
+  }
+  if (fonts.heading || fonts.body) brandKit.fonts = fonts;
+
+  if (raw.logo) {
+    const logo = raw.logo as Record<string, unknown>;
+    const match = typeof logo.dataUrl === "string" ? LOGO_DATA_URL.exec(logo.dataUrl) : null;
+    if (!match || decodedLength(match[2]) > MAX_LOGO_BYTES) {
+      return { error: `logo must be a PNG, JPEG or WebP image under ${MAX_LOGO_BYTES / 1024}KB` };
+    }
+    const placement = LOGO_PLACEMENTS.includes(logo.placement as LogoPlacement)
+      ? (logo.placement as LogoPlacement)
+      : "bottom-right";
+    brandKit.logo = { dataUrl: match[0], placement };
+  }
+
+  if (raw.toneKeywords !== undefined) {
+    if (!Array.isArray(raw.toneKeywords)) {
+      return { error: "toneKeywords must be an array of strings" };
+    }
+    const keywords = raw.toneKeywords
+      .filter((keyword): keyword is string => typeof keyword === "string")
+      .map((keyword) => keyword.trim().slice(0, MAX_KEYWORD_LENGTH))
+      .filter(Boolean)
+      .slice(0, MAX_TONE_KEYWORDS);
+    if (keywords.length > 0) brandKit.toneKeywords = keywords;
+  }
+
+  return { brandKit };
+}
+
+/**
+ * Prompt section that pins generated slide images to the brand
+ */
+export function buildBrandKitPrompt(brandKit: BrandKit): string {
+  const { colors, fonts, logo, toneKeywords, name } = brandKit;
+  const lines = [
+    `BRAND GUIDELINES${name ? ` (${name})` : ""} - these override any other style direction:`,
+    `- Use only the brand colors: primary ${colors.primary}, secondary ${colors.secondary}${colors.accent ? `, accent ${colors.accent}` : ""}, background ${colors.background}, text ${colors.text}`,
+  ];
+  if (fonts?.heading || fonts?.body) {
+    lines.push(
+      `- Typography: ${[
+        fonts.heading && `headings in ${fonts.heading}`,
+        fonts.body && `body text in ${fonts.body}`,
+      ]
+        .filter(Boolean)
+        .join(", ")}`
+    );
+  }
+  if (toneKeywords?.length) {
+    lines.push(`- Tone: ${toneKeywords.join(", ")}`);
+  }
+  if (logo) {
+    lines.push(
+      `- Place the attached brand logo small in the ${logo.placement.replace("-", " ")} corner, unaltered`
+    );
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Splits the logo data URL into the inline image part the image model takes
+ */
+export function getLogoInlineData(brandKit: BrandKit): { mimeType: string; data: string } | null {
+  const match = brandKit.logo?.dataUrl.match(LOGO_DATA_URL);
+  return match ? { mimeType: `image/${match[1]}`, data: match[2] } : null;
+}
+
+// Maps the brand colors onto the template renderer's palette slots
+export function getBrandKitPalette(brandKit: BrandKit): SlidePalette {
+  const { colors } = brandKit;
+  return {
+    background: colors.background,
+    surface: colors.secondary,
+    primary: colors.primary,
+    accent: colors.accent ?? colors.primary,
+    text: colors.text,
+    mutedText: colors.text,
+  };
+}
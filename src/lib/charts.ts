@@ -0,0 +1,68 @@
+import type { ChartData, ChartSeries, ChartType } from "@/types/chart";
+
+export const CHART_TYPES: ChartType[] = ["bar", "line", "pie"];
+
+const MAX_CHART_LABELS = 12;
+const MAX_CHART_SERIES = 4;
+const MAX_LABEL_LENGTH = 40;
+const MAX_UNIT_LENGTH = 12;
+const CURRENCY_UNITS = ["$", "€", "£", "¥"];
+
+// Models sometimes send numbers as strings ("12.5")
+function toNumber(value: unknown): number | null {
+  const number = typeof value === "string" && value.trim() ? Number(value) : value;
+  return typeof number === "number" && Number.isFinite(number) ? number : null;
+}
+
+/**
+ * Validates chart data from the gate or a request body. Returns null unless
+ * there is at least one complete series over two or more labels.
+ */
+export function parseChartData(input: unknown): ChartData | null {
+  if (!input || typeof input !== "object") return null;
+  const { type, labels, series, unit } = input as Record<string, unknown>;
+
+  if (!CHART_TYPES.includes(type as ChartType)) return null;
+  if (!Array.isArray(labels) || labels.length < 2 || labels.length > MAX_CHART_LABELS) return null;
+  if (!labels.every((label) => typeof label === "string" && label.trim())) return null;
+  if (!Array.isArray(series)) return null;
+
+  const validSeries: ChartSeries[] = [];
+  for (const item of series) {
+    if (validSeries.length >= MAX_CHART_SERIES) break;
+    const { name, values } = (item ?? {}) as Record<string, unknown>;
+    if (!Array.isArray(values) || values.length !== labels.length) continue;
+    const numbers = values.map(toNumber);
+    if (numbers.some((value) => value === null)) continue;
+    validSeries.push({
+      name: typeof name === "string" ? name.trim().slice(0, MAX_LABEL_LENGTH) : "",
+      values: numbers as number[],
+    });
+  }
+  if (validSeries.length === 0) return null;
+
+  const chartType = type as ChartType;
+  if (chartType === "pie") {
+    // A pie shows one series of shares
+    const [first] = validSeries;
+    if (first.values.some((value) => value < 0) || first.values.every((value) => value === 0)) {
+      return null;
+    }
+    validSeries.splice(1);
+  }
+
+  return {
+    type: chartType,
+    labels: (labels as string[]).map((label) => label.trim().slice(0, MAX_LABEL_LENGTH)),
+    series: validSeries,
+    unit: typeof unit === "string" && unit.trim() ? unit.trim().slice(0, MAX_UNIT_LENGTH) : undefined,
+  };
+}
+
+export function formatChartValue(value: number, unit?: string): string {
+  const number = value.toLocaleString("en-US", { maximumFractionDigits: 2 });
+  if (!unit) return number;
+  if (unit === "%") return `${number}%`;
+  if (CURRENCY_UNITS.includes(unit)) return value < 0 ? `-${unit}${number.slice(1)}` : `${unit}${number}`;
+  return `${number} ${unit}`;
+}
@@ -0,0 +1,67 @@
+import type { SlideData, SlideSource } from "@/types/slides";
+
+export const MAX_SLIDE_SOURCES = 5;
+
+/**
+ * Keeps only well-formed http(s) sources, deduplicated by URL and capped, so
+ * model output and request bodies can be passed through safely.
+ */
+export function normalizeSources(input: unknown, limit = MAX_SLIDE_SOURCES): SlideSource[] {
+  if (!Array.isArray(input)) return [];
+
+  const sources: SlideSource[] = [];
+  const seen = new Set<string>();
+  for (const item of input) {
+    if (sources.length >= limit) break;
+    const { title, url } = (item ?? {}) as { title?: unknown; url?: unknown };
+    if (typeof url !== "string" || seen.has(url)) continue;
+
+    let hostname: string;
+    try {
+      const parsed = new URL(url);
+      if (parsed.protocol !== "http:" && parsed.protocol !== "https:") continue;
+      hostname = parsed.hostname.replace(/^www\./, "");
+    } catch {
+      continue;
+    }
+
+    seen.add(url);
+    sources.push({
+      title: typeof title === "string" && title.trim() ? title.trim().slice(0, 200) : hostname,
+      url,
+    });
+  }
+  return sources;
+}
+
+// Every source cited on the given slides, in the order they were first shown
+export function collectSessionSources(slides: SlideData[]): SlideSource[] {
+  return normalizeSources(
+    slides.flatMap((slide) => (slide.source === "references" ? [] : slide.sources ?? [])),
+    Infinity
+  );
+}
+
+/**
+ * Builds the closing slide listing every cited source. SlideCanvas draws the
+ * list natively from `sources`. Returns null when nothing was cited.
+ */
+export function buildReferencesSlide(slides: SlideData[]): SlideData | null {
+  const sources = collectSessionSources(slides);
+  if (sources.length === 0) return null;
+
+  return {
+    id: "references",
+    headline: "References",
+    subheadline: `${sources.length} source${sources.length === 1 ? "" : "s"} cited in this session`,
+    visualDescription: "List of the sources cited in this presentation",
+    source: "references",
+    sources,
+    originalIdea: {
+      title: "References",
+      content: sources.map((source) => `${source.title} (${source.url})`).join("\n"),
+      category: "summary",
+    },
+    timestamp: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,163 @@
+import type {
+  Diagram,
+  DiagramEdge,
+  DiagramNode,
+  DiagramNodeShape,
+  Flowchart,
+  SequenceDiagram,
+} from "@/types/diagram";
+
+/**
+ * Parser for a small Mermaid-style diagram language:
+ *
+ *   flowchart LR                 sequenceDiagram
+ *   A[Client] --> B(API)         participant U as User
+ *   B -->|reads| C{Cache hit?}   U->>S: Request
+ *   C -.-> D[(Database)]         S-->>U: Response
+ *
+ * Anything outside this subset is reported with its line number so the
+ * presenter can fix it in the editor.
+ */
+
+export const MAX_DIAGRAM_SOURCE_LENGTH = 2000;
+const MAX_FLOWCHART_NODES = 15;
+const MAX_FLOWCHART_EDGES = 25;
+const MAX_SEQUENCE_PARTICIPANTS = 6;
+const MAX_SEQUENCE_MESSAGES = 12;
+const MAX_LABEL_LENGTH = 60;
+
+export type DiagramParseResult = { diagram: Diagram } | { error: string };
+
+const NODE_PATTERN = /^([A-Za-z0-9_]+)\s*(\[\(([^\])]*)\)\]|\[([^\]]*)\]|\(([^)]*)\)|\{([^}]*)\})?/;
+const EDGE_PATTERN = /^\s*(-\.->|==>|-->|---)\s*(?:\|([^|]*)\|)?\s*/;
+const MESSAGE_PATTERN = /^([A-Za-z0-9_]+)\s*(-->>|->>|-->|->)\s*([A-Za-z0-9_]+)\s*:\s*(.*)$/;
+const PARTICIPANT_PATTERN = /^(?:participant|actor)\s+([A-Za-z0-9_]+)(?:\s+as\s+(.+))?$/i;
+
+function cleanLabel(label: string): string {
+  return label.trim().replace(/^"(.*)"$/, "$1").trim().slice(0, MAX_LABEL_LENGTH);
+}
+
+// Non-empty lines without %% comments, with their 1-based line numbers
+function sourceLines(source: string): { text: string; number: number }[] {
+  return source
+    .split(/\r?\n/)
+    .map((line, i) => ({ text: line.replace(/%%.*$/, "").trim(), number: i + 1 }))
+    .filter((line) => line.text);
+}
+
+function parseFlowchart(lines: { text: string; number: number }[], header: string): DiagramParseResult {
+  const direction = /\b(LR|RL)\b/i.test(header) ? "LR" : "TB";
+  const nodes = new Map<string, DiagramNode>();
+  const edges: DiagramEdge[] = [];
+
+  const readNode = (text: string): { node: DiagramNode; rest: string } | null => {
+    const match = text.match(NODE_PATTERN);
+    if (!match) return null;
+    const [whole, id, , cylinder, rect, round, diamond] = match;
+    const label = cylinder ?? rect ?? round ?? diamond;
+    const shape: DiagramNodeShape =
+      diamond !== undefined ? "diamond" : round !== undefined || cylinder !== undefined ? "round" : "rect";
+
+    // The first labelled mention of a node defines it
+    const existing = nodes.get(id);
+    if (!existing || (label !== undefined && existing.label === existing.id)) {
+      nodes.set(id, { id, label: label !== undefined ? cleanLabel(label) || id : id, shape });
+    }
+    return { node: nodes.get(id)!, rest: text.slice(whole.length) };
+  };
+
+  for (const { text, number } of lines) {
+    const first = readNode(text);
+    if (!first) return { error: `Line ${number}: expected a box such as A[Label]` };
+
+    let from = first.node;
+    let rest = first.rest;
+    while (rest.trim()) {
+      const edge = rest.match(EDGE_PATTERN);
+      if (!edge) return { error: `Line ${number}: can't read "${rest.trim()}"` };
+      const next = readNode(rest.slice(edge[0].length));
+      if (!next) return { error: `Line ${number}: an arrow needs a box on both ends` };
+
+      const [, arrow, label] = edge;
+      edges.push({
+        from: from.id,
+        to: next.node.id,
+        label: label ? cleanLabel(label) || undefined : undefined,
+        style: arrow === "-.->" ? "dashed" : arrow === "==>" ? "thick" : "solid",
+        arrow: arrow !== "---",
+      });
+      from = next.node;
+      rest = next.rest;
+    }
+  }
+
+  if (nodes.size === 0) return { error: "The flowchart has no boxes" };
+  if (nodes.size > MAX_FLOWCHART_NODES) {
+    return { error: `Too many boxes (at most ${MAX_FLOWCHART_NODES})` };
+  }
+  if (edges.length > MAX_FLOWCHART_EDGES) {
+    return { error: `Too many arrows (at most ${MAX_FLOWCHART_EDGES})` };
+  }
+
+  const flowchart: Flowchart = { kind: "flowchart", direction, nodes: [...nodes.values()], edges };
+  return { diagram: flowchart };
+}
+
+function parseSequence(lines: { text: string; number: number }[]): DiagramParseResult {
+  const participants = new Map<string, string>();
+  const messages: SequenceDiagram["messages"] = [];
+
+  for (const { text, number } of lines) {
+    if (/^(autonumber|activate\s+\w+|deactivate\s+\w+)$/i.test(text)) continue;
+
+    const participant = text.match(PARTICIPANT_PATTERN);
+    if (participant) {
+      const [, id, label] = participant;
+      participants.set(id, label ? cleanLabel(label) || id : id);
+      continue;
+    }
+
+    const message = text.match(MESSAGE_PATTERN);
+    if (!message) return { error: `Line ${number}: expected a message such as A->>B: Label` };
+    const [, from, arrow, to, label] = message;
+    for (const id of [from, to]) {
+      if (!participants.has(id)) participants.set(id, id);
+    }
+    messages.push({ from, to, label: cleanLabel(label), dashed: arrow.startsWith("--") });
+  }
+
+  if (participants.size === 0) return { error: "The sequence diagram has no participants" };
+  if (participants.size > MAX_SEQUENCE_PARTICIPANTS) {
+    return { error: `Too many participants (at most ${MAX_SEQUENCE_PARTICIPANTS})` };
+  }
+  if (messages.length > MAX_SEQUENCE_MESSAGES) {
+    return { error: `Too many messages (at most ${MAX_SEQUENCE_MESSAGES})` };
+  }
+
+  return {
+    diagram: {
+      kind: "sequence",
+      participants: [...participants].map(([id, label]) => ({ id, label })),
+      messages,
+    },
+  };
+}
+
+export function parseDiagram(source: string): DiagramParseResult {
+  if (source.length > MAX_DIAGRAM_SOURCE_LENGTH) {
+    return { error: `Diagram must be ${MAX_DIAGRAM_SOURCE_LENGTH} characters or fewer` };
+  }
+  const [header, ...lines] = sourceLines(source);
+  if (!header) return { error: "The diagram is empty" };
+
+  if (/^(flowchart|graph)\b/i.test(header.text)) return parseFlowchart(lines, header.text);
+  if (/^sequenceDiagram$/i.test(header.text)) return parseSequence(lines);
+  return { error: 'Start with "flowchart LR", "flowchart TD" or "sequenceDiagram"' };
+}
+
+// Diagram text from a model or request body, kept only if it parses
+export function normalizeDiagramSource(input: unknown): string | undefined {
+  if (typeof input !== "string" || !input.trim()) return undefined;
+  const source = input.trim();
+  return "diagram" in parseDiagram(source) ? source : undefined;
+}
@@ -0,0 +1,55 @@
+import type { ClaimVerdict, FactCheckClaim } from "@/types/factCheck";
+import type { SlideSource } from "@/types/slides";
+
+export const CLAIM_VERDICTS: ClaimVerdict[] = ["accurate", "inaccurate", "misleading", "unverifiable"];
+
+const MAX_CLAIMS_PER_SEGMENT = 3;
+
+// Claims the presenter should see; accurate and unverifiable ones stay quiet
+export function isFlaggedVerdict(verdict: ClaimVerdict): boolean {
+  return verdict === "inaccurate" || verdict === "misleading";
+}
+
+/**
+ * Validates the model's graded claims. Entries without a claim or a known
+ * verdict are dropped; the segment's grounding sources go on every claim.
+ */
+export function parseFactCheckClaims(input: unknown, sources: SlideSource[] = []): FactCheckClaim[] {
+  if (!Array.isArray(input)) return [];
+
+  const claims: FactCheckClaim[] = [];
+  for (const item of input) {
+    if (claims.length >= MAX_CLAIMS_PER_SEGMENT) break;
+    const { claim, verdict, explanation, correction } = (item ?? {}) as Record<string, unknown>;
+    if (typeof claim !== "string" || !claim.trim()) continue;
+    if (!CLAIM_VERDICTS.includes(verdict as ClaimVerdict)) continue;
+
+    claims.push({
+      id: crypto.randomUUID(),
+      claim: claim.trim(),
+      verdict: verdict as ClaimVerdict,
+      explanation: typeof explanation === "string" ? explanation.trim() : "",
+      correction:
+        typeof correction === "string" && correction.trim() && isFlaggedVerdict(verdict as ClaimVerdict)
+          ? correction.trim()
+          : undefined,
+      sources: sources.length > 0 ? sources : undefined,
+      checkedAt: new Date().toISOString(),
+    });
+  }
+  return claims;
+}
+
+// Slide content for the one-click correction of a flagged claim
+export function buildCorrectionSlideContent(claim: FactCheckClaim) {
+  return {
+    headline: "Correction",
+    subheadline: claim.correction || claim.explanation,
+    bullets: [`Earlier: "${claim.claim}"`, ...(claim.explanation ? [claim.explanation] : [])],
+    visualDescription:
+      "A clean correction slide that sets the earlier statement next to the accurate figure, with the accurate figure emphasized",
+    category: "data",
+    sourceTranscript: `Fact check: ${claim.claim}`,
+    sources: claim.sources,
+  };
+}
@@ -0,0 +1,113 @@
+import type { GateProfile, GateSensitivity, GateTone } from "@/types/gateProfile";
+
+export const GATE_SENSITIVITIES: GateSensitivity[] = ["low", "medium", "high"];
+export const GATE_TONES: GateTone[] = ["professional", "conversational", "bold", "academic"];
+// The categories the gate's create_slide tool can produce; intro slides are always allowed
+export const GATE_CATEGORIES = ["concept", "data", "process", "comparison", "quote", "summary"];
+export const MAX_GATE_BULLETS = 6;
+const MAX_MIN_SECONDS = 600;
+const MAX_SLIDE_AGE_SECONDS = 600;
+
+export const DEFAULT_GATE_PROFILE: GateProfile = {
+  sensitivity: "medium",
+  minSecondsBetweenSlides: 0,
+  allowedCategories: [],
+  maxBullets: 4,
+  tone: "professional",
+  maxSlideAgeSeconds: 60,
+};
+
+export interface GateTimings {
+  // Quiet time after the last transcript segment before asking the gate
+  debounceMs: number;
+  // Transcript length the gate needs before it is asked
+  minTranscriptChars: number;
+  firstSlideMinChars: number;
+  // Shortest gap between exploratory generations
+  exploratoryIntervalMs: number;
+}
+
+// "medium" matches the gate's original fixed behavior
+const GATE_TIMINGS: Record<GateSensitivity, GateTimings> = {
+  low: { debounceMs: 1500, minTranscriptChars: 80, firstSlideMinChars: 40, exploratoryIntervalMs: 40000 },
+  medium: { debounceMs: 900, minTranscriptChars: 30, firstSlideMinChars: 20, exploratoryIntervalMs: 20000 },
+  high: { debounceMs: 500, minTranscriptChars: 15, firstSlideMinChars: 10, exploratoryIntervalMs: 10000 },
+};
+
+export function getGateTimings(profile: GateProfile): GateTimings {
+  return GATE_TIMINGS[profile.sensitivity];
+}
+
+/**
+ * Validates a gate profile from a request body or local storage. Anything
+ * missing or out of range falls back to the default for that field.
+ */
+export function normalizeGateProfile(input: unknown): GateProfile {
+  const raw = (input && typeof input === "object" ? input : {}) as Record<string, unknown>;
+  const minSeconds = Number(raw.minSecondsBetweenSlides);
+  const maxBullets = Number(raw.maxBullets);
+  const maxSlideAge = Number(raw.maxSlideAgeSeconds);
+
+  return {
+    sensitivity: GATE_SENSITIVITIES.includes(raw.sensitivity as GateSensitivity)
+      ? (raw.sensitivity as GateSensitivity)
+      : DEFAULT_GATE_PROFILE.sensitivity,
+    minSecondsBetweenSlides: Number.isFinite(minSeconds)
+      ? Math.min(Math.max(Math.round(minSeconds), 0), MAX_MIN_SECONDS)
+      : DEFAULT_GATE_PROFILE.minSecondsBetweenSlides,
+    allowedCategories: Array.isArray(raw.allowedCategories)
+      ? GATE_CATEGORIES.filter((category) => (raw.allowedCategories as unknown[]).includes(category))
+      : [],
+    maxBullets: Number.isFinite(maxBullets)
+      ? Math.min(Math.max(Math.round(maxBullets), 0), MAX_GATE_BULLETS)
+      : DEFAULT_GATE_PROFILE.maxBullets,
+    tone: GATE_TONES.includes(raw.tone as GateTone) ? (raw.tone as GateTone) : DEFAULT_GATE_PROFILE.tone,
+    maxSlideAgeSeconds: Number.isFinite(maxSlideAge)
+      ? Math.min(Math.max(Math.round(maxSlideAge), 0), MAX_SLIDE_AGE_SECONDS)
+      : DEFAULT_GATE_PROFILE.maxSlideAgeSeconds,
+  };
+}
+
+export function isCategoryAllowed(profile: GateProfile, category: string | undefined): boolean {
+  const normalized = (category || "").toLowerCase();
+  return (
+    profile.allowedCategories.length === 0 ||
+    normalized === "intro" ||
+    profile.allowedCategories.includes(normalized)
+  );
+}
+
+const SENSITIVITY_INSTRUCTIONS: Record<GateSensitivity, string> = {
+  low: "Be selective: only create a slide for a major new idea or a clear turning point in the talk.",
+  medium: "",
+  high: "Be generous: create a slide for any distinct point the speaker makes, even a brief one.",
+};
+
+const TONE_INSTRUCTIONS: Record<GateTone, string> = {
+  professional: "clear, confident and business-appropriate",
+  conversational: "warm, plain-spoken and approachable",
+  bold: "punchy, provocative and high-energy",
+  academic: "precise, measured and evidence-focused",
+};
+
+// Presenter preferences appended to gate and exploratory prompts
+export function buildGateProfilePrompt(profile: GateProfile, { includeSensitivity = true } = {}): string {
+  const lines = [
+    includeSensitivity ? SENSITIVITY_INSTRUCTIONS[profile.sensitivity] : "",
+    `Write headlines and bullets in a ${TONE_INSTRUCTIONS[profile.tone]} tone.`,
+    profile.maxBullets === 0
+      ? "Do not include bullets."
+      : `Use at most ${profile.maxBullets} bullet${profile.maxBullets === 1 ? "" : "s"}.`,
+    profile.allowedCategories.length > 0
+      ? `Only use these categories (plus "intro" for a title slide): ${profile.allowedCategories.join(", ")}.`
+      : "",
+  ].filter(Boolean);
+
+  return `\nPRESENTER PREFERENCES:\n${lines.map((line) => `- ${line}`).join("\n")}\n`;
+}
+
+// Bullets beyond the profile's limit are dropped rather than trusted to the prompt
+export function limitBullets(bullets: string[] | undefined, profile: GateProfile): string[] | undefined {
+  if (!bullets) return bullets;
+  return bullets.slice(0, profile.maxBullets);
+}
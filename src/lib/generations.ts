@@ -0,0 +1,80 @@
+export interface Generation {
+  // Passed to every fetch the generation makes, so the routes can abort their model calls
+  signal: AbortSignal;
+  // Once true the generation's result must be dropped
+  isCancelled: () => boolean;
+  // Releases the age timer; call when the generation settles either way
+  finish: () => void;
+  // Aborts this generation alone
+  cancel: () => void;
+}
+
+export interface GenerationOptions {
+  // When the transcript the generation is based on was spoken
+  sourceAt?: number;
+  // How long after sourceAt the result is still worth showing; 0 or unset never expires
+  maxAgeMs?: number;
+}
+
+/**
+ * Tracks in-flight slide generations so stale ones can be cancelled: each is
+ * aborted once its source transcript passes the age limit, and all of them
+ * when the presentation stops.
+ */
+export function createGenerationRegistry() {
+  const active = new Set<{ controller: AbortController; finish: () => void }>();
+
+  return {
+    start({ sourceAt = Date.now(), maxAgeMs = 0 }: GenerationOptions = {}): Generation {
+      const controller = new AbortController();
+      const expiresAt = maxAgeMs > 0 ? sourceAt + maxAgeMs : Infinity;
+      let timer: ReturnType<typeof setTimeout> | null = null;
+
+      const entry = {
+        controller,
+        finish: () => {
+          if (timer) clearTimeout(timer);
+          timer = null;
+          active.delete(entry);
+        },
+      };
+      active.add(entry);
+
+      if (expiresAt !== Infinity) {
+        timer = setTimeout(() => {
+          controller.abort();
+          entry.finish();
+        }, Math.max(expiresAt - Date.now(), 0));
+      }
+
+      return {
+        signal: controller.signal,
+        // The clock check covers a timer that hasn't fired yet
+        isCancelled: () => controller.signal.aborted || Date.now() >= expiresAt,
+        finish: entry.finish,
+        cancel: () => {
+          controller.abort();
+          entry.finish();
+        },
+      };
+    },
+
+    abortAll() {
+      for (const entry of [...active]) {
+        entry.controller.abort();
+        entry.finish();
+      }
+    },
+
+    get activeCount() {
+      return active.size;
+    },
+  };
+}
+
+export type GenerationRegistry = ReturnType<typeof createGenerationRegistry>;
+
+export function isAbortError(error: unknown): boolean {
+  // fetch rejects with a DOMException, which isn't an Error subclass everywhere
+  return typeof error === "object" && error !== null && (error as { name?: unknown }).name === "AbortError";
+}
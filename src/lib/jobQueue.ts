@@ -0,0 +1,258 @@
+import { nanoid } from "nanoid";
+import { STALE_JOB_ERROR, type GenerationJob } from "@/types/jobs";
+import { sessionStore } from "./sessionStore";
+import { createGenerationRegistry, type Generation } from "./generations";
+
+export interface JobContext {
+  signal: AbortSignal;
+  // Publishes the job's progress (its stage, and the headline once known)
+  update: (changes: Partial<Pick<GenerationJob, "state" | "headline" | "gate">>) => void;
+}
+
+export type JobRunner = (context: JobContext) => Promise<Pick<GenerationJob, "gate" | "slides">>;
+
+export interface EnqueueOptions {
+  run: JobRunner;
+  // When the transcript the job is based on was spoken
+  sourceAt?: number;
+  // A job still unfinished this long after sourceAt is cancelled; 0 never expires
+  maxAgeMs?: number;
+}
+
+interface JobQueueOptions {
+  // Returns false once the session is gone, which drops its jobs
+  publish: (job: GenerationJob) => boolean;
+  maxConcurrentPerSession?: number;
+  maxConcurrent?: number;
+}
+
+interface ActiveJob {
+  job: GenerationJob;
+  run: JobRunner;
+  generation: Generation;
+  startedAt: number | null;
+}
+
+// Used for ETAs until a job has finished; image generation usually takes this long
+const DEFAULT_JOB_DURATION_MS = 15_000;
+const MAX_FINISHED_JOBS = 20;
+const FINISHED_JOB_TTL_MS = 10 * 60 * 1000;
+export const MAX_QUEUED_JOBS_PER_SESSION = 10;
+
+/**
+ * Runs generation jobs with per-session and overall concurrency limits.
+ * Every change to a job is published, and finished jobs are kept (with their
+ * slides) until the presenter's client removes them.
+ */
+export function createJobQueue({
+  publish,
+  maxConcurrentPerSession = 2,
+  maxConcurrent = 8,
+}: JobQueueOptions) {
+  const jobsBySession = new Map<string, GenerationJob[]>();
+  const active = new Map<string, ActiveJob>();
+  const generations = createGenerationRegistry();
+  let averageDurationMs = DEFAULT_JOB_DURATION_MS;
+
+  const runningCount = (sessionId?: string) =>
+    Array.from(active.values()).filter(
+      (entry) => entry.startedAt !== null && (!sessionId || entry.job.sessionId === sessionId)
+    ).length;
+
+  // Jobs ahead in the session (running or queued) finish in batches of the per-session limit,
+  // each taking about the average
+  const estimateDoneAt = (entry: ActiveJob, jobsAhead: number, now: number): string => {
+    const doneAt =
+      entry.startedAt !== null
+        ? Math.max(entry.startedAt + averageDurationMs, now)
+        : now + averageDurationMs * (Math.floor(jobsAhead / maxConcurrentPerSession) + 1);
+    return new Date(doneAt).toISOString();
+  };
+
+  const dropSession = (sessionId: string) => {
+    for (const job of jobsBySession.get(sessionId) ?? []) {
+      const entry = active.get(job.id);
+      active.delete(job.id);
+      entry?.generation.cancel();
+    }
+    jobsBySession.delete(sessionId);
+  };
+
+  const emit = (job: GenerationJob) => {
+    if (!publish({ ...job })) {
+      dropSession(job.sessionId);
+    }
+  };
+
+  // Refreshes ETAs for a session's unfinished jobs, publishing the ones in `changed` regardless
+  const publishSession = (sessionId: string, changed: GenerationJob[] = []) => {
+    const now = Date.now();
+    let jobsAhead = runningCount(sessionId);
+    for (const job of jobsBySession.get(sessionId) ?? []) {
+      const entry = active.get(job.id);
+      if (entry) {
+        const estimatedDoneAt = estimateDoneAt(entry, jobsAhead, now);
+        if (entry.startedAt === null) jobsAhead += 1;
+        if (estimatedDoneAt !== job.estimatedDoneAt || changed.includes(job)) {
+          job.estimatedDoneAt = estimatedDoneAt;
+          emit(job);
+        }
+      } else if (changed.includes(job)) {
+        emit(job);
+      }
+    }
+  };
+
+  const prune = (sessionId: string) => {
+    const jobs = jobsBySession.get(sessionId);
+    if (!jobs) return;
+    const cutoff = new Date(Date.now() - FINISHED_JOB_TTL_MS).toISOString();
+    const finished = jobs.filter((job) => !active.has(job.id));
+    const expired = new Set([
+      ...finished.filter((job) => job.updatedAt < cutoff),
+      ...finished.slice(0, Math.max(finished.length - MAX_FINISHED_JOBS, 0)),
+    ]);
+    jobsBySession.set(
+      sessionId,
+      jobs.filter((job) => !expired.has(job))
+    );
+  };
+
+  const finish = (entry: ActiveJob, changes: Partial<GenerationJob>) => {
+    const { job } = entry;
+    if (!active.has(job.id)) return;
+    active.delete(job.id);
+    entry.generation.finish();
+
+    if (changes.state === "done" && entry.startedAt !== null) {
+      averageDurationMs = Math.round(averageDurationMs * 0.7 + (Date.now() - entry.startedAt) * 0.3);
+    }
+    Object.assign(job, changes, { updatedAt: new Date().toISOString(), estimatedDoneAt: undefined });
+    publishSession(job.sessionId, [job]);
+  };
+
+  const start = (entry: ActiveJob) => {
+    const { job, generation } = entry;
+    entry.startedAt = Date.now();
+
+    const update: JobContext["update"] = (changes) => {
+      if (!active.has(job.id)) return;
+      Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+      emit(job);
+    };
+
+    entry
+      .run({ signal: generation.signal, update })
+      .then((result) => finish(entry, { ...result, state: "done" }))
+      .catch((error) => {
+        const message = generation.isCancelled()
+          ? STALE_JOB_ERROR
+          : error instanceof Error
+            ? error.message
+            : String(error);
+        if (!generation.isCancelled()) {
+          console.error(`❌ Generation job ${job.id} failed:`, error);
+        }
+        finish(entry, { state: "failed", error: message });
+      })
+      .finally(pump);
+  };
+
+  // Starts queued jobs, oldest first, while the limits allow
+  function pump() {
+    for (const entry of Array.from(active.values())) {
+      if (entry.startedAt !== null) continue;
+      if (entry.generation.isCancelled()) {
+        finish(entry, { state: "failed", error: STALE_JOB_ERROR });
+        continue;
+      }
+      if (runningCount() >= maxConcurrent) return;
+      if (runningCount(entry.job.sessionId) >= maxConcurrentPerSession) continue;
+      start(entry);
+      publishSession(entry.job.sessionId);
+    }
+  }
+
+  return {
+    enqueue(sessionId: string, { run, sourceAt, maxAgeMs }: EnqueueOptions): GenerationJob | null {
+      const queued = Array.from(active.values()).filter(
+        (entry) => entry.job.sessionId === sessionId && entry.startedAt === null
+      );
+      if (queued.length >= MAX_QUEUED_JOBS_PER_SESSION) return null;
+
+      const now = new Date().toISOString();
+      const job: GenerationJob = {
+        id: nanoid(10),
+        sessionId,
+        state: "queued",
+        createdAt: now,
+        updatedAt: now,
+      };
+      const entry: ActiveJob = {
+        job,
+        run,
+        generation: generations.start({ sourceAt, maxAgeMs }),
+        startedAt: null,
+      };
+
+      // A queued job that expires fails right away instead of waiting for its turn
+      entry.generation.signal.addEventListener("abort", () => {
+        if (entry.startedAt === null) {
+          finish(entry, { state: "failed", error: STALE_JOB_ERROR });
+        }
+      });
+
+      prune(sessionId);
+      jobsBySession.set(sessionId, [...(jobsBySession.get(sessionId) ?? []), job]);
+      active.set(job.id, entry);
+      publishSession(sessionId, [job]);
+      pump();
+      return { ...job };
+    },
+
+    getJobs(sessionId: string): GenerationJob[] {
+      return (jobsBySession.get(sessionId) ?? []).map((job) => ({ ...job }));
+    },
+
+    /**
+     * Cancels a job if it's still running, and forgets it
+     * Returns false if the job is not found
+     */
+    remove(sessionId: string, jobId: string): boolean {
+      const jobs = jobsBySession.get(sessionId) ?? [];
+      if (!jobs.some((job) => job.id === jobId)) return false;
+
+      // Removed before cancelling, so the cancelled job isn't published as failed
+      const entry = active.get(jobId);
+      active.delete(jobId);
+      jobsBySession.set(
+        sessionId,
+        jobs.filter((job) => job.id !== jobId)
+      );
+      if (entry) {
+        entry.generation.cancel();
+        pump();
+      }
+      return true;
+    },
+
+    // Cancels and forgets every job in the session
+    clear(sessionId: string): void {
+      dropSession(sessionId);
+    },
+  };
+}
+
+export type JobQueue = ReturnType<typeof createJobQueue>;
+
+function readLimit(name: string, fallback: number): number {
+  const limit = Number.parseInt(process.env[name] ?? "", 10);
+  return Number.isFinite(limit) && limit > 0 ? limit : fallback;
+}
+
+// Jobs run in this server process; their updates go out on the session stream
+export const jobQueue: JobQueue = createJobQueue({
+  publish: (job) => sessionStore.publishJobUpdate(job.sessionId, job),
+  maxConcurrentPerSession: readLimit("GENERATION_JOBS_PER_SESSION", 2),
+  maxConcurrent: readLimit("GENERATION_JOBS_MAX", 8),
+});
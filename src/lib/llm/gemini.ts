@@ -0,0 +1,95 @@
+import {
+  DynamicRetrievalMode,
+  GoogleGenerativeAI,
+  type FunctionDeclaration,
+  type GroundingChunk,
+  type GroundingMetadata,
+  type Part,
+  type Tool,
+} from "@google/generative-ai";
+import type { LLMClient, LLMGenerateRequest, LLMModelTier, LLMSource, LLMTask } from "./types";
+
+const DEFAULT_MODELS: Record<LLMModelTier, string> = {
+  standard: "gemini-2.0-flash",
+  fast: "gemini-2.5-flash-lite",
+};
+
+// Tasks that ran on a different model before the provider abstraction keep it,
+// unless the tier's model is overridden
+const DEFAULT_TASK_MODELS: Partial<Record<LLMTask, string>> = {
+  "extract-slides": "gemini-2.0-flash-lite",
+};
+
+// The SDK types misspell the field as groundingChuncks; the API sends groundingChunks
+function getGroundingSources(metadata: GroundingMetadata | undefined): LLMSource[] {
+  const chunks =
+    (metadata as { groundingChunks?: GroundingChunk[] } | undefined)?.groundingChunks ??
+    metadata?.groundingChuncks ??
+    [];
+  return chunks.flatMap(({ web }) =>
+    web?.uri ? [{ title: web.title || web.uri, url: web.uri }] : []
+  );
+}
+
+export function createGeminiClient(
+  apiKey: string,
+  models: Partial<Record<LLMModelTier, string>> = {}
+): LLMClient {
+  const genAI = new GoogleGenerativeAI(apiKey);
+
+  return {
+    provider: "gemini",
+
+    async generate(request: LLMGenerateRequest) {
+      const tools: Tool[] = [];
+      if (request.functions?.length) {
+        tools.push({
+          // Our schema uses the same lowercase type names as Gemini's SchemaType
+          functionDeclarations: request.functions as unknown as FunctionDeclaration[],
+        });
+      }
+      if (request.search) {
+        tools.push({
+          googleSearchRetrieval: {
+            dynamicRetrievalConfig: {
+              mode: DynamicRetrievalMode.MODE_DYNAMIC,
+            },
+          },
+        });
+      }
+
+      const tier = request.tier ?? "standard";
+      const model = genAI.getGenerativeModel({
+        model: models[tier] || DEFAULT_TASK_MODELS[request.task] || DEFAULT_MODELS[tier],
+        ...(request.json ? { generationConfig: { responseMimeType: "application/json" } } : {}),
+        ...(tools.length > 0 ? { tools } : {}),
+      });
+
+      const parts: (string | Part)[] = [
+        ...(request.images ?? []).map((image) => ({
+          inlineData: { mimeType: image.mimeType, data: image.data },
+        })),
+        request.prompt,
+      ];
+
+      const result = await model.generateContent(parts, { signal: request.signal });
+      const candidate = result.response.candidates?.[0];
+      const candidateParts = candidate?.content?.parts ?? [];
+      const sources = getGroundingSources(candidate?.groundingMetadata);
+
+      const functionCall = candidateParts.find((part) => part.functionCall)?.functionCall;
+      const text = candidateParts
+        .map((part) => part.text)
+        .filter(Boolean)
+        .join("");
+
+      return {
+        text,
+        functionCall: functionCall
+          ? { name: functionCall.name, args: (functionCall.args ?? {}) as Record<string, unknown> }
+          : undefined,
+        ...(sources.length > 0 ? { sources } : {}),
+      };
+    },
+  };
+}
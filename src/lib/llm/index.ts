@@ -0,0 +1,79 @@
+import { createGeminiClient } from "./gemini";
+import { createMockClient } from "./mock";
+import { createOpenAICompatibleClient } from "./openaiCompatible";
+import type { LLMClient, LLMProviderName } from "./types";
+
+export type {
+  LLMClient,
+  LLMFunctionCall,
+  LLMFunctionDeclaration,
+  LLMGenerateRequest,
+  LLMGenerateResult,
+  LLMModelTier,
+  LLMProviderName,
+  LLMSchema,
+  LLMTask,
+} from "./types";
+export { createGeminiClient, createMockClient, createOpenAICompatibleClient };
+
+const DEFAULT_OPENAI_BASE_URL = "https://api.openai.com/v1";
+const DEFAULT_OPENAI_MODEL = "gpt-4o-mini";
+
+/**
+ * Picks the provider from LLM_PROVIDER ("gemini", "openai" or "mock", default gemini)
+ */
+export function getLLMProvider(): LLMProviderName {
+  const provider = (process.env.LLM_PROVIDER || "gemini").toLowerCase();
+  if (provider === "openai" || provider === "mock") return provider;
+  return "gemini";
+}
+
+/**
+ * Returns a message describing missing configuration, or null when the
+ * selected provider can be used
+ */
+export function getLLMConfigError(): string | null {
+  const provider = getLLMProvider();
+  if (provider === "gemini" && !process.env.GOOGLE_API_KEY) {
+    return "Missing GOOGLE_API_KEY environment variable";
+  }
+  // Local OpenAI-compatible servers usually need no key, so only the
+  // hosted default requires one
+  if (
+    provider === "openai" &&
+    !process.env.LLM_BASE_URL &&
+    !process.env.LLM_API_KEY &&
+    !process.env.OPENAI_API_KEY
+  ) {
+    return "Missing LLM_API_KEY (or LLM_BASE_URL for a local server) environment variable";
+  }
+  return null;
+}
+
+/**
+ * Builds the text-generation client for the configured provider.
+ * Model names can be overridden with LLM_MODEL and LLM_FAST_MODEL.
+ */
+export function getLLMClient(): LLMClient {
+  const provider = getLLMProvider();
+  const standardModel = process.env.LLM_MODEL;
+  const fastModel = process.env.LLM_FAST_MODEL;
+
+  if (provider === "mock") {
+    return createMockClient();
+  }
+
+  if (provider === "openai") {
+    const model = standardModel || DEFAULT_OPENAI_MODEL;
+    return createOpenAICompatibleClient({
+      baseUrl: process.env.LLM_BASE_URL || DEFAULT_OPENAI_BASE_URL,
+      apiKey: process.env.LLM_API_KEY || process.env.OPENAI_API_KEY,
+      models: { standard: model, fast: fastModel || model },
+    });
+  }
+
+  return createGeminiClient(process.env.GOOGLE_API_KEY || "", {
+    ...(standardModel ? { standard: standardModel } : {}),
+    ...(fastModel ? { fast: fastModel } : {}),
+  });
+}
@@ -0,0 +1,76 @@
+import type { LLMClient, LLMGenerateRequest, LLMGenerateResult, LLMTask } from "./types";
+
+// First few words of the subject, so mock slides are recognisably about the input
+function headlineFrom(subject: string | undefined, fallback: string): string {
+  const words = (subject || "").replace(/\s+/g, " ").trim().split(" ").filter(Boolean);
+  if (words.length === 0) return fallback;
+  const headline = words.slice(0, 8).join(" ");
+  return headline.charAt(0).toUpperCase() + headline.slice(1);
+}
+
+function mockSlide(subject: string | undefined, category: string) {
+  const headline = headlineFrom(subject, "Mock Slide");
+  return {
+    headline,
+    subheadline: "Generated by the offline mock provider",
+    bullets: ["First key point", "Second key point"],
+    visualDescription: `A simple illustration representing "${headline}"`,
+    category,
+  };
+}
+
+const json = (value: unknown): LLMGenerateResult => ({ text: JSON.stringify(value) });
+
+const MOCK_RESPONSES: Record<LLMTask, (request: LLMGenerateRequest) => LLMGenerateResult> = {
+  "slide-gate": ({ subject }) => ({
+    text: "",
+    functionCall: { name: "create_slide", args: mockSlide(subject, "concept") },
+  }),
+  "answer-question": ({ subject }) => json(mockSlide(subject, "explanation")),
+  "audience-question-gate": ({ subject }) =>
+    json({
+      accept: true,
+      reason: "Mock gate accepts every question",
+      normalizedQuestion: (subject || "").trim(),
+      category: "general",
+      priority: "normal",
+    }),
+  "exploratory-input": ({ subject }) => json({ followups: [mockSlide(subject, "concept")] }),
+  "slide-followups": ({ subject }) => json({ followups: [mockSlide(subject, "concept")] }),
+  "slide-curator": () => ({
+    text: "",
+    functionCall: {
+      name: "curator_decision",
+      args: { action: "replace_slot_2", reasoning: "Mock curator keeps the newest slide" },
+    },
+  }),
+  "extract-slides": ({ subject }) =>
+    json({
+      ...mockSlide(subject, "concept"),
+      contentSummary: "Content extracted by the offline mock provider",
+    }),
+  "fact-check": () => json({ claims: [] }),
+  // 0 means "unclear", so the mock never moves the presenter's section
+  "outline-section": () => json({ section: 0 }),
+  "recap": ({ subject }) =>
+    json({
+      summary: { ...mockSlide(subject, "summary"), headline: "Key Takeaways" },
+      takeaways: [mockSlide(subject, "takeaway")],
+    }),
+};
+
+/**
+ * Deterministic, offline responses shaped like what each route expects.
+ * Used for local development and tests without API keys or network.
+ */
+export function createMockClient(): LLMClient {
+  return {
+    provider: "mock",
+
+    async generate(request: LLMGenerateRequest) {
+      // Behaves like the real providers when the caller has already given up
+      request.signal?.throwIfAborted();
+      return MOCK_RESPONSES[request.task](request);
+    },
+  };
+}
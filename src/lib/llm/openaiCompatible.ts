@@ -0,0 +1,85 @@
+import type { LLMClient, LLMGenerateRequest, LLMModelTier } from "./types";
+
+interface OpenAICompatibleOptions {
+  baseUrl: string;
+  apiKey?: string;
+  models: Record<LLMModelTier, string>;
+}
+
+interface ChatCompletionResponse {
+  choices?: {
+    message?: {
+      content?: string | null;
+      tool_calls?: { function?: { name?: string; arguments?: string } }[];
+    };
+  }[];
+}
+
+/**
+ * Any server that speaks the OpenAI chat completions API (OpenAI itself,
+ * Ollama, LM Studio, vLLM, ...). Web search grounding is not available.
+ */
+export function createOpenAICompatibleClient({
+  baseUrl,
+  apiKey,
+  models,
+}: OpenAICompatibleOptions): LLMClient {
+  const endpoint = `${baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+  return {
+    provider: "openai",
+
+    async generate(request: LLMGenerateRequest) {
+      const content = request.images?.length
+        ? [
+            ...request.images.map((image) => ({
+              type: "image_url",
+              image_url: { url: `data:${image.mimeType};base64,${image.data}` },
+            })),
+            { type: "text", text: request.prompt },
+          ]
+        : request.prompt;
+
+      const body: Record<string, unknown> = {
+        model: models[request.tier ?? "standard"],
+        messages: [{ role: "user", content }],
+      };
+      if (request.functions?.length) {
+        body.tools = request.functions.map((fn) => ({ type: "function", function: fn }));
+      } else if (request.json) {
+        // Only combined with plain text replies; some servers reject it alongside tools
+        body.response_format = { type: "json_object" };
+      }
+
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify(body),
+        signal: request.signal,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => "");
+        throw new Error(`LLM request failed (${response.status}): ${errorText.slice(0, 200)}`);
+      }
+
+      const data = (await response.json()) as ChatCompletionResponse;
+      const message = data.choices?.[0]?.message;
+      const toolCall = message?.tool_calls?.[0]?.function;
+
+      let functionCall;
+      if (toolCall?.name) {
+        try {
+          functionCall = { name: toolCall.name, args: JSON.parse(toolCall.arguments || "{}") };
+        } catch {
+          console.error("Failed to parse tool call arguments:", toolCall.arguments);
+        }
+      }
+
+      return { text: message?.content ?? "", functionCall };
+    },
+  };
+}
@@ -0,0 +1,80 @@
+export type LLMProviderName = "gemini" | "openai" | "mock";
+
+// Every route that calls the text model, so providers (and the mock) can tell them apart
+export type LLMTask =
+  | "slide-gate"
+  | "answer-question"
+  | "audience-question-gate"
+  | "exploratory-input"
+  | "slide-followups"
+  | "slide-curator"
+  | "extract-slides"
+  | "fact-check"
+  | "outline-section"
+  | "recap";
+
+// "fast" is for cheap, latency-sensitive calls such as curation and extraction
+export type LLMModelTier = "standard" | "fast";
+
+// Plain JSON Schema subset understood by both Gemini and OpenAI-style function calling
+export interface LLMSchema {
+  type: "object" | "string" | "number" | "integer" | "boolean" | "array";
+  description?: string;
+  properties?: Record<string, LLMSchema>;
+  items?: LLMSchema;
+  required?: string[];
+  enum?: string[];
+}
+
+export interface LLMFunctionDeclaration {
+  name: string;
+  description: string;
+  parameters: LLMSchema;
+}
+
+export interface LLMImageInput {
+  mimeType: string;
+  // Base64 without the data: prefix
+  data: string;
+}
+
+export interface LLMGenerateRequest {
+  task: LLMTask;
+  prompt: string;
+  tier?: LLMModelTier;
+  images?: LLMImageInput[];
+  // Ask for a single JSON object as the text response
+  json?: boolean;
+  // Allow web-search grounding where the provider supports it
+  search?: boolean;
+  // The model may answer by calling one of these instead of replying with text
+  functions?: LLMFunctionDeclaration[];
+  // The user-supplied text the prompt is built around (transcript, question, idea).
+  // Only the mock provider reads it, to echo something recognisable back.
+  subject?: string;
+  // Aborts the upstream model call, e.g. when the browser cancels the route request
+  signal?: AbortSignal;
+}
+
+export interface LLMFunctionCall {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+// A web page the response was grounded on
+export interface LLMSource {
+  title: string;
+  url: string;
+}
+
+export interface LLMGenerateResult {
+  text: string;
+  functionCall?: LLMFunctionCall;
+  // Only set when search grounding was used and cited something
+  sources?: LLMSource[];
+}
+
+export interface LLMClient {
+  provider: LLMProviderName;
+  generate(request: LLMGenerateRequest): Promise<LLMGenerateResult>;
+}
@@ -0,0 +1,69 @@
+import type { Feedback } from "@/types/feedback";
+
+export type ModerationFlag = "email" | "phone" | "blocked";
+
+export interface ScrubResult {
+  text: string;
+  flags: ModerationFlag[];
+}
+
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+// 8+ digits with optional separators, e.g. +1 (555) 123-4567
+const PHONE_PATTERN = /\+?\d(?:[\s().-]*\d){7,}/g;
+
+/**
+ * Comma-separated terms from NEXT_PUBLIC_MODERATION_BLOCKLIST. Public so the
+ * presenter's browser can scrub before calling the answer routes.
+ */
+export function getBlocklist(): string[] {
+  return (process.env.NEXT_PUBLIC_MODERATION_BLOCKLIST || "")
+    .split(",")
+    .map((term) => term.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Masks emails, phone numbers and blocklisted terms in audience text
+ * before it reaches a model or the projector
+ */
+export function scrubText(text: string, blocklist: string[] = getBlocklist()): ScrubResult {
+  const flags = new Set<ModerationFlag>();
+  let scrubbed = text;
+
+  scrubbed = scrubbed.replace(EMAIL_PATTERN, () => {
+    flags.add("email");
+    return "[email]";
+  });
+  scrubbed = scrubbed.replace(PHONE_PATTERN, () => {
+    flags.add("phone");
+    return "[phone]";
+  });
+
+  for (const term of blocklist) {
+    const pattern = new RegExp(`\\b${escapeRegExp(term)}\\b`, "gi");
+    scrubbed = scrubbed.replace(pattern, (match) => {
+      flags.add("blocked");
+      return "*".repeat(match.length);
+    });
+  }
+
+  return { text: scrubbed, flags: Array.from(flags) };
+}
+
+/**
+ * The view of a published question the audience may see: scrubbed text and
+ * none of the moderator's notes or the submitter's original wording
+ */
+export function toPublicFeedback(feedback: Feedback): Feedback {
+  return {
+    id: feedback.id,
+    sessionId: feedback.sessionId,
+    text: scrubText(feedback.text).text,
+    timestamp: feedback.timestamp,
+    votes: feedback.votes,
+  };
+}
@@ -0,0 +1,27 @@
+import type { ChartData } from "@/types/chart";
+import type { Diagram } from "@/types/diagram";
+import type { BrandKit } from "@/types/brandKit";
+import { SLIDE_PALETTES, renderTemplateSlideDataUrl } from "@/lib/slideRenderer";
+import { getBrandKitPalette } from "@/lib/brandKit";
+
+/**
+ * The one rendering of a chart or diagram slide: the server stores it as the
+ * slide image and SlideCanvas redraws it from the data, so both show the same
+ * thing. Native slides use the brand palette, or the default one, on both sides.
+ */
+export function renderNativeSlideDataUrl(
+  content: { headline?: string; subheadline?: string; chart?: ChartData; diagram?: Diagram },
+  brandKit?: BrandKit | null
+): string {
+  return renderTemplateSlideDataUrl(
+    {
+      headline: content.headline || "Untitled",
+      subheadline: content.subheadline,
+      category: content.chart ? "data" : "process",
+      chart: content.chart,
+      diagram: content.diagram,
+    },
+    brandKit ? getBrandKitPalette(brandKit) : SLIDE_PALETTES.midnight,
+    { fontFamily: brandKit?.fonts?.heading, logo: brandKit?.logo }
+  );
+}
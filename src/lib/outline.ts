@@ -0,0 +1,139 @@
+import type { OutlineSection, SectionProgress } from "@/types/outline";
+
+export const MAX_OUTLINE_SECTIONS = 12;
+const MAX_KEY_POINTS = 6;
+const MAX_TITLE_LENGTH = 120;
+const MAX_KEY_POINT_LENGTH = 200;
+const MAX_TARGET_MINUTES = 240;
+
+const BULLET_PATTERN = /^[-*•]\s+/;
+// "Intro (5 min)", "Intro - 5m", "Intro [10 minutes]"
+const DURATION_PATTERN = /\s*(?:[-–—:]\s*|\(|\[)(\d+(?:\.\d+)?)\s*(?:m|min|mins|minutes?)\)?\]?\s*$/i;
+
+function clampMinutes(value: unknown): number | undefined {
+  const minutes = typeof value === "string" ? Number(value) : value;
+  if (typeof minutes !== "number" || !Number.isFinite(minutes) || minutes <= 0) return undefined;
+  return Math.min(minutes, MAX_TARGET_MINUTES);
+}
+
+/**
+ * Reads an outline typed or pasted as plain text. Each unindented line starts
+ * a section (markdown "#" and "1." prefixes are ignored) and may end with a
+ * target duration such as "(5 min)"; bulleted lines are its key points.
+ */
+export function parseOutlineText(text: string): OutlineSection[] {
+  const sections: OutlineSection[] = [];
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line) continue;
+
+    if (BULLET_PATTERN.test(line) || (/^\s+/.test(raw) && sections.length > 0)) {
+      const current = sections[sections.length - 1];
+      const point = line.replace(BULLET_PATTERN, "").trim();
+      if (current && point && current.keyPoints.length < MAX_KEY_POINTS) {
+        current.keyPoints.push(point.slice(0, MAX_KEY_POINT_LENGTH));
+      }
+      continue;
+    }
+
+    if (sections.length >= MAX_OUTLINE_SECTIONS) break;
+    const heading = line.replace(/^#+\s*/, "").replace(/^\d+[.)]\s+/, "");
+    const duration = heading.match(DURATION_PATTERN);
+    const title = (duration ? heading.slice(0, duration.index) : heading).trim();
+    if (!title) continue;
+
+    sections.push({
+      id: `section-${sections.length + 1}`,
+      title: title.slice(0, MAX_TITLE_LENGTH),
+      keyPoints: [],
+      targetMinutes: duration ? clampMinutes(duration[1]) : undefined,
+    });
+  }
+
+  return sections;
+}
+
+// The outline as plain text again, for editing in the outline dialog
+export function formatOutlineText(sections: OutlineSection[]): string {
+  return sections
+    .map((section) =>
+      [
+        `${section.title}${section.targetMinutes ? ` (${section.targetMinutes} min)` : ""}`,
+        ...section.keyPoints.map((point) => `- ${point}`),
+      ].join("\n")
+    )
+    .join("\n\n");
+}
+
+// Outline from a request body, with anything malformed dropped
+export function normalizeOutline(input: unknown): OutlineSection[] {
+  if (!Array.isArray(input)) return [];
+
+  const sections: OutlineSection[] = [];
+  const seen = new Set<string>();
+  for (const item of input) {
+    if (sections.length >= MAX_OUTLINE_SECTIONS) break;
+    const { id, title, keyPoints, targetMinutes } = (item ?? {}) as Record<string, unknown>;
+    if (typeof id !== "string" || !id || seen.has(id)) continue;
+    if (typeof title !== "string" || !title.trim()) continue;
+
+    seen.add(id);
+    sections.push({
+      id: id.slice(0, 40),
+      title: title.trim().slice(0, MAX_TITLE_LENGTH),
+      keyPoints: Array.isArray(keyPoints)
+        ? keyPoints
+            .filter((point): point is string => typeof point === "string" && !!point.trim())
+            .slice(0, MAX_KEY_POINTS)
+            .map((point) => point.trim().slice(0, MAX_KEY_POINT_LENGTH))
+        : [],
+      targetMinutes: clampMinutes(targetMinutes),
+    });
+  }
+  return sections;
+}
+
+// Numbered outline for prompts; the section the talk is in is marked
+export function formatOutlineForPrompt(sections: OutlineSection[], currentSectionId?: string | null): string {
+  return sections
+    .map((section, i) => {
+      const marker = section.id === currentSectionId ? " <- CURRENT" : "";
+      const points = section.keyPoints.map((point) => `   - ${point}`).join("\n");
+      return `${i + 1}. ${section.title}${marker}${points ? `\n${points}` : ""}`;
+    })
+    .join("\n");
+}
+
+/**
+ * Progress through the outline. `elapsedMs` holds the time already spent in
+ * each section; the current one also counts the time since it started.
+ * Sections before the current one are done, even if they were skipped.
+ */
+export function getSectionProgress(
+  sections: OutlineSection[],
+  currentSectionId: string | null,
+  elapsedMs: Record<string, number>,
+  currentStartedAt: number | null,
+  now: number
+): SectionProgress[] {
+  const currentIndex = sections.findIndex((section) => section.id === currentSectionId);
+
+  return sections.map((section, i) => {
+    const running = i === currentIndex && currentStartedAt !== null ? now - currentStartedAt : 0;
+    const spent = (elapsedMs[section.id] ?? 0) + running;
+    return {
+      section,
+      status: currentIndex < 0 || i > currentIndex ? "upcoming" : i === currentIndex ? "current" : "done",
+      elapsedMs: spent,
+      isOvertime: !!section.targetMinutes && spent > section.targetMinutes * 60_000,
+    };
+  });
+}
+
+export function formatElapsed(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
@@ -0,0 +1,45 @@
+import type { Poll, PollResults } from "@/types/poll";
+import type { SlideData } from "@/types/slides";
+
+export function getPollResults(poll: Poll): PollResults {
+  return {
+    question: poll.question,
+    options: poll.options.map(({ label, votes }) => ({ label, votes })),
+    totalVotes: poll.options.reduce((sum, option) => sum + option.votes, 0),
+  };
+}
+
+// Whole-number percentages; 0 for every option when nobody voted
+export function getPollPercentages(results: PollResults): number[] {
+  if (results.totalVotes === 0) return results.options.map(() => 0);
+  return results.options.map((option) =>
+    Math.round((option.votes / results.totalVotes) * 100)
+  );
+}
+
+/**
+ * Builds the slide shown when a poll closes. SlideCanvas draws the chart
+ * natively from `poll`; the text fields give the gate context about it.
+ */
+export function buildPollResultsSlide(poll: Poll): SlideData {
+  const results = getPollResults(poll);
+  const percentages = getPollPercentages(results);
+  const summary = results.options
+    .map((option, i) => `${option.label} ${percentages[i]}%`)
+    .join(", ");
+
+  return {
+    id: `poll-${poll.id}`,
+    headline: poll.question,
+    subheadline: `${results.totalVotes} vote${results.totalVotes === 1 ? "" : "s"}`,
+    visualDescription: `Bar chart of live audience poll results: ${summary}`,
+    source: "poll",
+    poll: results,
+    originalIdea: {
+      title: poll.question,
+      content: `Audience poll results: ${summary}`,
+      category: "data",
+    },
+    timestamp: poll.closedAt || new Date().toISOString(),
+  };
+}
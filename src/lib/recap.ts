@@ -0,0 +1,92 @@
+import type { SlideHistoryEntry } from "@/types/realtime";
+
+export const MAX_TAKEAWAY_SLIDES = 3;
+const MAX_BULLETS = 5;
+
+// Phrases that mean the speaker is wrapping up
+const CONCLUSION_PATTERNS = [
+  /in\s+conclusion/i,
+  /to\s+summarize/i,
+  /to\s+sum\s+up/i,
+  /in\s+summary/i,
+  /wrapping\s+up/i,
+  /to\s+conclude/i,
+  /that('s|s)\s+(all|it)\s+for\s+(today|now|this)/i,
+  /thank\s+you\s+(all\s+)?for\s+(listening|watching|your\s+time|attending)/i,
+  /any\s+questions/i,
+];
+
+export function detectsConclusionIntent(text: string): boolean {
+  return CONCLUSION_PATTERNS.some((pattern) => pattern.test(text));
+}
+
+export interface RecapSlideContent {
+  headline: string;
+  subheadline?: string;
+  bullets: string[];
+  visualDescription: string;
+  category: "summary" | "takeaway";
+}
+
+function toRecapSlide(input: unknown, category: RecapSlideContent["category"]): RecapSlideContent | null {
+  const { headline, subheadline, bullets, visualDescription } = (input ?? {}) as Record<string, unknown>;
+  if (typeof headline !== "string" || !headline.trim()) return null;
+
+  return {
+    headline: headline.trim(),
+    subheadline: typeof subheadline === "string" && subheadline.trim() ? subheadline.trim() : undefined,
+    bullets: Array.isArray(bullets)
+      ? bullets
+          .filter((bullet): bullet is string => typeof bullet === "string" && !!bullet.trim())
+          .slice(0, MAX_BULLETS)
+          .map((bullet) => bullet.trim())
+      : [],
+    visualDescription:
+      typeof visualDescription === "string" && visualDescription.trim()
+        ? visualDescription.trim()
+        : "A clean closing slide that ties the talk's main ideas together",
+    category,
+  };
+}
+
+/**
+ * Summary from the accepted slides alone, for when the model's recap can't
+ * be used. Lists the most recent headlines so it still reflects the talk.
+ */
+export function buildFallbackRecap(acceptedSlides: SlideHistoryEntry[]): RecapSlideContent {
+  const headlines = acceptedSlides
+    .filter((slide) => slide.category !== "intro")
+    .map((slide) => slide.headline)
+    .filter(Boolean);
+
+  return {
+    headline: "Key Takeaways",
+    subheadline: `What we covered across ${acceptedSlides.length} slide${acceptedSlides.length === 1 ? "" : "s"}`,
+    bullets: headlines.slice(-MAX_BULLETS),
+    visualDescription: "A clean closing slide that ties the talk's main ideas together",
+    category: "summary",
+  };
+}
+
+/**
+ * The recap slides in the order they should be offered: the summary first,
+ * then up to MAX_TAKEAWAY_SLIDES takeaway slides when they were asked for.
+ */
+export function parseRecapSlides(
+  input: unknown,
+  acceptedSlides: SlideHistoryEntry[],
+  includeTakeaways: boolean
+): RecapSlideContent[] {
+  const { summary, takeaways } = (input ?? {}) as { summary?: unknown; takeaways?: unknown };
+  const slides = [toRecapSlide(summary, "summary") ?? buildFallbackRecap(acceptedSlides)];
+
+  if (includeTakeaways && Array.isArray(takeaways)) {
+    slides.push(
+      ...takeaways
+        .map((takeaway) => toRecapSlide(takeaway, "takeaway"))
+        .filter((slide): slide is RecapSlideContent => slide !== null)
+        .slice(0, MAX_TAKEAWAY_SLIDES)
+    );
+  }
+  return slides;
+}
@@ -0,0 +1,85 @@
+import type { BrandKit } from "@/types/brandKit";
+import type { Feedback } from "@/types/feedback";
+import type { GenerationJob } from "@/types/jobs";
+import type { Poll } from "@/types/poll";
+import type { Reaction, ReactionCounts } from "@/types/reaction";
+import type { SlideData } from "@/types/slides";
+
+export interface CurrentSlideState {
+  slide: SlideData | null;
+  showQRCode: boolean;
+  audienceUrl: string | null;
+  revision: number;
+}
+
+interface SessionEventBase {
+  sessionId: string;
+  // Monotonically increasing per session, survives restarts with the file store
+  seq: number;
+}
+
+export type SessionEvent =
+  | (SessionEventBase & { type: "feedback-added"; feedback: Feedback })
+  | (SessionEventBase & { type: "feedback-pending"; feedback: Feedback })
+  | (SessionEventBase & { type: "feedback-rejected"; feedback: Feedback })
+  | (SessionEventBase & { type: "feedback-voted"; feedbackId: string; votes: number })
+  | (SessionEventBase & { type: "slide-changed"; state: CurrentSlideState })
+  | (SessionEventBase & { type: "poll-opened"; poll: Poll })
+  | (SessionEventBase & { type: "poll-voted"; poll: Poll })
+  | (SessionEventBase & { type: "poll-closed"; poll: Poll })
+  | (SessionEventBase & { type: "reaction-added"; reaction: Reaction; counts: ReactionCounts | null })
+  | (SessionEventBase & { type: "brand-kit-changed"; brandKit: BrandKit | null })
+  // Job progress is transient: it carries the latest seq instead of taking a new one
+  | (SessionEventBase & { type: "job-updated"; job: GenerationJob })
+  | (SessionEventBase & { type: "session-expired" })
+  | (SessionEventBase & { type: "session-deleted" });
+
+export type SessionEventType = SessionEvent["type"];
+
+export type SessionEventListener = (event: SessionEvent) => void;
+
+/**
+ * In-process pub/sub keyed by session ID
+ */
+export function createSessionEventBus() {
+  const listeners = new Map<string, Set<SessionEventListener>>();
+
+  return {
+    subscribe(sessionId: string, listener: SessionEventListener): () => void {
+      let sessionListeners = listeners.get(sessionId);
+      if (!sessionListeners) {
+        sessionListeners = new Set();
+        listeners.set(sessionId, sessionListeners);
+      }
+      sessionListeners.add(listener);
+
+      return () => {
+        const current = listeners.get(sessionId);
+        if (!current) return;
+        current.delete(listener);
+        if (current.size === 0) {
+          listeners.delete(sessionId);
+        }
+      };
+    },
+
+    emit(event: SessionEvent): void {
+      // Copy so listeners can unsubscribe while we iterate
+      const sessionListeners = Array.from(listeners.get(event.sessionId) ?? []);
+      for (const listener of sessionListeners) {
+        try {
+          listener(event);
+        } catch (error) {
+          console.error(`❌ Error in ${event.type} listener:`, error);
+        }
+      }
+    },
+
+    /**
+     * Drops every listener for a session (after it expires or is deleted)
+     */
+    clear(sessionId: string): void {
+      listeners.delete(sessionId);
+    },
+  };
+}
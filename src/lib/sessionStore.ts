@@ -1,6 +1,20 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, statSync, writeFileSync } from "fs";
+import { dirname, resolve } from "path";
 import { nanoid } from "nanoid";
 import { Session, Feedback } from "@/types/feedback";
+import type { BrandKit } from "@/types/brandKit";
+import type { GenerationJob } from "@/types/jobs";
+import type { Poll } from "@/types/poll";
+import type { Reaction, ReactionEmoji, ReactionTallies } from "@/types/reaction";
 import type { SlideData } from "@/types/slides";
+import { releaseImageBudget } from "@/utils/imageBudget";
+import {
+  createSessionEventBus,
+  type CurrentSlideState,
+  type SessionEventListener,
+} from "./sessionEvents";
+
+export type { CurrentSlideState, SessionEvent, SessionEventListener } from "./sessionEvents";
 
 interface SessionData extends Session {
   feedback: Feedback[];
@@ -8,173 +22,840 @@ interface SessionData extends Session {
   showQRCode: boolean;
   audienceUrl: string | null;
   slideRevision: number;
+  eventSeq: number;
+  // Feedback ID -> sequence number of its feedback-added event
+  feedbackSeqs: Record<string, number>;
+  // Feedback ID -> client IDs that upvoted it
+  feedbackVoters: Record<string, string[]>;
+  polls: Poll[];
+  // Poll ID -> client IDs that voted in it
+  pollVoters: Record<string, string[]>;
+  reactionTallies: ReactionTallies;
+  // New feedback waits for presenter approval while this is on
+  moderationEnabled: boolean;
+  brandKit: BrandKit | null;
 }
 
-// In-memory store for sessions
-const sessions = new Map<string, SessionData>();
-
-// Cleanup interval - removes expired sessions every 30 minutes
-setInterval(() => {
-  const now = new Date().toISOString();
-  for (const [sessionId, session] of sessions.entries()) {
-    if (session.expiresAt < now) {
-      sessions.delete(sessionId);
-      console.log(`🗑️ Cleaned up expired session: ${sessionId}`);
-    }
-  }
-}, 30 * 60 * 1000); // 30 minutes
+export interface UpvoteResult {
+  feedback: Feedback;
+  alreadyVoted: boolean;
+}
 
-export const sessionStore = {
-  /**
-   * Creates a new session with a unique ID
-   * Returns the session object
-   */
-  createSession(): Session {
-    const id = nanoid(8);
-    const createdAt = new Date().toISOString();
-    const expiresAt = new Date(Date.now() + 4 * 60 * 60 * 1000).toISOString(); // 4 hours
-    const presenterToken = nanoid(32);
+export interface PollVoteResult {
+  poll: Poll;
+  alreadyVoted: boolean;
+}
 
-    const session: SessionData = {
-      id,
-      createdAt,
-      expiresAt,
-      presenterToken,
-      feedback: [],
-      currentSlide: null,
-      showQRCode: false,
-      audienceUrl: null,
-      slideRevision: 0,
-    };
+export interface SequencedFeedback {
+  seq: number;
+  feedback: Feedback;
+}
 
-    sessions.set(id, session);
-    console.log(`✅ Created session: ${id}, expires at ${expiresAt}`);
+// Pending and rejected feedback stays off the audience board
+function isPublished(feedback: Feedback): boolean {
+  return feedback.status !== "pending" && feedback.status !== "rejected";
+}
 
-    return { id, createdAt, expiresAt, presenterToken };
-  },
+export interface CreateSessionOptions {
+  brandKit?: BrandKit | null;
+}
 
+export interface SessionStore {
+  createSession(options?: CreateSessionOptions): Session;
+  getSession(sessionId: string): Session | null;
   /**
-   * Retrieves a session by ID
-   * Returns null if not found or expired
+   * Adds feedback to a session, held as pending when moderation is on
    */
-  getSession(sessionId: string): Session | null {
-    const session = sessions.get(sessionId);
-    if (!session) return null;
-
-    // Check if expired
-    if (session.expiresAt < new Date().toISOString()) {
-      sessions.delete(sessionId);
-      return null;
-    }
-
-    return {
-      id: session.id,
-      createdAt: session.createdAt,
-      expiresAt: session.expiresAt,
-      presenterToken: session.presenterToken,
-    };
-  },
-
+  addFeedback(sessionId: string, text: string): Feedback | null;
   /**
-   * Adds feedback to a session
-   * Returns the feedback object or null if session not found
+   * Gets published feedback (excludes pending and rejected items)
    */
-  addFeedback(sessionId: string, text: string): Feedback | null {
-    const session = sessions.get(sessionId);
-    if (!session) return null;
+  getFeedback(sessionId: string, since?: string): Feedback[];
+  /**
+   * Gets feedback of any status whose event sequence number is greater than afterSeq
+   * Used to replay what a reconnecting stream client missed
+   */
+  getFeedbackAfterSeq(sessionId: string, afterSeq: number): SequencedFeedback[];
+  /**
+   * Gets the sequence number of the latest event emitted for a session
+   */
+  getLatestSeq(sessionId: string): number;
+  /**
+   * Records one upvote per voter on a feedback item
+   * Returns null if the session or feedback is not found
+   */
+  upvoteFeedback(sessionId: string, feedbackId: string, voterId: string): UpvoteResult | null;
+  setModeration(sessionId: string, enabled: boolean): boolean;
+  isModerationEnabled(sessionId: string): boolean;
+  /**
+   * Publishes a pending feedback item, optionally with moderator-edited text
+   * Returns null if the session is not found or the item is not pending
+   */
+  approveFeedback(sessionId: string, feedbackId: string, editedText?: string): Feedback | null;
+  /**
+   * Rejects a pending feedback item and records why
+   * Returns null if the session is not found or the item is not pending
+   */
+  rejectFeedback(sessionId: string, feedbackId: string, reason: string): Feedback | null;
+  /**
+   * Moves a published feedback item back to pending so the presenter reviews it
+   * Returns null if the session is not found or the item is not published unreviewed
+   */
+  holdFeedback(sessionId: string, feedbackId: string, reason: string): Feedback | null;
+  /**
+   * Opens a multiple-choice poll, closing any poll that is still open
+   * Returns null if the session is not found
+   */
+  createPoll(sessionId: string, question: string, options: string[]): Poll | null;
+  /**
+   * Gets the currently open poll, if any
+   */
+  getActivePoll(sessionId: string): Poll | null;
+  /**
+   * Records one vote per voter in an open poll
+   * Returns null if the session, poll or option is not found or the poll is closed
+   */
+  votePoll(sessionId: string, pollId: string, optionId: string, voterId: string): PollVoteResult | null;
+  /**
+   * Closes a poll and returns its final results
+   */
+  closePoll(sessionId: string, pollId: string): Poll | null;
+  /**
+   * Records an emoji reaction against the slide currently on screen
+   * Returns null if the session is not found
+   */
+  addReaction(sessionId: string, emoji: ReactionEmoji): Reaction | null;
+  /**
+   * Gets reaction counts per slide ID
+   */
+  getReactionTallies(sessionId: string): ReactionTallies;
+  /**
+   * Replaces the session's brand kit (null removes it)
+   * Returns false if the session is not found
+   */
+  setBrandKit(sessionId: string, brandKit: BrandKit | null): boolean;
+  getBrandKit(sessionId: string): BrandKit | null;
+  /**
+   * Announces a change to one of the session's generation jobs
+   * The jobs themselves live in the job queue, not in the store
+   * Returns false if the session is not found
+   */
+  publishJobUpdate(sessionId: string, job: GenerationJob): boolean;
+  deleteSession(sessionId: string): void;
+  updateCurrentSlide(sessionId: string, slide: SlideData | null, showQRCode?: boolean, audienceUrl?: string | null): boolean;
+  getCurrentSlide(sessionId: string): CurrentSlideState | null;
+  /**
+   * Calls the listener for every event emitted for the session
+   * Returns a function that removes the listener
+   */
+  subscribe(sessionId: string, listener: SessionEventListener): () => void;
+  /**
+   * Removes every expired session
+   * Returns the IDs that were removed
+   */
+  cleanupExpired(): string[];
+}
 
-    // Check if expired
-    if (session.expiresAt < new Date().toISOString()) {
+/**
+ * Minimal keyed storage the session store logic runs on top of.
+ * Callers must `set` a session again after mutating it so persistent
+ * backends can flush the change.
+ */
+interface SessionRecords {
+  get(sessionId: string): SessionData | undefined;
+  // `batched` lets a backend delay the write, for high-frequency changes such as votes
+  set(sessionId: string, session: SessionData, options?: { batched?: boolean }): void;
+  delete(sessionId: string): void;
+  entries(): [string, SessionData][];
+}
+
+function createMemoryRecords(): SessionRecords {
+  const sessions = new Map<string, SessionData>();
+  return {
+    get: (sessionId) => sessions.get(sessionId),
+    set: (sessionId, session) => {
+      sessions.set(sessionId, session);
+    },
+    delete: (sessionId) => {
       sessions.delete(sessionId);
-      return null;
-    }
+    },
+    entries: () => Array.from(sessions.entries()),
+  };
+}
 
-    const feedback: Feedback = {
-      id: nanoid(8),
-      sessionId,
-      text,
-      timestamp: new Date().toISOString(),
-    };
+// How long batched changes (votes, reactions) wait before the file is rewritten
+const BATCHED_FLUSH_DELAY_MS = 1000;
 
-    session.feedback.push(feedback);
-    console.log(`📝 Added feedback to session ${sessionId}: "${text.substring(0, 50)}..."`);
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
 
-    return feedback;
-  },
+const sameJson = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
 
-  /**
-   * Gets all feedback for a session
-   * Optionally filter by timestamp (get feedback since a specific time)
-   */
-  getFeedback(sessionId: string, since?: string): Feedback[] {
-    const session = sessions.get(sessionId);
-    if (!session) return [];
+/**
+ * Three-way merge of a session changed here (ours) and in the file (theirs),
+ * both starting from base. Objects merge per key, arrays of items with an id
+ * per item, other arrays as sets, and counters add up both sides' increments.
+ */
+function mergeChanges(base: unknown, ours: unknown, theirs: unknown): unknown {
+  if (sameJson(ours, base)) return theirs;
+  if (sameJson(theirs, base) || theirs === undefined) return ours;
 
-    // Check if expired
-    if (session.expiresAt < new Date().toISOString()) {
-      sessions.delete(sessionId);
-      return [];
+  if (typeof base === "number" && typeof ours === "number" && typeof theirs === "number") {
+    return base + (ours - base) + (theirs - base);
+  }
+
+  if (isPlainObject(ours) && isPlainObject(theirs)) {
+    const baseObject = isPlainObject(base) ? base : {};
+    const merged: Record<string, unknown> = {};
+    for (const key of new Set([...Object.keys(theirs), ...Object.keys(ours)])) {
+      const value = mergeChanges(baseObject[key], ours[key], theirs[key]);
+      if (value !== undefined) merged[key] = value;
     }
+    return merged;
+  }
 
-    if (since) {
-      return session.feedback.filter((f) => f.timestamp > since);
+  if (Array.isArray(ours) && Array.isArray(theirs)) {
+    const baseItems = Array.isArray(base) ? base : [];
+    const idOf = (item: unknown) =>
+      isPlainObject(item) && typeof item.id === "string" ? item.id : undefined;
+
+    if ([...ours, ...theirs].every((item) => idOf(item) !== undefined)) {
+      const baseById = new Map(baseItems.map((item) => [idOf(item), item]));
+      const oursById = new Map(ours.map((item) => [idOf(item), item]));
+      const theirIds = new Set(theirs.map(idOf));
+      return [
+        // Items removed here stay removed
+        ...theirs
+          .filter((item) => oursById.has(idOf(item)) || !baseById.has(idOf(item)))
+          .map((item) => {
+            const id = idOf(item);
+            return oursById.has(id) ? mergeChanges(baseById.get(id), oursById.get(id), item) : item;
+          }),
+        ...ours.filter((item) => !theirIds.has(idOf(item)) && !baseById.has(idOf(item))),
+      ];
     }
 
-    return session.feedback;
-  },
+    const baseSet = new Set(baseItems.map((item) => JSON.stringify(item)));
+    const ourSet = new Set(ours.map((item) => JSON.stringify(item)));
+    const theirSet = new Set(theirs.map((item) => JSON.stringify(item)));
+    return [
+      ...theirs.filter((item) => ourSet.has(JSON.stringify(item)) || !baseSet.has(JSON.stringify(item))),
+      ...ours.filter((item) => !theirSet.has(JSON.stringify(item)) && !baseSet.has(JSON.stringify(item))),
+    ];
+  }
 
-  /**
-   * Deletes a session and all its feedback
-   */
-  deleteSession(sessionId: string): void {
-    sessions.delete(sessionId);
-    console.log(`🗑️ Deleted session: ${sessionId}`);
-  },
+  return ours;
+}
 
-  /**
-   * Updates the current slide for a session
-   * Returns true if successful, false if session not found
-   */
-  updateCurrentSlide(sessionId: string, slide: SlideData | null, showQRCode?: boolean, audienceUrl?: string | null): boolean {
-    const session = sessions.get(sessionId);
-    if (!session) return false;
+/**
+ * JSON file on local disk. The file is re-read whenever its mtime changes so
+ * separate module instances (and restarted servers) see the same sessions.
+ * Batched changes are written together at most once per BATCHED_FLUSH_DELAY_MS,
+ * so bursts of votes and reactions don't rewrite the whole file on every tap.
+ * Changes not yet written are merged into every re-read, and every write
+ * re-reads the file first, so one instance never overwrites another's changes.
+ */
+function createFileRecords(filePath: string): SessionRecords {
+  const absolutePath = resolve(filePath);
+  let sessions = new Map<string, SessionData>();
+  // A second, never mutated copy of what the file held at the last read
+  let fileSnapshot: Record<string, SessionData> = {};
+  let loadedMtimeMs = -1;
+  // Sessions changed here that the file doesn't have yet, with the file's version they started from
+  const unflushed = new Map<string, { base: SessionData | undefined; session: SessionData }>();
+  let pendingFlush: ReturnType<typeof setTimeout> | null = null;
 
-    // Check if expired
-    if (session.expiresAt < new Date().toISOString()) {
-      sessions.delete(sessionId);
-      return false;
+  const load = () => {
+    if (!existsSync(absolutePath)) {
+      sessions = new Map(Array.from(unflushed, ([sessionId, { session }]) => [sessionId, session]));
+      fileSnapshot = {};
+      loadedMtimeMs = -1;
+      return;
     }
+    const { mtimeMs } = statSync(absolutePath);
+    if (mtimeMs === loadedMtimeMs) return;
 
-    session.currentSlide = slide;
-    if (showQRCode !== undefined) {
-      session.showQRCode = showQRCode;
+    try {
+      const text = readFileSync(absolutePath, "utf8");
+      sessions = new Map(Object.entries(JSON.parse(text) as Record<string, SessionData>));
+      fileSnapshot = JSON.parse(text) as Record<string, SessionData>;
+    } catch (error) {
+      console.error(`❌ Failed to read session file ${absolutePath}:`, error);
+      sessions = new Map();
+      fileSnapshot = {};
     }
-    if (audienceUrl !== undefined) {
-      session.audienceUrl = audienceUrl;
+
+    for (const [sessionId, { base, session }] of unflushed) {
+      const theirs = sessions.get(sessionId);
+      if (base && !theirs) {
+        // Deleted by another instance since we changed it
+        unflushed.delete(sessionId);
+        continue;
+      }
+      const merged = theirs ? (mergeChanges(base, session, theirs) as SessionData) : session;
+      sessions.set(sessionId, merged);
+      unflushed.set(sessionId, { base: fileSnapshot[sessionId], session: merged });
     }
-    session.slideRevision += 1;
-    console.log(`📺 Updated current slide for session ${sessionId}`);
-    return true;
-  },
+    loadedMtimeMs = mtimeMs;
+  };
 
-  /**
-   * Gets the current slide for a session along with QR code state
-   */
-  getCurrentSlide(sessionId: string): { slide: SlideData | null; showQRCode: boolean; audienceUrl: string | null; revision: number } | null {
-    const session = sessions.get(sessionId);
+  const flush = () => {
+    if (pendingFlush) {
+      clearTimeout(pendingFlush);
+      pendingFlush = null;
+    }
+    // Merge in whatever other instances wrote since the last read
+    load();
+    unflushed.clear();
+    mkdirSync(dirname(absolutePath), { recursive: true });
+    // Write to a temp file first so a crash mid-write never truncates the store
+    const tempPath = `${absolutePath}.${process.pid}.tmp`;
+    const text = JSON.stringify(Object.fromEntries(sessions));
+    writeFileSync(tempPath, text);
+    renameSync(tempPath, absolutePath);
+    fileSnapshot = JSON.parse(text) as Record<string, SessionData>;
+    loadedMtimeMs = statSync(absolutePath).mtimeMs;
+  };
+
+  // Writes whatever is still batched when the server shuts down
+  process.once("exit", () => {
+    if (pendingFlush) flush();
+  });
+
+  return {
+    get: (sessionId) => {
+      load();
+      return sessions.get(sessionId);
+    },
+    set: (sessionId, session, { batched = false } = {}) => {
+      load();
+      sessions.set(sessionId, session);
+      unflushed.set(sessionId, {
+        base: unflushed.get(sessionId)?.base ?? fileSnapshot[sessionId],
+        session,
+      });
+      if (!batched) {
+        flush();
+      } else if (!pendingFlush) {
+        pendingFlush = setTimeout(flush, BATCHED_FLUSH_DELAY_MS);
+        // Don't keep the process alive just to write votes; the exit handler writes them
+        pendingFlush.unref?.();
+      }
+    },
+    delete: (sessionId) => {
+      load();
+      unflushed.delete(sessionId);
+      if (sessions.delete(sessionId)) {
+        flush();
+      }
+    },
+    entries: () => {
+      load();
+      return Array.from(sessions.entries());
+    },
+  };
+}
+
+function createSessionStoreFromRecords(records: SessionRecords): SessionStore {
+  const bus = createSessionEventBus();
+
+  // Assigns the next sequence number; callers persist the session afterwards
+  const nextSeq = (session: SessionData): number => {
+    // Sessions written before sequence numbers existed start from zero
+    session.eventSeq = (session.eventSeq ?? 0) + 1;
+    return session.eventSeq;
+  };
+
+  const expireSession = (session: SessionData) => {
+    records.delete(session.id);
+    releaseImageBudget(session.id);
+    bus.emit({ type: "session-expired", sessionId: session.id, seq: nextSeq(session) });
+    bus.clear(session.id);
+  };
+
+  // Returns the live session or null, deleting it if it has expired
+  const getActiveSession = (sessionId: string): SessionData | null => {
+    const session = records.get(sessionId);
     if (!session) return null;
 
     // Check if expired
     if (session.expiresAt < new Date().toISOString()) {
-      sessions.delete(sessionId);
+      expireSession(session);
       return null;
     }
 
-    return {
-      slide: session.currentSlide,
-      showQRCode: session.showQRCode,
-      audienceUrl: session.audienceUrl,
-      revision: session.slideRevision,
-    };
-  },
-};
+    return session;
+  };
+
+  return {
+    /**
+     * Creates a new session with a unique ID
+     * Returns the session object
+     */
+    createSession(options: CreateSessionOptions = {}): Session {
+      const id = nanoid(8);
+      const createdAt = new Date().toISOString();
+      const expiresAt = new Date(Date.now() + 4 * 60 * 60 * 1000).toISOString(); // 4 hours
+      const presenterToken = nanoid(32);
+
+      const session: SessionData = {
+        id,
+        createdAt,
+        expiresAt,
+        presenterToken,
+        feedback: [],
+        currentSlide: null,
+        showQRCode: false,
+        audienceUrl: null,
+        slideRevision: 0,
+        eventSeq: 0,
+        feedbackSeqs: {},
+        feedbackVoters: {},
+        polls: [],
+        pollVoters: {},
+        reactionTallies: {},
+        moderationEnabled: false,
+        brandKit: options.brandKit ?? null,
+      };
+
+      records.set(id, session);
+      console.log(`✅ Created session: ${id}, expires at ${expiresAt}`);
+
+      return { id, createdAt, expiresAt, presenterToken };
+    },
+
+    /**
+     * Retrieves a session by ID
+     * Returns null if not found or expired
+     */
+    getSession(sessionId: string): Session | null {
+      const session = getActiveSession(sessionId);
+      if (!session) return null;
+
+      return {
+        id: session.id,
+        createdAt: session.createdAt,
+        expiresAt: session.expiresAt,
+        presenterToken: session.presenterToken,
+      };
+    },
+
+    /**
+     * Adds feedback to a session
+     * Returns the feedback object or null if session not found
+     */
+    addFeedback(sessionId: string, text: string): Feedback | null {
+      const session = getActiveSession(sessionId);
+      if (!session) return null;
+
+      const feedback: Feedback = {
+        id: nanoid(8),
+        sessionId,
+        text,
+        timestamp: new Date().toISOString(),
+        votes: 0,
+      };
+      if (session.moderationEnabled) {
+        feedback.status = "pending";
+      }
+
+      session.feedback.push(feedback);
+      const seq = nextSeq(session);
+      session.feedbackSeqs = { ...session.feedbackSeqs, [feedback.id]: seq };
+      records.set(sessionId, session);
+      console.log(`📝 Added feedback to session ${sessionId}: "${text.substring(0, 50)}..."`);
+
+      bus.emit({
+        type: feedback.status === "pending" ? "feedback-pending" : "feedback-added",
+        sessionId,
+        seq,
+        feedback,
+      });
+
+      return feedback;
+    },
+
+    /**
+     * Gets all feedback for a session
+     * Optionally filter by timestamp (get feedback since a specific time)
+     */
+    getFeedback(sessionId: string, since?: string): Feedback[] {
+      const session = getActiveSession(sessionId);
+      if (!session) return [];
+
+      const published = session.feedback.filter(isPublished);
+      if (since) {
+        return published.filter((f) => f.timestamp > since);
+      }
+
+      return published;
+    },
+
+    getFeedbackAfterSeq(sessionId: string, afterSeq: number): SequencedFeedback[] {
+      const session = getActiveSession(sessionId);
+      if (!session) return [];
+
+      return session.feedback
+        .map((feedback) => ({ seq: session.feedbackSeqs?.[feedback.id] ?? 0, feedback }))
+        .filter((entry) => entry.seq > afterSeq);
+    },
+
+    getLatestSeq(sessionId: string): number {
+      return getActiveSession(sessionId)?.eventSeq ?? 0;
+    },
+
+    upvoteFeedback(sessionId: string, feedbackId: string, voterId: string): UpvoteResult | null {
+      const session = getActiveSession(sessionId);
+      if (!session) return null;
+
+      const feedback = session.feedback.find((f) => f.id === feedbackId);
+      if (!feedback || !isPublished(feedback)) return null;
+
+      const voters = session.feedbackVoters?.[feedbackId] ?? [];
+      if (voters.includes(voterId)) {
+        return { feedback, alreadyVoted: true };
+      }
+
+      session.feedbackVoters = { ...session.feedbackVoters, [feedbackId]: [...voters, voterId] };
+      feedback.votes = voters.length + 1;
+      const seq = nextSeq(session);
+      records.set(sessionId, session, { batched: true });
+      console.log(`👍 Upvoted feedback ${feedbackId} in session ${sessionId} (${feedback.votes})`);
+
+      bus.emit({ type: "feedback-voted", sessionId, seq, feedbackId, votes: feedback.votes });
+
+      return { feedback, alreadyVoted: false };
+    },
+
+    setModeration(sessionId: string, enabled: boolean): boolean {
+      const session = getActiveSession(sessionId);
+      if (!session) return false;
+
+      session.moderationEnabled = enabled;
+      records.set(sessionId, session);
+      console.log(`🛡️ Moderation ${enabled ? "enabled" : "disabled"} for session ${sessionId}`);
+      return true;
+    },
+
+    isModerationEnabled(sessionId: string): boolean {
+      return getActiveSession(sessionId)?.moderationEnabled ?? false;
+    },
+
+    approveFeedback(sessionId: string, feedbackId: string, editedText?: string): Feedback | null {
+      const session = getActiveSession(sessionId);
+      if (!session) return null;
+
+      const feedback = session.feedback.find((f) => f.id === feedbackId);
+      if (!feedback || feedback.status !== "pending") return null;
+
+      if (editedText && editedText !== feedback.text) {
+        feedback.originalText = feedback.text;
+        feedback.text = editedText;
+      }
+      feedback.status = "approved";
+      // Re-sequence so stream replay treats approval as the moment it was published
+      const seq = nextSeq(session);
+      session.feedbackSeqs = { ...session.feedbackSeqs, [feedback.id]: seq };
+      records.set(sessionId, session);
+      console.log(`✅ Approved feedback ${feedbackId} in session ${sessionId}`);
+
+      bus.emit({ type: "feedback-added", sessionId, seq, feedback });
+      return feedback;
+    },
+
+    rejectFeedback(sessionId: string, feedbackId: string, reason: string): Feedback | null {
+      const session = getActiveSession(sessionId);
+      if (!session) return null;
+
+      const feedback = session.feedback.find((f) => f.id === feedbackId);
+      if (!feedback || feedback.status !== "pending") return null;
+
+      feedback.status = "rejected";
+      feedback.rejectionReason = reason;
+      const seq = nextSeq(session);
+      session.feedbackSeqs = { ...session.feedbackSeqs, [feedback.id]: seq };
+      records.set(sessionId, session);
+      console.log(`🚫 Rejected feedback ${feedbackId} in session ${sessionId}: ${reason}`);
+
+      bus.emit({ type: "feedback-rejected", sessionId, seq, feedback });
+      return feedback;
+    },
+
+    holdFeedback(sessionId: string, feedbackId: string, reason: string): Feedback | null {
+      const session = getActiveSession(sessionId);
+      if (!session) return null;
+
+      // Approved items have already been reviewed, so only unmoderated ones can be held
+      const feedback = session.feedback.find((f) => f.id === feedbackId);
+      if (!feedback || feedback.status !== undefined) return null;
+
+      feedback.status = "pending";
+      feedback.reviewReason = reason;
+      const seq = nextSeq(session);
+      session.feedbackSeqs = { ...session.feedbackSeqs, [feedback.id]: seq };
+      records.set(sessionId, session);
+      console.log(`⏸️ Held feedback ${feedbackId} in session ${sessionId} for review: ${reason}`);
+
+      bus.emit({ type: "feedback-pending", sessionId, seq, feedback });
+      return feedback;
+    },
+
+    /**
+     * Deletes a session and all its feedback
+     */
+    deleteSession(sessionId: string): void {
+      const session = records.get(sessionId);
+      records.delete(sessionId);
+      releaseImageBudget(sessionId);
+      console.log(`🗑️ Deleted session: ${sessionId}`);
+
+      if (session) {
+        bus.emit({ type: "session-deleted", sessionId, seq: nextSeq(session) });
+      }
+      bus.clear(sessionId);
+    },
+
+    /**
+     * Updates the current slide for a session
+     * Returns true if successful, false if session not found
+     */
+    updateCurrentSlide(sessionId: string, slide: SlideData | null, showQRCode?: boolean, audienceUrl?: string | null): boolean {
+      const session = getActiveSession(sessionId);
+      if (!session) return false;
+
+      session.currentSlide = slide;
+      if (showQRCode !== undefined) {
+        session.showQRCode = showQRCode;
+      }
+      if (audienceUrl !== undefined) {
+        session.audienceUrl = audienceUrl;
+      }
+      session.slideRevision += 1;
+      const seq = nextSeq(session);
+      records.set(sessionId, session);
+      console.log(`📺 Updated current slide for session ${sessionId}`);
+
+      bus.emit({
+        type: "slide-changed",
+        sessionId,
+        seq,
+        state: {
+          slide: session.currentSlide,
+          showQRCode: session.showQRCode,
+          audienceUrl: session.audienceUrl,
+          revision: session.slideRevision,
+        },
+      });
+      return true;
+    },
+
+    /**
+     * Gets the current slide for a session along with QR code state
+     */
+    getCurrentSlide(sessionId: string): CurrentSlideState | null {
+      const session = getActiveSession(sessionId);
+      if (!session) return null;
+
+      return {
+        slide: session.currentSlide,
+        showQRCode: session.showQRCode,
+        audienceUrl: session.audienceUrl,
+        revision: session.slideRevision,
+      };
+    },
+
+    createPoll(sessionId: string, question: string, options: string[]): Poll | null {
+      const session = getActiveSession(sessionId);
+      if (!session) return null;
+
+      const polls = session.polls ?? [];
+      const poll: Poll = {
+        id: nanoid(8),
+        sessionId,
+        question,
+        options: options.map((label) => ({ id: nanoid(6), label, votes: 0 })),
+        status: "open",
+        createdAt: new Date().toISOString(),
+      };
+
+      // Only one poll runs at a time
+      const previous = polls.find((p) => p.status === "open");
+      if (previous) {
+        previous.status = "closed";
+        previous.closedAt = poll.createdAt;
+      }
+
+      session.polls = [...polls, poll];
+      const seq = nextSeq(session);
+      records.set(sessionId, session);
+      console.log(`📊 Opened poll ${poll.id} in session ${sessionId}: "${question.substring(0, 50)}"`);
+
+      bus.emit({ type: "poll-opened", sessionId, seq, poll });
+      return poll;
+    },
+
+    getActivePoll(sessionId: string): Poll | null {
+      const session = getActiveSession(sessionId);
+      if (!session) return null;
+
+      return (session.polls ?? []).find((p) => p.status === "open") ?? null;
+    },
+
+    votePoll(sessionId: string, pollId: string, optionId: string, voterId: string): PollVoteResult | null {
+      const session = getActiveSession(sessionId);
+      if (!session) return null;
+
+      const poll = (session.polls ?? []).find((p) => p.id === pollId);
+      if (!poll || poll.status !== "open") return null;
+
+      const option = poll.options.find((o) => o.id === optionId);
+      if (!option) return null;
+
+      const voters = session.pollVoters?.[pollId] ?? [];
+      if (voters.includes(voterId)) {
+        return { poll, alreadyVoted: true };
+      }
+
+      session.pollVoters = { ...session.pollVoters, [pollId]: [...voters, voterId] };
+      option.votes += 1;
+      const seq = nextSeq(session);
+      records.set(sessionId, session, { batched: true });
+
+      bus.emit({ type: "poll-voted", sessionId, seq, poll });
+      return { poll, alreadyVoted: false };
+    },
+
+    closePoll(sessionId: string, pollId: string): Poll | null {
+      const session = getActiveSession(sessionId);
+      if (!session) return null;
+
+      const poll = (session.polls ?? []).find((p) => p.id === pollId);
+      if (!poll) return null;
+      if (poll.status === "closed") return poll;
+
+      poll.status = "closed";
+      poll.closedAt = new Date().toISOString();
+      const seq = nextSeq(session);
+      records.set(sessionId, session);
+      console.log(`📊 Closed poll ${pollId} in session ${sessionId}`);
+
+      bus.emit({ type: "poll-closed", sessionId, seq, poll });
+      return poll;
+    },
+
+    addReaction(sessionId: string, emoji: ReactionEmoji): Reaction | null {
+      const session = getActiveSession(sessionId);
+      if (!session) return null;
+
+      const slideId = session.currentSlide?.id ?? null;
+      const reaction: Reaction = {
+        id: nanoid(8),
+        sessionId,
+        emoji,
+        slideId,
+        timestamp: new Date().toISOString(),
+      };
+
+      // Reactions before the first slide still float by but aren't tallied
+      let counts = null;
+      if (slideId) {
+        const previous = session.reactionTallies?.[slideId] ?? {};
+        counts = { ...previous, [emoji]: (previous[emoji] ?? 0) + 1 };
+        session.reactionTallies = { ...session.reactionTallies, [slideId]: counts };
+      }
+      const seq = nextSeq(session);
+      records.set(sessionId, session, { batched: true });
+
+      bus.emit({ type: "reaction-added", sessionId, seq, reaction, counts });
+      return reaction;
+    },
+
+    getReactionTallies(sessionId: string): ReactionTallies {
+      const session = getActiveSession(sessionId);
+      if (!session) return {};
+
+      return session.reactionTallies ?? {};
+    },
+
+    setBrandKit(sessionId: string, brandKit: BrandKit | null): boolean {
+      const session = getActiveSession(sessionId);
+      if (!session) return false;
+
+      session.brandKit = brandKit;
+      const seq = nextSeq(session);
+      records.set(sessionId, session);
+
+      bus.emit({ type: "brand-kit-changed", sessionId, seq, brandKit });
+      return true;
+    },
+
+    getBrandKit(sessionId: string): BrandKit | null {
+      return getActiveSession(sessionId)?.brandKit ?? null;
+    },
+
+    publishJobUpdate(sessionId: string, job: GenerationJob): boolean {
+      const session = getActiveSession(sessionId);
+      if (!session) return false;
+
+      // Progress ticks aren't replayed, so they neither take a seq nor touch storage
+      bus.emit({ type: "job-updated", sessionId, seq: session.eventSeq ?? 0, job });
+      return true;
+    },
+
+    subscribe(sessionId: string, listener: SessionEventListener): () => void {
+      return bus.subscribe(sessionId, listener);
+    },
+
+    cleanupExpired(): string[] {
+      const now = new Date().toISOString();
+      const removed: string[] = [];
+      for (const [sessionId, session] of records.entries()) {
+        if (session.expiresAt < now) {
+          expireSession(session);
+          removed.push(sessionId);
+          console.log(`🗑️ Cleaned up expired session: ${sessionId}`);
+        }
+      }
+      return removed;
+    },
+  };
+}
+
+/**
+ * Sessions live only as long as the server process
+ */
+export function createInMemorySessionStore(): SessionStore {
+  return createSessionStoreFromRecords(createMemoryRecords());
+}
+
+/**
+ * Sessions are persisted to a JSON file so a restarted server resumes
+ * the same sessions with the same presenter tokens
+ */
+export function createFileSessionStore(filePath: string): SessionStore {
+  return createSessionStoreFromRecords(createFileRecords(filePath));
+}
+
+/**
+ * Picks the backend from SESSION_STORE ("memory" or "file").
+ * The file backend writes to SESSION_STORE_FILE (default .data/sessions.json).
+ */
+export function createSessionStore(): SessionStore {
+  const backend = process.env.SESSION_STORE || "memory";
+  if (backend === "file") {
+    const filePath = process.env.SESSION_STORE_FILE || ".data/sessions.json";
+    console.log(`💾 Using file session store at ${filePath}`);
+    return createFileSessionStore(filePath);
+  }
+  if (backend !== "memory") {
+    console.warn(`Unknown SESSION_STORE "${backend}", falling back to memory`);
+  }
+  return createInMemorySessionStore();
+}
+
+export const sessionStore: SessionStore = createSessionStore();
+
+// Cleanup interval - removes expired sessions every 30 minutes
+setInterval(() => {
+  sessionStore.cleanupExpired();
+}, 30 * 60 * 1000); // 30 minutes
@@ -1,3 +1,5 @@
+import type { BrandKit } from "@/types/brandKit";
+
 // Background color mapping
 export const bgColors: Record<string, string> = {
   slate: "bg-slate-800",
@@ -38,3 +40,11 @@ export function getBgStyle(color: string): React.CSSProperties {
   }
   return {};
 }
+
+// A native slide's own color wins, then the session brand kit, then the default
+export function resolveSlideBackground(
+  backgroundColor: string | undefined,
+  brandKit?: BrandKit | null
+): string {
+  return backgroundColor || brandKit?.colors.background || "zinc";
+}
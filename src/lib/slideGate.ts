@@ -0,0 +1,304 @@
+import type { LLMClient, LLMFunctionDeclaration } from "@/lib/llm";
+import { normalizeSources } from "@/lib/citations";
+import { parseChartData } from "@/lib/charts";
+import { normalizeDiagramSource } from "@/lib/diagram";
+import { formatOutlineForPrompt, normalizeOutline } from "@/lib/outline";
+import { detectsConclusionIntent } from "@/lib/recap";
+import { buildGateProfilePrompt, isCategoryAllowed, limitBullets, normalizeGateProfile } from "@/lib/gateProfile";
+import type { GenerationJobGateResult } from "@/types/jobs";
+import type { OutlineSection } from "@/types/outline";
+
+// Tool definition for creating a slide
+const createSlideTool: LLMFunctionDeclaration = {
+  name: "create_slide",
+  description: "Create a forward-thinking presentation slide that anticipates and elevates the speaker's ideas. Transform spoken content into compelling visual insights that help the audience see the bigger picture.",
+  parameters: {
+    type: "object",
+    properties: {
+      headline: {
+        type: "string",
+        description: "A compelling headline that captures the insight or implication, not just the topic (5-10 words). Frame it as a takeaway or forward-looking statement.",
+      },
+      subheadline: {
+        type: "string",
+        description: "Optional supporting text that adds depth or points toward implications (10-20 words)",
+      },
+      bullets: {
+        type: "array",
+        items: { type: "string" },
+        description: "Optional bullet points highlighting key implications or actionable insights (2-4 bullets, each 5-15 words)",
+      },
+      visualDescription: {
+        type: "string",
+        description: "A detailed description of a visual that reinforces the forward momentum and insight of the idea, not just illustrates the topic literally",
+      },
+      category: {
+        type: "string",
+        description: "The type of slide: concept, data, process, comparison, quote, or summary",
+      },
+      chart: {
+        type: "object",
+        description: "Only for data slides where the speaker stated several comparable numbers. Use exactly the numbers the speaker said; never estimate or invent values. The chart is drawn from this data instead of by the image model.",
+        properties: {
+          type: {
+            type: "string",
+            description: "One of: bar (compare categories), line (change over time), pie (shares of a whole)",
+          },
+          labels: {
+            type: "array",
+            items: { type: "string" },
+            description: "Category or time labels, one per value (2-12)",
+          },
+          series: {
+            type: "array",
+            description: "One or more data series (a pie uses only the first)",
+            items: {
+              type: "object",
+              properties: {
+                name: { type: "string", description: "Series name, e.g. the metric or year" },
+                values: {
+                  type: "array",
+                  items: { type: "number" },
+                  description: "One number per label, in label order",
+                },
+              },
+              required: ["name", "values"],
+            },
+          },
+          unit: {
+            type: "string",
+            description: "Unit of the values: %, a currency symbol such as $, or a word such as users",
+          },
+        },
+        required: ["type", "labels", "series"],
+      },
+      diagram: {
+        type: "string",
+        description: "Only for process slides describing steps, flows or interactions. Mermaid-style text: \"flowchart LR\" (or TD) with lines like A[Step] --> B{Decision} and B -->|yes| C(Done), or \"sequenceDiagram\" with lines like User->>API: Request. At most 15 nodes or 12 messages. The diagram is drawn from this text instead of by the image model.",
+      },
+    },
+    required: ["headline", "visualDescription", "category"],
+  },
+};
+
+export interface PriorIdea {
+  title: string;
+  content: string;
+  category: string;
+}
+
+export interface AcceptedSlide {
+  id: string;
+  headline: string;
+  visualDescription: string;
+  category: string;
+}
+
+// Which outline section the transcript is in; keeps the current one when the model can't tell
+async function classifySection(
+  llm: LLMClient,
+  transcript: string,
+  outline: OutlineSection[],
+  currentSectionId: string | null,
+  signal?: AbortSignal
+): Promise<string | null> {
+  const prompt = `You are tracking a live talk against the speaker's outline.
+
+OUTLINE:
+${formatOutlineForPrompt(outline, currentSectionId)}
+
+RECENT TRANSCRIPT:
+"${transcript.slice(-1500)}"
+
+Which section is the speaker in right now? Speakers usually move forward through the outline, but may skip ahead or go back.
+Respond with JSON only: {"section": <section number>}. Use 0 if the transcript doesn't clearly match any section.`;
+
+  try {
+    const { text } = await llm.generate({
+      task: "outline-section",
+      tier: "fast",
+      prompt,
+      json: true,
+      subject: transcript,
+      signal,
+    });
+    const { section } = JSON.parse(text) as { section?: unknown };
+    const index = typeof section === "number" ? Math.round(section) - 1 : -1;
+    return outline[index]?.id ?? currentSectionId;
+  } catch (error) {
+    console.error("Outline section classification failed:", error);
+    return currentSectionId;
+  }
+}
+
+export interface SlideGateRequest {
+  transcript: string;
+  priorIdeas?: PriorIdea[];
+  acceptedSlides?: AcceptedSlide[];
+  isFirstSlide?: boolean;
+  // Validated here, since they come straight from the client
+  outline?: unknown;
+  gateProfile?: unknown;
+  currentSectionId?: unknown;
+}
+
+export type SlideGateResult = GenerationJobGateResult;
+
+/**
+ * Decides whether the transcript is worth a slide, and writes its content if so.
+ * Used by /api/slide-gate and by the server-side generation jobs.
+ */
+export async function runSlideGate(
+  llm: LLMClient,
+  body: SlideGateRequest,
+  signal?: AbortSignal
+): Promise<SlideGateResult> {
+  const { transcript, priorIdeas = [], acceptedSlides = [], isFirstSlide = false } = body;
+  const outline = normalizeOutline(body.outline);
+  const gateProfile = normalizeGateProfile(body.gateProfile);
+  const requestedSectionId = outline.some((section) => section.id === body.currentSectionId)
+    ? (body.currentSectionId as string)
+    : null;
+
+  if (!transcript || transcript.trim().length < 10) {
+    return {
+      shouldCreateSlide: false,
+      reason: "Transcript too short",
+    };
+  }
+
+  const priorIdeasText = priorIdeas.length > 0
+    ? `\nPRIOR SLIDES ALREADY CREATED (do not duplicate these):\n${priorIdeas.map((idea: PriorIdea) => `- ${idea.title}: ${idea.content.slice(0, 100)}...`).join("\n")}\n`
+    : "";
+
+  // Build slide history context from accepted slides
+  const slideHistoryText = acceptedSlides.length > 0
+    ? `\nPRESENTATION SLIDE HISTORY (${acceptedSlides.length} slides so far):\n${acceptedSlides.map((slide: AcceptedSlide, i: number) => `${i + 1}. "${slide.headline}" - ${slide.visualDescription.slice(0, 80)}...`).join("\n")}\n`
+    : "";
+
+  // Detect if this looks like a conclusion
+  const isConclusionIntent = detectsConclusionIntent(transcript);
+
+  // Closing remarks go to the recap generator, which sees the whole talk
+  if (isConclusionIntent && !isFirstSlide && acceptedSlides.length > 0) {
+    return {
+      shouldCreateSlide: false,
+      conclusionIntent: true,
+      reason: "Wrapping up: building a recap",
+      sectionId: requestedSectionId,
+    };
+  }
+
+  const sectionId = outline.length > 0
+    ? await classifySection(llm, transcript, outline, requestedSectionId, signal)
+    : null;
+  const currentSection = outline.find((section) => section.id === sectionId);
+  const outlineText = currentSection
+    ? `
+PRESENTER'S OUTLINE (the speaker planned to cover these sections, in order):
+${formatOutlineForPrompt(outline, currentSection.id)}
+
+The speaker is in the section "${currentSection.title}". Favor slides that support this section's key points${currentSection.keyPoints.length > 0 ? ` (${currentSection.keyPoints.join("; ")})` : ""}, and don't jump ahead to later sections.
+`
+    : "";
+
+  // Build special instructions based on context
+  let specialInstructions = "";
+
+  if (isFirstSlide) {
+    specialInstructions = `
+SPECIAL CONTEXT: This is the FIRST SLIDE of the presentation.
+- Create an engaging INTRO/TITLE slide that sets up the presentation topic
+- Even if the speaker is just introducing themselves or the topic, create a welcoming title slide
+- The headline should be the presentation title or topic
+- The visual should be inviting and set the tone for the presentation
+- Category should be "intro"
+`;
+  }
+
+  const prompt = `You are an anticipatory presentation assistant analyzing a live presentation transcript. Your role is to create FORWARD-THINKING slides that help the audience understand where the speaker is heading, not just summarize what was said.
+
+You can selectively use live Google Search to ground your understanding in accurate, up-to-date information, events, and concrete examples related to what the speaker is talking about. Only invoke search when it will clearly add important, specific, and directly relevant facts or examples that make the slide more useful for this particular presentation, not for every slide.
+
+TRANSCRIPT:
+"${transcript}"
+${priorIdeasText}${slideHistoryText}${outlineText}${specialInstructions}${buildGateProfilePrompt(gateProfile)}
+FORWARD-THINKING APPROACH:
+- DON'T just reiterate or summarize what the speaker said
+- DO anticipate the implications, applications, or next logical steps of their ideas
+- Frame content in a way that helps the audience see the bigger picture
+- Think about: "What would help the audience understand WHY this matters?" and "What's the takeaway or insight here?"
+- Transform raw spoken content into polished, insightful presentation content
+- Add value by crystallizing the speaker's point into its most compelling form
+
+GUIDELINES FOR CREATING A SLIDE:
+- Create a slide when there is substantive content worth elevating into a visual
+- The slide should ENHANCE the speaker's point, not just repeat it
+- Headlines should capture the insight or implication, not just the topic
+- Visual descriptions should reinforce the forward momentum of the idea
+- Look for: emerging themes, actionable insights, key implications, transformative concepts
+${isFirstSlide ? "- For the FIRST slide, be MORE LENIENT - an introduction of the topic is enough to create a title slide" : ""}
+${isConclusionIntent ? "- For CONCLUSION, create a summary slide even if the closing remarks are brief" : ""}
+- Do NOT create a slide for:
+- Incomplete thoughts or sentences (unless it's an intro or conclusion)
+- Filler words or transitional phrases
+- Repetitive content that was already covered in prior slides
+- Content that is essentially the same as a prior slide (avoid duplicates)
+
+If the transcript contains content worth transforming into a forward-thinking slide, call the create_slide function.
+If not ready for a slide yet, simply respond with a brief explanation of what you're waiting for.`;
+
+  const { text: textResponse, functionCall, sources } = await llm.generate({
+    task: "slide-gate",
+    prompt,
+    search: true,
+    functions: [createSlideTool],
+    subject: transcript,
+    signal,
+  });
+
+  // Check if the model called the create_slide function
+  if (functionCall && functionCall.name === "create_slide") {
+    const args = functionCall.args as {
+      headline: string;
+      subheadline?: string;
+      bullets?: string[];
+      visualDescription: string;
+      category: string;
+      chart?: unknown;
+      diagram?: unknown;
+    };
+
+    // The presenter turned this kind of slide off; the prompt asked, this enforces it
+    if (!isCategoryAllowed(gateProfile, args.category)) {
+      return {
+        shouldCreateSlide: false,
+        reason: `Skipped a ${args.category} slide (category turned off)`,
+        sectionId,
+      };
+    }
+
+    return {
+      shouldCreateSlide: true,
+      slideContent: {
+        headline: args.headline,
+        subheadline: args.subheadline,
+        bullets: limitBullets(args.bullets, gateProfile),
+        visualDescription: args.visualDescription,
+        category: args.category,
+        sourceTranscript: transcript,
+        sources: normalizeSources(sources),
+        chart: parseChartData(args.chart) ?? undefined,
+        diagram: normalizeDiagramSource(args.diagram),
+      },
+      sectionId,
+    };
+  }
+
+  // Model decided not to create a slide
+  return {
+    shouldCreateSlide: false,
+    reason: textResponse || "Not enough content for a slide yet",
+    sectionId,
+  };
+}
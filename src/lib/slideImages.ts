@@ -0,0 +1,378 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import { getSessionPalette, renderTemplateSlideDataUrl } from "@/lib/slideRenderer";
+import { buildBrandKitPrompt, getBrandKitPalette, getLogoInlineData } from "@/lib/brandKit";
+import { sessionStore } from "@/lib/sessionStore";
+import { VARIANT_DIRECTIONS, getVariantDirection } from "@/lib/slideVariants";
+import { normalizeSources } from "@/lib/citations";
+import { parseChartData } from "@/lib/charts";
+import { normalizeDiagramSource, parseDiagram } from "@/lib/diagram";
+import { renderNativeSlideDataUrl } from "@/lib/nativeSlides";
+import type { SlideData } from "@/types/slides";
+import { consumeImageBudget } from "@/utils/imageBudget";
+
+// Budget shared by every render that doesn't name a live session, so leaving the ID out gains nothing
+const NO_SESSION_BUDGET_KEY = ":no-session";
+
+export interface RenderSlideContent {
+  headline: string;
+  subheadline?: string;
+  bullets?: string[];
+  visualDescription: string;
+  category: string;
+  sourceTranscript: string;
+  sources?: unknown;
+  chart?: unknown;
+  diagram?: unknown;
+}
+
+export interface RenderStyleReference {
+  headline: string;
+  visualDescription: string;
+  category: string;
+  slideNumber: number;
+  imageDataUrl?: string;
+}
+
+export interface SlideRevision {
+  instruction: string;
+  previousImageUrl?: string;
+}
+
+const MAX_REVISION_INSTRUCTION_LENGTH = 500;
+const MAX_STYLE_REFERENCE_IMAGES = 3;
+
+// Only base64 raster data URLs can be sent to the image model as inline parts
+function toInlineImage(dataUrl: string | undefined): { mimeType: string; data: string } | null {
+  const match = dataUrl?.match(/^data:(image\/(?:png|jpeg|webp));base64,(.+)$/);
+  return match ? { mimeType: match[1], data: match[2] } : null;
+}
+
+export type FallbackReason = "fast-mode" | "not-configured" | "budget-exhausted" | "generation-failed";
+
+
+export interface RenderSlideRequest {
+  // Structured content from the gate; title/content/category is the older form
+  slideContent: RenderSlideContent | null;
+  title?: string;
+  content?: string;
+  category?: string;
+  sessionId: string | null;
+  // Variants of one idea each get their own layout direction
+  variantIndex?: number;
+  // Directions of variants the presenter picked before
+  stylePreferences: string[];
+  // Revisions regenerate an existing slide with a presenter instruction applied
+  revision: SlideRevision | null;
+  renderMode: "template" | "image";
+  // Previous slides (the first one or two establish the style)
+  styleReferences: RenderStyleReference[];
+  slideNumber: number;
+}
+
+export type RenderSlideParseResult =
+  | { request: RenderSlideRequest; error?: undefined }
+  | { request?: undefined; error: string };
+
+/**
+ * Validates a slide render request body
+ */
+export function parseRenderSlideRequest(body: Record<string, unknown>): RenderSlideParseResult {
+  const slideContent = (body.slideContent as RenderSlideContent | undefined) || null;
+  const variant = body.variant as { index?: unknown } | undefined;
+
+  // Only known directions are accepted
+  const stylePreferences = Array.isArray(body.stylePreferences)
+    ? (body.stylePreferences as unknown[]).filter(
+        (preference): preference is string =>
+          typeof preference === "string" && VARIANT_DIRECTIONS.includes(preference)
+      )
+    : [];
+
+  const revision = (body.revision as SlideRevision | undefined) || null;
+  if (revision) {
+    const instruction = typeof revision.instruction === "string" ? revision.instruction.trim() : "";
+    if (!instruction) {
+      return { error: "Revision instruction is required" };
+    }
+    if (instruction.length > MAX_REVISION_INSTRUCTION_LENGTH) {
+      return { error: `Revision instruction must be ${MAX_REVISION_INSTRUCTION_LENGTH} characters or fewer` };
+    }
+    revision.instruction = instruction;
+  }
+
+  return {
+    request: {
+      slideContent,
+      title: slideContent?.headline || (body.title as string | undefined),
+      content: slideContent?.sourceTranscript || (body.content as string | undefined),
+      category: slideContent?.category || (body.category as string | undefined),
+      sessionId: typeof body.sessionId === "string" ? body.sessionId : null,
+      variantIndex: typeof variant?.index === "number" ? variant.index : undefined,
+      stylePreferences,
+      revision,
+      renderMode: body.renderMode === "template" ? "template" : "image",
+      styleReferences: (body.styleReferences as RenderStyleReference[] | undefined) || [],
+      slideNumber: (body.slideNumber as number | undefined) || 1,
+    },
+  };
+}
+
+export interface RenderSlideResult {
+  rendered: "template" | "chart" | "diagram" | "image";
+  fallbackReason?: FallbackReason;
+  slide: SlideData;
+}
+
+/**
+ * Renders one slide: charts and diagrams natively, everything else with the
+ * image model, and a template layout when the image model can't be used.
+ * Used by /api/gemini and by the server-side generation jobs.
+ */
+export async function renderSlide(
+  request: RenderSlideRequest,
+  signal?: AbortSignal
+): Promise<RenderSlideResult> {
+  const {
+    slideContent,
+    title,
+    content,
+    category,
+    sessionId,
+    stylePreferences,
+    revision,
+    styleReferences,
+    slideNumber,
+  } = request;
+  const visualDescription = slideContent?.visualDescription;
+  const sources = normalizeSources(slideContent?.sources);
+  const brandKit = sessionId ? sessionStore.getBrandKit(sessionId) : null;
+  const variantStyle =
+    request.variantIndex !== undefined ? getVariantDirection(request.variantIndex) : undefined;
+
+  const buildSlide = (imageUrl: string, generatedVariantStyle?: string): SlideData => ({
+    id: crypto.randomUUID(),
+    imageUrl,
+    variantStyle: generatedVariantStyle,
+    headline: slideContent?.headline,
+    subheadline: slideContent?.subheadline,
+    bullets: slideContent?.bullets,
+    sources: sources.length > 0 ? sources : undefined,
+    visualDescription: visualDescription || content,
+    originalIdea: { title: title ?? "", content: content ?? "", category: category ?? "" },
+    timestamp: new Date().toISOString(),
+  });
+
+  // Local layout rendered from the structured content, no image model involved
+  const renderTemplate = (fallbackReason: FallbackReason): RenderSlideResult => {
+    const imageUrl = renderTemplateSlideDataUrl(
+      {
+        headline: title || "Untitled",
+        subheadline: slideContent?.subheadline,
+        bullets: slideContent?.bullets,
+        category,
+      },
+      brandKit ? getBrandKitPalette(brandKit) : getSessionPalette(sessionId),
+      { fontFamily: brandKit?.fonts?.heading, logo: brandKit?.logo }
+    );
+    return { rendered: "template", fallbackReason, slide: buildSlide(imageUrl) };
+  };
+
+  // Charts are drawn from the stated numbers; the image model would redraw them wrong
+  const chart = revision ? null : parseChartData(slideContent?.chart);
+  if (chart) {
+    return {
+      rendered: "chart",
+      slide: {
+        ...buildSlide(
+          renderNativeSlideDataUrl({ headline: title, subheadline: slideContent?.subheadline, chart }, brandKit)
+        ),
+        chart,
+      },
+    };
+  }
+
+  // Diagrams likewise keep their exact boxes and arrows, and stay editable as text
+  const diagramSource = revision ? undefined : normalizeDiagramSource(slideContent?.diagram);
+  const parsedDiagram = diagramSource ? parseDiagram(diagramSource) : null;
+  if (diagramSource && parsedDiagram && "diagram" in parsedDiagram) {
+    return {
+      rendered: "diagram",
+      slide: {
+        ...buildSlide(
+          renderNativeSlideDataUrl(
+            { headline: title, subheadline: slideContent?.subheadline, diagram: parsedDiagram.diagram },
+            brandKit
+          )
+        ),
+        diagram: diagramSource,
+      },
+    };
+  }
+
+  if (request.renderMode === "template") {
+    return renderTemplate("fast-mode");
+  }
+
+  const apiKey = process.env.GOOGLE_API_KEY;
+  if (!apiKey) {
+    console.error("❌ Missing GOOGLE_API_KEY, rendering template slide");
+    return renderTemplate("not-configured");
+  }
+
+  const budgetKey = sessionId && sessionStore.getSession(sessionId) ? sessionId : NO_SESSION_BUDGET_KEY;
+  if (!consumeImageBudget(budgetKey)) {
+    return renderTemplate("budget-exhausted");
+  }
+
+  try {
+    const genAI = new GoogleGenerativeAI(apiKey);
+
+    const model = genAI.getGenerativeModel({ model: "gemini-3-pro-image-preview" });
+
+    // Build styling context from previous slides
+    let styleContext = "";
+    if (styleReferences.length > 0) {
+      styleContext = `
+STYLE CONSISTENCY REQUIREMENTS:
+This is slide #${slideNumber} in an ongoing presentation. You MUST maintain visual consistency with the established slide style.
+
+Previous slides in this presentation:
+${styleReferences.map((ref) => `- Slide ${ref.slideNumber}: "${ref.headline}" (${ref.category}) - ${(ref.visualDescription || "").slice(0, 100)}...`).join("\n")}
+
+CRITICAL STYLE RULES:
+- Use the SAME color palette and visual style as the previous slides
+- Maintain consistent typography treatment (headline size, font weight, positioning)
+- Keep the same layout approach and visual hierarchy
+- Use similar graphic/illustration style (if previous slides used flat icons, continue with flat icons; if they used photography, continue with photography)
+- Match the overall mood and tone established in earlier slides
+- This should look like it belongs to the SAME presentation deck as the previous slides
+`;
+    } else {
+      styleContext = `
+ESTABLISHING PRESENTATION STYLE:
+This is the FIRST slide of a new presentation. Establish a strong, cohesive visual style that can be maintained throughout subsequent slides.
+- Choose a distinctive color palette that will work for multiple slides
+- Establish a consistent typography treatment
+- Set a visual style (modern, corporate, creative, minimal, etc.) that will carry through
+`;
+    }
+
+    // The brand kit is fixed for the session and outranks the derived style
+    if (brandKit) {
+      styleContext += `\n${buildBrandKitPrompt(brandKit)}\n`;
+    }
+
+    if (stylePreferences.length > 0) {
+      styleContext += `
+PRESENTER PREFERENCES:
+When offered alternatives, the presenter chose slides with these layouts. Lean toward them:
+${stylePreferences.map((preference) => `- ${preference}`).join("\n")}
+`;
+    }
+
+    if (variantStyle) {
+      styleContext += `
+VARIANT DIRECTION:
+This is one of several alternative designs for the same slide. Keep the deck's colors and typography, but use this composition:
+${variantStyle}
+`;
+    }
+
+    // Build a richer prompt when we have structured content from the gate
+    let prompt: string;
+    if (slideContent) {
+      prompt = `Create a professional presentation slide image with the following specifications:
+
+HEADLINE: ${slideContent.headline}
+${slideContent.subheadline ? `SUBHEADLINE: ${slideContent.subheadline}` : ""}
+${slideContent.bullets?.length ? `KEY POINTS:\n${slideContent.bullets.map((b) => `- ${b}`).join("\n")}` : ""}
+
+VISUAL DIRECTION: ${visualDescription}
+
+SLIDE TYPE: ${category}
+${styleContext}
+Design requirements:
+- Clean, modern presentation aesthetic
+- Clear visual hierarchy with the headline prominent
+- Professional color scheme appropriate for the content
+- Any supporting visuals should reinforce the message
+- Resolution: 1024x576 pixels (16:9 aspect ratio)`;
+    } else {
+      // Fallback to original simple prompt for stream-of-consciousness mode
+      prompt = `Create a presentation slide image that visually explains the following idea from a speaker:
+
+Title: ${title}
+Content: ${content}
+Category: ${category}
+${styleContext}
+The image should be a professional, modern presentation slide. It should include the title and visual elements that explain the content.
+Resolution: 1024x576 pixels (16:9 aspect ratio).`;
+    }
+
+    // Images go after the prompt in this order, and the prompt lists what each one is
+    const attachments: { label: string; inlineData: { mimeType: string; data: string } }[] = [];
+
+    // Send the prior image along so the model edits it instead of starting over
+    const previousImage = toInlineImage(revision?.previousImageUrl);
+    if (previousImage) {
+      attachments.push({ label: "The current version of this slide", inlineData: previousImage });
+    }
+    if (revision) {
+      prompt += `
+
+REVISION REQUEST:
+This is a revision of an existing slide${previousImage ? " (attached)" : ""}. Apply the following change and keep everything else the same:
+${revision.instruction}`;
+    }
+
+    for (const ref of styleReferences) {
+      if (attachments.length >= MAX_STYLE_REFERENCE_IMAGES + (previousImage ? 1 : 0)) break;
+      const referenceImage = toInlineImage(ref.imageDataUrl);
+      if (referenceImage) {
+        attachments.push({
+          label: `Style reference: slide ${ref.slideNumber} ("${ref.headline}"). Match its colors, typography and layout, not its content`,
+          inlineData: referenceImage,
+        });
+      }
+    }
+
+    const logo = brandKit ? getLogoInlineData(brandKit) : null;
+    if (logo) {
+      attachments.push({ label: "The brand logo", inlineData: logo });
+    }
+
+    if (attachments.length > 0) {
+      prompt += `
+
+ATTACHED IMAGES (in order):
+${attachments.map((attachment, i) => `${i + 1}. ${attachment.label}`).join("\n")}`;
+    }
+
+    const result = await model.generateContent(
+      attachments.length > 0
+        ? [prompt, ...attachments.map(({ inlineData }) => ({ inlineData }))]
+        : prompt,
+      { signal }
+    );
+    const response = result.response;
+
+    const candidate = response.candidates?.[0];
+    const imagePart = candidate?.content?.parts?.find((part) => part.inlineData);
+
+    if (!imagePart || !imagePart.inlineData) {
+      throw new Error("No image generated");
+    }
+
+    const imageBase64 = imagePart.inlineData.data;
+    const mimeType = imagePart.inlineData.mimeType || "image/png";
+    const dataUrl = `data:${mimeType};base64,${imageBase64}`;
+
+    return { rendered: "image", slide: buildSlide(dataUrl, variantStyle) };
+  } catch (error) {
+    // A cancelled generation gets no fallback slide; the caller has already dropped it
+    if (signal?.aborted) throw error;
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("Gemini API error, rendering template slide:", errorMessage, error);
+    return renderTemplate("generation-failed");
+  }
+}
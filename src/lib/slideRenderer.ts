@@ -0,0 +1,743 @@
+import type { LogoPlacement } from "@/types/brandKit";
+import type { ChartData } from "@/types/chart";
+import type { Diagram, DiagramNode, Flowchart, SequenceDiagram } from "@/types/diagram";
+import { formatChartValue } from "@/lib/charts";
+
+/**
+ * Renders structured slide content to an SVG slide without any image model.
+ * Used when image generation fails, the image budget runs out, or the
+ * presenter turns on fast mode, and for every chart and diagram slide. Pure string output
+ * so it runs on the server and in the browser alike.
+ */
+
+export interface TemplateSlideContent {
+  headline: string;
+  subheadline?: string;
+  bullets?: string[];
+  category?: string;
+  // Drawn as a real chart or diagram in place of the category layout
+  chart?: ChartData;
+  diagram?: Diagram;
+}
+
+// Brand-kit extras layered over the palette
+export interface TemplateSlideBrand {
+  fontFamily?: string;
+  logo?: { dataUrl: string; placement: LogoPlacement };
+}
+
+export interface SlidePalette {
+  background: string;
+  surface: string;
+  primary: string;
+  accent: string;
+  text: string;
+  mutedText: string;
+}
+
+export const SLIDE_PALETTES: Record<string, SlidePalette> = {
+  midnight: {
+    background: "#0f172a",
+    surface: "#1e293b",
+    primary: "#38bdf8",
+    accent: "#f472b6",
+    text: "#f8fafc",
+    mutedText: "#94a3b8",
+  },
+  forest: {
+    background: "#052e16",
+    surface: "#14532d",
+    primary: "#4ade80",
+    accent: "#facc15",
+    text: "#f0fdf4",
+    mutedText: "#86efac",
+  },
+  ember: {
+    background: "#1c1917",
+    surface: "#292524",
+    primary: "#fb923c",
+    accent: "#f87171",
+    text: "#fafaf9",
+    mutedText: "#a8a29e",
+  },
+  paper: {
+    background: "#fafaf9",
+    surface: "#e7e5e4",
+    primary: "#1d4ed8",
+    accent: "#db2777",
+    text: "#1c1917",
+    mutedText: "#57534e",
+  },
+};
+
+const DEFAULT_PALETTE = SLIDE_PALETTES.midnight;
+
+const WIDTH = 1280;
+const HEIGHT = 720;
+const MARGIN = 96;
+const FONT_FAMILY = "Inter, 'Helvetica Neue', Arial, sans-serif";
+
+/**
+ * Every fallback slide in a session shares one palette so they read as a deck
+ */
+export function getSessionPalette(sessionId?: string | null): SlidePalette {
+  if (!sessionId) return DEFAULT_PALETTE;
+  const palettes = Object.values(SLIDE_PALETTES);
+  let hash = 0;
+  for (const char of sessionId) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return palettes[hash % palettes.length];
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+// Greedy word wrap using an average glyph width, clamped with an ellipsis
+function wrapText(text: string, maxWidth: number, fontSize: number, maxLines: number): string[] {
+  const maxChars = Math.max(8, Math.floor(maxWidth / (fontSize * 0.55)));
+  const words = text.replace(/\s+/g, " ").trim().split(" ").filter(Boolean);
+  const lines: string[] = [];
+  let current = "";
+
+  for (const word of words) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (candidate.length <= maxChars || !current) {
+      current = candidate;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+  }
+  if (current) lines.push(current);
+
+  if (lines.length > maxLines) {
+    const kept = lines.slice(0, maxLines);
+    kept[maxLines - 1] = `${kept[maxLines - 1].slice(0, maxChars - 1).trimEnd()}…`;
+    return kept;
+  }
+  return lines;
+}
+
+interface TextBlockOptions {
+  x: number;
+  y: number;
+  maxWidth: number;
+  fontSize: number;
+  maxLines: number;
+  fill: string;
+  weight?: number;
+  anchor?: "start" | "middle";
+  italic?: boolean;
+}
+
+// Returns the SVG and the y coordinate just below the block
+function textBlock(text: string, options: TextBlockOptions): { svg: string; bottom: number } {
+  const { x, y, maxWidth, fontSize, maxLines, fill, weight = 400, anchor = "start", italic } = options;
+  const lineHeight = Math.round(fontSize * 1.2);
+  const lines = wrapText(text, maxWidth, fontSize, maxLines);
+  const tspans = lines
+    .map((line, i) => `<tspan x="${x}" dy="${i === 0 ? 0 : lineHeight}">${escapeXml(line)}</tspan>`)
+    .join("");
+  const style = italic ? ' font-style="italic"' : "";
+  return {
+    svg: `<text x="${x}" y="${y}" font-size="${fontSize}" font-weight="${weight}" fill="${fill}" text-anchor="${anchor}"${style}>${tspans}</text>`,
+    bottom: y + lineHeight * (lines.length - 1) + Math.round(fontSize * 0.6),
+  };
+}
+
+function header(content: TemplateSlideContent, palette: SlidePalette, maxWidth = WIDTH - MARGIN * 2) {
+  const headline = textBlock(content.headline, {
+    x: MARGIN,
+    y: MARGIN + 56,
+    maxWidth,
+    fontSize: 56,
+    maxLines: 2,
+    fill: palette.text,
+    weight: 700,
+  });
+  let svg = `<rect x="${MARGIN}" y="${MARGIN - 24}" width="72" height="8" rx="4" fill="${palette.primary}"/>${headline.svg}`;
+  let bottom = headline.bottom;
+  if (content.subheadline) {
+    const sub = textBlock(content.subheadline, {
+      x: MARGIN,
+      y: bottom + 40,
+      maxWidth,
+      fontSize: 28,
+      maxLines: 2,
+      fill: palette.mutedText,
+    });
+    svg += sub.svg;
+    bottom = sub.bottom;
+  }
+  return { svg, bottom };
+}
+
+function titleLayout(content: TemplateSlideContent, palette: SlidePalette): string {
+  const headline = textBlock(content.headline, {
+    x: WIDTH / 2,
+    y: HEIGHT / 2 - 20,
+    maxWidth: WIDTH - MARGIN * 3,
+    fontSize: 72,
+    maxLines: 2,
+    fill: palette.text,
+    weight: 800,
+    anchor: "middle",
+  });
+  const sub = content.subheadline
+    ? textBlock(content.subheadline, {
+        x: WIDTH / 2,
+        y: headline.bottom + 48,
+        maxWidth: WIDTH - MARGIN * 4,
+        fontSize: 30,
+        maxLines: 2,
+        fill: palette.mutedText,
+        anchor: "middle",
+      }).svg
+    : "";
+  return `<circle cx="${WIDTH - 140}" cy="120" r="220" fill="${palette.primary}" opacity="0.15"/><circle cx="120" cy="${HEIGHT - 80}" r="160" fill="${palette.accent}" opacity="0.12"/>${headline.svg}${sub}<rect x="${WIDTH / 2 - 60}" y="${HEIGHT - MARGIN}" width="120" height="8" rx="4" fill="${palette.primary}"/>`;
+}
+
+function quoteLayout(content: TemplateSlideContent, palette: SlidePalette): string {
+  const quote = textBlock(content.headline, {
+    x: WIDTH / 2,
+    y: HEIGHT / 2 - 30,
+    maxWidth: WIDTH - MARGIN * 3,
+    fontSize: 52,
+    maxLines: 3,
+    fill: palette.text,
+    weight: 600,
+    anchor: "middle",
+    italic: true,
+  });
+  const attribution = content.subheadline
+    ? textBlock(`— ${content.subheadline}`, {
+        x: WIDTH / 2,
+        y: quote.bottom + 56,
+        maxWidth: WIDTH - MARGIN * 4,
+        fontSize: 28,
+        maxLines: 1,
+        fill: palette.mutedText,
+        anchor: "middle",
+      }).svg
+    : "";
+  return `<text x="${MARGIN}" y="${MARGIN + 140}" font-family="Georgia, serif" font-size="260" fill="${palette.primary}" opacity="0.35">“</text>${quote.svg}${attribution}`;
+}
+
+function processLayout(content: TemplateSlideContent, palette: SlidePalette): string {
+  const { svg: head, bottom } = header(content, palette);
+  const steps = (content.bullets ?? []).slice(0, 4);
+  if (steps.length === 0) return head;
+
+  const top = Math.max(bottom + 80, 360);
+  const slotWidth = (WIDTH - MARGIN * 2) / steps.length;
+  const line = `<line x1="${MARGIN + slotWidth / 2}" y1="${top}" x2="${WIDTH - MARGIN - slotWidth / 2}" y2="${top}" stroke="${palette.surface}" stroke-width="6"/>`;
+  const nodes = steps
+    .map((step, i) => {
+      const cx = MARGIN + slotWidth * i + slotWidth / 2;
+      const label = textBlock(step, {
+        x: cx,
+        y: top + 90,
+        maxWidth: slotWidth - 32,
+        fontSize: 24,
+        maxLines: 4,
+        fill: palette.text,
+        anchor: "middle",
+      });
+      return `<circle cx="${cx}" cy="${top}" r="34" fill="${palette.primary}"/><text x="${cx}" y="${top + 11}" font-size="30" font-weight="700" fill="${palette.background}" text-anchor="middle">${i + 1}</text>${label.svg}`;
+    })
+    .join("");
+  return head + line + nodes;
+}
+
+function comparisonLayout(content: TemplateSlideContent, palette: SlidePalette): string {
+  const { svg: head, bottom } = header(content, palette);
+  const bullets = (content.bullets ?? []).slice(0, 6);
+  const half = Math.ceil(bullets.length / 2);
+  const columns = [bullets.slice(0, half), bullets.slice(half)];
+  const top = bottom + 48;
+  const columnWidth = (WIDTH - MARGIN * 2 - 48) / 2;
+
+  const renderColumn = (items: string[], index: number) => {
+    const x = MARGIN + index * (columnWidth + 48);
+    const color = index === 0 ? palette.primary : palette.accent;
+    let y = top + 64;
+    const texts = items
+      .map((item) => {
+        const block = textBlock(item, {
+          x: x + 32,
+          y,
+          maxWidth: columnWidth - 64,
+          fontSize: 26,
+          maxLines: 3,
+          fill: palette.text,
+        });
+        y = block.bottom + 36;
+        return block.svg;
+      })
+      .join("");
+    return `<rect x="${x}" y="${top}" width="${columnWidth}" height="${HEIGHT - top - MARGIN / 2}" rx="20" fill="${palette.surface}"/><rect x="${x}" y="${top}" width="${columnWidth}" height="8" rx="4" fill="${color}"/>${texts}`;
+  };
+
+  return head + columns.map(renderColumn).join("");
+}
+
+function dataLayout(content: TemplateSlideContent, palette: SlidePalette): string {
+  const { svg: head, bottom } = header(content, palette);
+  const bullets = (content.bullets ?? []).slice(0, 4);
+  if (bullets.length === 0) return head;
+
+  const top = bottom + 48;
+  const gap = 32;
+  const cardWidth = (WIDTH - MARGIN * 2 - gap * (bullets.length - 1)) / bullets.length;
+  const cardHeight = Math.min(280, HEIGHT - top - MARGIN / 2);
+  const cards = bullets
+    .map((bullet, i) => {
+      const x = MARGIN + i * (cardWidth + gap);
+      // Lead with the first number in the bullet when there is one
+      const figure = bullet.match(/[-+]?\$?\d[\d,.]*\s*[%xX]?/)?.[0]?.trim();
+      const figureSvg = figure
+        ? textBlock(figure, {
+            x: x + 28,
+            y: top + 72,
+            maxWidth: cardWidth - 56,
+            fontSize: 48,
+            maxLines: 1,
+            fill: palette.primary,
+            weight: 800,
+          }).svg
+        : "";
+      const label = textBlock(bullet, {
+        x: x + 28,
+        y: top + (figure ? 132 : 64),
+        maxWidth: cardWidth - 56,
+        fontSize: 22,
+        maxLines: figure ? 4 : 6,
+        fill: palette.text,
+      });
+      return `<rect x="${x}" y="${top}" width="${cardWidth}" height="${cardHeight}" rx="20" fill="${palette.surface}"/>${figureSvg}${label.svg}`;
+    })
+    .join("");
+  return head + cards;
+}
+
+function summaryLayout(content: TemplateSlideContent, palette: SlidePalette): string {
+  const { svg: head, bottom } = header(content, palette);
+  let y = bottom + 72;
+  const items = (content.bullets ?? [])
+    .slice(0, 5)
+    .map((bullet) => {
+      const check = `<circle cx="${MARGIN + 18}" cy="${y - 10}" r="18" fill="${palette.primary}"/><path d="M${MARGIN + 9} ${y - 10} l6 7 l12 -14" stroke="${palette.background}" stroke-width="4" fill="none" stroke-linecap="round" stroke-linejoin="round"/>`;
+      const block = textBlock(bullet, {
+        x: MARGIN + 56,
+        y,
+        maxWidth: WIDTH - MARGIN * 2 - 56,
+        fontSize: 30,
+        maxLines: 2,
+        fill: palette.text,
+      });
+      y = block.bottom + 36;
+      return check + block.svg;
+    })
+    .join("");
+  return head + items;
+}
+
+function conceptLayout(content: TemplateSlideContent, palette: SlidePalette): string {
+  const textWidth = WIDTH - MARGIN * 2 - 320;
+  const { svg: head, bottom } = header(content, palette, textWidth);
+  let y = bottom + 64;
+  const items = (content.bullets ?? [])
+    .slice(0, 5)
+    .map((bullet) => {
+      const dot = `<circle cx="${MARGIN + 8}" cy="${y - 10}" r="8" fill="${palette.accent}"/>`;
+      const block = textBlock(bullet, {
+        x: MARGIN + 36,
+        y,
+        maxWidth: textWidth - 36,
+        fontSize: 28,
+        maxLines: 2,
+        fill: palette.text,
+      });
+      y = block.bottom + 32;
+      return dot + block.svg;
+    })
+    .join("");
+  // Abstract accent shape in place of an illustration
+  const shape = `<g opacity="0.9"><circle cx="${WIDTH - MARGIN - 140}" cy="${HEIGHT / 2}" r="140" fill="${palette.surface}"/><circle cx="${WIDTH - MARGIN - 90}" cy="${HEIGHT / 2 - 60}" r="70" fill="${palette.primary}" opacity="0.8"/><circle cx="${WIDTH - MARGIN - 200}" cy="${HEIGHT / 2 + 70}" r="44" fill="${palette.accent}" opacity="0.8"/></g>`;
+  return head + items + shape;
+}
+
+// One decimal is plenty for SVG coordinates and keeps the markup short
+const round = (value: number) => Math.round(value * 10) / 10;
+
+// The palette's highlight colors first, then fainter tints of them
+function seriesColor(palette: SlidePalette, index: number): { fill: string; opacity: number } {
+  const colors = [palette.primary, palette.accent, palette.mutedText];
+  return {
+    fill: colors[index % colors.length],
+    opacity: Math.max(0.25, 1 - Math.floor(index / colors.length) * 0.25),
+  };
+}
+
+function chartLegend(chart: ChartData, palette: SlidePalette, y: number): string {
+  let x = MARGIN;
+  return chart.series
+    .map((series, i) => {
+      const { fill, opacity } = seriesColor(palette, i);
+      const name = series.name || `Series ${i + 1}`;
+      const svg = `<rect x="${x}" y="${y - 17}" width="20" height="20" rx="4" fill="${fill}" opacity="${opacity}"/><text x="${x + 30}" y="${y}" font-size="20" fill="${palette.mutedText}">${escapeXml(name)}</text>`;
+      x += 64 + name.length * 11;
+      return svg;
+    })
+    .join("");
+}
+
+// Bar and line charts share the value axis, gridlines and category labels
+function axisChart(chart: ChartData, palette: SlidePalette, top: number): string {
+  const left = MARGIN + 90;
+  const right = WIDTH - MARGIN;
+  const bottom = HEIGHT - MARGIN / 2 - 56;
+  const values = chart.series.flatMap((series) => series.values);
+  const max = Math.max(0, ...values);
+  const min = Math.min(0, ...values);
+  const range = max - min || 1;
+  const y = (value: number) => round(bottom - ((value - min) / range) * (bottom - top));
+  const slot = (right - left) / chart.labels.length;
+  const showValues = chart.labels.length * chart.series.length <= 16;
+
+  const grid = Array.from({ length: 5 }, (_, i) => min + (range * i) / 4)
+    .map(
+      (tick) =>
+        `<line x1="${left}" y1="${y(tick)}" x2="${right}" y2="${y(tick)}" stroke="${palette.surface}" stroke-width="2"/><text x="${left - 16}" y="${y(tick) + 6}" font-size="18" fill="${palette.mutedText}" text-anchor="end">${escapeXml(formatChartValue(tick, chart.unit))}</text>`
+    )
+    .join("");
+  const baseline = `<line x1="${left}" y1="${y(0)}" x2="${right}" y2="${y(0)}" stroke="${palette.mutedText}" stroke-width="2"/>`;
+  const labels = chart.labels
+    .map(
+      (label, i) =>
+        textBlock(label, {
+          x: round(left + slot * i + slot / 2),
+          y: bottom + 34,
+          maxWidth: slot - 12,
+          fontSize: 18,
+          maxLines: 2,
+          fill: palette.text,
+          anchor: "middle",
+        }).svg
+    )
+    .join("");
+  const valueLabel = (x: number, labelY: number, value: number) =>
+    showValues
+      ? `<text x="${round(x)}" y="${round(labelY)}" font-size="18" font-weight="700" fill="${palette.text}" text-anchor="middle">${escapeXml(formatChartValue(value, chart.unit))}</text>`
+      : "";
+
+  let marks: string;
+  if (chart.type === "line") {
+    marks = chart.series
+      .map((series, si) => {
+        const { fill, opacity } = seriesColor(palette, si);
+        const points = series.values.map((value, li) => [round(left + slot * li + slot / 2), y(value)]);
+        const line = `<polyline points="${points.map((point) => point.join(",")).join(" ")}" fill="none" stroke="${fill}" stroke-width="5" stroke-linejoin="round" stroke-linecap="round" opacity="${opacity}"/>`;
+        const dots = points
+          .map(([x, pointY], li) => `<circle cx="${x}" cy="${pointY}" r="8" fill="${fill}"/>${valueLabel(x, pointY - 18, series.values[li])}`)
+          .join("");
+        return line + dots;
+      })
+      .join("");
+  } else {
+    const groupWidth = slot * 0.7;
+    const barWidth = groupWidth / chart.series.length;
+    marks = chart.series
+      .map((series, si) => {
+        const { fill, opacity } = seriesColor(palette, si);
+        return series.values
+          .map((value, li) => {
+            const x = left + slot * li + (slot - groupWidth) / 2 + barWidth * si;
+            const barTop = Math.min(y(0), y(value));
+            const height = Math.max(1, Math.abs(y(0) - y(value)));
+            const labelY = value >= 0 ? barTop - 10 : barTop + height + 24;
+            return `<rect x="${round(x + 2)}" y="${barTop}" width="${round(barWidth - 4)}" height="${round(height)}" rx="4" fill="${fill}" opacity="${opacity}"/>${valueLabel(x + barWidth / 2, labelY, value)}`;
+          })
+          .join("");
+      })
+      .join("");
+  }
+
+  return grid + baseline + marks + labels;
+}
+
+// Pie on the left, labelled values and shares on the right
+function pieChart(chart: ChartData, palette: SlidePalette, top: number): string {
+  const values = chart.series[0].values;
+  const total = values.reduce((sum, value) => sum + value, 0);
+  const available = HEIGHT - MARGIN / 2 - top;
+  const radius = Math.min(200, available / 2 - 8);
+  const cx = MARGIN + radius + 40;
+  const cy = round(top + available / 2);
+  const point = (angle: number) => `${round(cx + radius * Math.cos(angle))} ${round(cy + radius * Math.sin(angle))}`;
+
+  let angle = -Math.PI / 2;
+  const slices = values
+    .map((value, i) => {
+      const { fill, opacity } = seriesColor(palette, i);
+      if (value === 0) return "";
+      if (value === total) {
+        return `<circle cx="${cx}" cy="${cy}" r="${radius}" fill="${fill}" opacity="${opacity}"/>`;
+      }
+      const end = angle + (value / total) * Math.PI * 2;
+      const largeArc = end - angle > Math.PI ? 1 : 0;
+      const path = `<path d="M${cx} ${cy} L${point(angle)} A${radius} ${radius} 0 ${largeArc} 1 ${point(end)} Z" fill="${fill}" opacity="${opacity}" stroke="${palette.background}" stroke-width="3"/>`;
+      angle = end;
+      return path;
+    })
+    .join("");
+
+  const legendX = cx + radius + 80;
+  const rowHeight = Math.min(48, available / values.length);
+  const legend = chart.labels
+    .map((label, i) => {
+      const { fill, opacity } = seriesColor(palette, i);
+      const rowY = round(top + rowHeight * i + rowHeight / 2 + 7);
+      const share = Math.round((values[i] / total) * 100);
+      const text = `${label}: ${formatChartValue(values[i], chart.unit)} (${share}%)`;
+      return `<rect x="${legendX}" y="${rowY - 17}" width="20" height="20" rx="4" fill="${fill}" opacity="${opacity}"/>${
+        textBlock(text, {
+          x: legendX + 32,
+          y: rowY,
+          maxWidth: WIDTH - MARGIN - legendX - 32,
+          fontSize: 22,
+          maxLines: 1,
+          fill: palette.text,
+        }).svg
+      }`;
+    })
+    .join("");
+
+  return slices + legend;
+}
+
+function chartLayout(content: TemplateSlideContent, palette: SlidePalette): string {
+  const { svg: head, bottom } = header(content, palette);
+  const chart = content.chart;
+  if (!chart) return head;
+
+  let top = bottom + 48;
+  let legend = "";
+  if (chart.type !== "pie" && chart.series.length > 1) {
+    legend = chartLegend(chart, palette, top);
+    top += 40;
+  }
+  const body = chart.type === "pie" ? pieChart(chart, palette, top) : axisChart(chart, palette, top + 16);
+  return head + legend + body;
+}
+
+interface DiagramArea {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+function arrowMarker(palette: SlidePalette): string {
+  return `<defs><marker id="arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse"><path d="M0 0 L10 5 L0 10 z" fill="${palette.mutedText}"/></marker></defs>`;
+}
+
+// Label centered on (cx, cy), wrapped to the box
+function centeredLabel(text: string, cx: number, cy: number, maxWidth: number, fontSize: number, fill: string): string {
+  const lines = wrapText(text, maxWidth, fontSize, 2);
+  const lineHeight = Math.round(fontSize * 1.2);
+  const y = round(cy + fontSize * 0.35 - ((lines.length - 1) * lineHeight) / 2);
+  return textBlock(text, { x: round(cx), y, maxWidth, fontSize, maxLines: 2, fill, weight: 600, anchor: "middle" }).svg;
+}
+
+// Short label on a line, with a background so it stays readable over the line
+function lineLabel(text: string, x: number, y: number, palette: SlidePalette): string {
+  const width = Math.min(240, text.length * 10 + 16);
+  return `<rect x="${round(x - width / 2)}" y="${round(y - 15)}" width="${width}" height="26" rx="6" fill="${palette.background}"/>${textBlock(text, { x: round(x), y: round(y + 4), maxWidth: width - 8, fontSize: 17, maxLines: 1, fill: palette.mutedText, anchor: "middle" }).svg}`;
+}
+
+// Longest-path layers from the sources; cycles stop growing once every node has a layer
+function flowchartLayers(flowchart: Flowchart): DiagramNode[][] {
+  const rank = new Map(flowchart.nodes.map((node) => [node.id, 0]));
+  for (let pass = 0; pass < flowchart.nodes.length; pass++) {
+    let changed = false;
+    for (const edge of flowchart.edges) {
+      const next = rank.get(edge.from)! + 1;
+      if (edge.from !== edge.to && next < flowchart.nodes.length && rank.get(edge.to)! < next) {
+        rank.set(edge.to, next);
+        changed = true;
+      }
+    }
+    if (!changed) break;
+  }
+  const ranks = [...new Set(rank.values())].sort((a, b) => a - b);
+  return ranks.map((r) => flowchart.nodes.filter((node) => rank.get(node.id) === r));
+}
+
+function flowchartDiagram(flowchart: Flowchart, palette: SlidePalette, area: DiagramArea): string {
+  const layers = flowchartLayers(flowchart);
+  const horizontal = flowchart.direction === "LR";
+  const along = horizontal ? area.width : area.height;
+  const across = horizontal ? area.height : area.width;
+  const widest = Math.max(...layers.map((layer) => layer.length));
+  const layerSpace = along / layers.length;
+  const nodeSpace = across / widest;
+  const boxWidth = Math.min(260, (horizontal ? layerSpace : nodeSpace) * 0.72);
+  const boxHeight = Math.min(96, (horizontal ? nodeSpace : layerSpace) * 0.6);
+
+  const centers = new Map<string, { x: number; y: number }>();
+  layers.forEach((layer, li) => {
+    const offset = (across - layer.length * nodeSpace) / 2;
+    layer.forEach((node, ni) => {
+      const a = layerSpace * li + layerSpace / 2;
+      const b = offset + nodeSpace * ni + nodeSpace / 2;
+      centers.set(node.id, horizontal ? { x: area.left + a, y: area.top + b } : { x: area.left + b, y: area.top + a });
+    });
+  });
+
+  // Where the line from a box center towards (dx, dy) leaves the box
+  const boundary = (center: { x: number; y: number }, dx: number, dy: number) => {
+    const t = Math.min(
+      dx ? boxWidth / 2 / Math.abs(dx) : Infinity,
+      dy ? boxHeight / 2 / Math.abs(dy) : Infinity
+    );
+    return { x: center.x + dx * t, y: center.y + dy * t };
+  };
+
+  const edges = flowchart.edges
+    .map((edge) => {
+      const from = centers.get(edge.from)!;
+      const to = centers.get(edge.to)!;
+      if (edge.from === edge.to) return "";
+      const dx = to.x - from.x;
+      const dy = to.y - from.y;
+      const start = boundary(from, dx, dy);
+      const end = boundary(to, -dx, -dy);
+      const dash = edge.style === "dashed" ? ' stroke-dasharray="10 8"' : "";
+      const width = edge.style === "thick" ? 6 : 3;
+      const marker = edge.arrow ? ' marker-end="url(#arrow)"' : "";
+      const label = edge.label ? lineLabel(edge.label, (start.x + end.x) / 2, (start.y + end.y) / 2, palette) : "";
+      return `<line x1="${round(start.x)}" y1="${round(start.y)}" x2="${round(end.x)}" y2="${round(end.y)}" stroke="${palette.mutedText}" stroke-width="${width}"${dash}${marker}/>${label}`;
+    })
+    .join("");
+
+  const nodes = flowchart.nodes
+    .map((node) => {
+      const { x, y } = centers.get(node.id)!;
+      const shape =
+        node.shape === "diamond"
+          ? `<polygon points="${round(x)},${round(y - boxHeight / 2)} ${round(x + boxWidth / 2)},${round(y)} ${round(x)},${round(y + boxHeight / 2)} ${round(x - boxWidth / 2)},${round(y)}" fill="${palette.surface}" stroke="${palette.accent}" stroke-width="3"/>`
+          : `<rect x="${round(x - boxWidth / 2)}" y="${round(y - boxHeight / 2)}" width="${round(boxWidth)}" height="${round(boxHeight)}" rx="${node.shape === "round" ? round(boxHeight / 2) : 12}" fill="${palette.surface}" stroke="${palette.primary}" stroke-width="3"/>`;
+      const labelWidth = node.shape === "diamond" ? boxWidth * 0.6 : boxWidth - 24;
+      return shape + centeredLabel(node.label, x, y, labelWidth, 22, palette.text);
+    })
+    .join("");
+
+  // Nodes after edges so the boxes cover the line ends
+  return edges + nodes;
+}
+
+function sequenceDiagram(diagram: SequenceDiagram, palette: SlidePalette, area: DiagramArea): string {
+  const slot = area.width / diagram.participants.length;
+  const boxWidth = Math.min(220, slot * 0.8);
+  const boxHeight = 56;
+  const xOf = new Map(diagram.participants.map((p, i) => [p.id, area.left + slot * i + slot / 2]));
+  const bottom = area.top + area.height;
+
+  const lifelines = diagram.participants
+    .map((p) => {
+      const x = round(xOf.get(p.id)!);
+      return `<line x1="${x}" y1="${area.top + boxHeight}" x2="${x}" y2="${bottom}" stroke="${palette.surface}" stroke-width="3" stroke-dasharray="8 8"/><rect x="${round(x - boxWidth / 2)}" y="${area.top}" width="${round(boxWidth)}" height="${boxHeight}" rx="12" fill="${palette.surface}" stroke="${palette.primary}" stroke-width="3"/>${centeredLabel(p.label, x, area.top + boxHeight / 2, boxWidth - 20, 22, palette.text)}`;
+    })
+    .join("");
+
+  const firstRow = area.top + boxHeight + 48;
+  const rowHeight = Math.min(64, (bottom - firstRow) / Math.max(1, diagram.messages.length));
+  const messages = diagram.messages
+    .map((message, i) => {
+      const y = round(firstRow + rowHeight * i);
+      const from = xOf.get(message.from)!;
+      const to = xOf.get(message.to)!;
+      const dash = message.dashed ? ' stroke-dasharray="10 8"' : "";
+      if (from === to) {
+        // Self message: a small loop to the right of the lifeline
+        const loop = `<path d="M${round(from)} ${y - 12} h48 v24 h-44" fill="none" stroke="${palette.mutedText}" stroke-width="3"${dash} marker-end="url(#arrow)"/>`;
+        return loop + (message.label ? lineLabel(message.label, from + 110, y - 12, palette) : "");
+      }
+      const line = `<line x1="${round(from)}" y1="${y}" x2="${round(to + (to > from ? -6 : 6))}" y2="${y}" stroke="${palette.mutedText}" stroke-width="3"${dash} marker-end="url(#arrow)"/>`;
+      return line + (message.label ? lineLabel(message.label, (from + to) / 2, y - 16, palette) : "");
+    })
+    .join("");
+
+  return lifelines + messages;
+}
+
+function diagramLayout(content: TemplateSlideContent, palette: SlidePalette): string {
+  const { svg: head, bottom } = header(content, palette);
+  const diagram = content.diagram;
+  if (!diagram) return head;
+
+  const area = {
+    left: MARGIN,
+    top: bottom + 40,
+    width: WIDTH - MARGIN * 2,
+    height: HEIGHT - MARGIN / 2 - (bottom + 40),
+  };
+  const body =
+    diagram.kind === "sequence"
+      ? sequenceDiagram(diagram, palette, area)
+      : flowchartDiagram(diagram, palette, area);
+  return head + arrowMarker(palette) + body;
+}
+
+const LAYOUTS: Record<string, (content: TemplateSlideContent, palette: SlidePalette) => string> = {
+  intro: titleLayout,
+  title: titleLayout,
+  quote: quoteLayout,
+  process: processLayout,
+  comparison: comparisonLayout,
+  data: dataLayout,
+  summary: summaryLayout,
+  conclusion: summaryLayout,
+};
+
+const LOGO_WIDTH = 160;
+const LOGO_HEIGHT = 64;
+
+function logoImage(logo: NonNullable<TemplateSlideBrand["logo"]>): string {
+  const x = logo.placement.endsWith("left") ? MARGIN / 2 : WIDTH - MARGIN / 2 - LOGO_WIDTH;
+  const y = logo.placement.startsWith("top") ? MARGIN / 4 : HEIGHT - MARGIN / 4 - LOGO_HEIGHT;
+  const anchor = logo.placement.endsWith("left") ? "xMinYMid" : "xMaxYMid";
+  return `<image href="${escapeXml(logo.dataUrl)}" x="${x}" y="${y}" width="${LOGO_WIDTH}" height="${LOGO_HEIGHT}" preserveAspectRatio="${anchor} meet"/>`;
+}
+
+export function renderTemplateSlide(
+  content: TemplateSlideContent,
+  palette: SlidePalette = DEFAULT_PALETTE,
+  brand: TemplateSlideBrand = {}
+): string {
+  const layout = content.chart
+    ? chartLayout
+    : content.diagram
+      ? diagramLayout
+      : LAYOUTS[(content.category || "").toLowerCase()] ?? conceptLayout;
+  const body = layout({ ...content, headline: content.headline || "Untitled" }, palette);
+  const fontFamily = escapeXml(brand.fontFamily ? `${brand.fontFamily}, ${FONT_FAMILY}` : FONT_FAMILY);
+  const logo = brand.logo ? logoImage(brand.logo) : "";
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${WIDTH} ${HEIGHT}" width="${WIDTH}" height="${HEIGHT}" font-family="${fontFamily}"><rect width="${WIDTH}" height="${HEIGHT}" fill="${palette.background}"/>${body}${logo}</svg>`;
+}
+
+export function renderTemplateSlideDataUrl(
+  content: TemplateSlideContent,
+  palette: SlidePalette = DEFAULT_PALETTE,
+  brand: TemplateSlideBrand = {}
+): string {
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(renderTemplateSlide(content, palette, brand))}`;
+}
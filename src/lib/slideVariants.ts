@@ -0,0 +1,49 @@
+import type { SlideData } from "@/types/slides";
+
+/**
+ * Layout directions for the variants of one slide idea. Each variant keeps
+ * the deck's colors and typography and only changes the composition.
+ */
+export const VARIANT_DIRECTIONS = [
+  "Bold typographic layout: an oversized headline with minimal imagery",
+  "A single illustrated visual metaphor that fills most of the slide",
+  "A structured diagram or infographic that organizes the points",
+  "A full-bleed photographic background with the text overlaid",
+];
+
+export const MAX_SLIDE_VARIANTS = VARIANT_DIRECTIONS.length;
+
+export function getVariantDirection(index: number): string {
+  return VARIANT_DIRECTIONS[((index % MAX_SLIDE_VARIANTS) + MAX_SLIDE_VARIANTS) % MAX_SLIDE_VARIANTS];
+}
+
+/**
+ * Folds the generated variants into one channel entry showing the first.
+ * Returns null if none were generated.
+ */
+export function groupSlideVariants(variants: SlideData[]): SlideData | null {
+  if (variants.length === 0) return null;
+  if (variants.length === 1) return variants[0];
+  return { ...variants[0], variants, variantIndex: 0 };
+}
+
+export function selectSlideVariant(entry: SlideData, index: number): SlideData {
+  const variants = entry.variants;
+  if (!variants || index < 0 || index >= variants.length) return entry;
+  return {
+    ...variants[index],
+    source: entry.source,
+    curatorReasoning: entry.curatorReasoning,
+    variants,
+    variantIndex: index,
+  };
+}
+
+// The variant on display becomes the slide; the others are dropped
+export function chooseSlideVariant(entry: SlideData): SlideData {
+  if (!entry.variants) return entry;
+  const chosen = { ...entry };
+  delete chosen.variants;
+  delete chosen.variantIndex;
+  return chosen;
+}
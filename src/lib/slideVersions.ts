@@ -0,0 +1,62 @@
+import type { SlideData } from "@/types/slides";
+
+/**
+ * Revisions of a slide grouped under the first version's ID, so the presenter
+ * can flip between them wherever the slide currently sits
+ */
+export interface SlideVersionState {
+  groups: Record<string, SlideData[]>;
+  rootOf: Record<string, string>;
+}
+
+export const emptySlideVersions: SlideVersionState = { groups: {}, rootOf: {} };
+
+export function getSlideVersions(state: SlideVersionState, slideId: string): SlideData[] {
+  const rootId = state.rootOf[slideId];
+  return rootId ? state.groups[rootId] ?? [] : [];
+}
+
+export function addSlideVersion(
+  state: SlideVersionState,
+  parent: SlideData,
+  revision: SlideData
+): SlideVersionState {
+  const rootId = state.rootOf[parent.id] ?? parent.id;
+  const existing = state.groups[rootId] ?? [{ ...parent, version: parent.version ?? 1 }];
+  return {
+    groups: { ...state.groups, [rootId]: [...existing, revision] },
+    rootOf: {
+      ...state.rootOf,
+      [parent.id]: rootId,
+      [revision.id]: rootId,
+    },
+  };
+}
+
+/**
+ * Copies the parent's provenance (source, feedback link, votes) onto the
+ * freshly generated slide and numbers it within the version group
+ */
+export function buildSlideRevision(
+  state: SlideVersionState,
+  parent: SlideData,
+  generated: SlideData,
+  instruction: string
+): SlideData {
+  const versionCount = getSlideVersions(state, parent.id).length || 1;
+  return {
+    ...parent,
+    ...generated,
+    source: parent.source,
+    feedbackId: parent.feedbackId,
+    priority: parent.priority,
+    votes: parent.votes,
+    // A revision changes the design, not the facts it was grounded on
+    sources: parent.sources,
+    originalIdea: parent.originalIdea ?? generated.originalIdea,
+    isUploaded: undefined,
+    parentSlideId: parent.id,
+    version: versionCount + 1,
+    revisionInstruction: instruction,
+  };
+}
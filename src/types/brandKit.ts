@@ -0,0 +1,24 @@
+export type LogoPlacement = "top-left" | "top-right" | "bottom-left" | "bottom-right";
+
+export interface BrandColors {
+  primary: string;
+  secondary: string;
+  accent?: string;
+  background: string;
+  text: string;
+}
+
+// Session-level look every generated and native slide follows
+export interface BrandKit {
+  name?: string;
+  colors: BrandColors;
+  fonts?: {
+    heading?: string;
+    body?: string;
+  };
+  logo?: {
+    dataUrl: string;
+    placement: LogoPlacement;
+  };
+  toneKeywords?: string[];
+}
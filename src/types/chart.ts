@@ -0,0 +1,16 @@
+export type ChartType = "bar" | "line" | "pie";
+
+export interface ChartSeries {
+  name: string;
+  // One value per label, in label order
+  values: number[];
+}
+
+// Numbers the speaker stated, drawn natively instead of by the image model
+export interface ChartData {
+  type: ChartType;
+  labels: string[];
+  series: ChartSeries[];
+  // "%", a currency symbol, or a word such as "users"
+  unit?: string;
+}
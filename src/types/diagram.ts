@@ -0,0 +1,40 @@
+export type DiagramNodeShape = "rect" | "round" | "diamond";
+
+export interface DiagramNode {
+  id: string;
+  label: string;
+  shape: DiagramNodeShape;
+}
+
+export interface DiagramEdge {
+  from: string;
+  to: string;
+  label?: string;
+  style: "solid" | "dashed" | "thick";
+  // "---" links draw without an arrowhead
+  arrow: boolean;
+}
+
+export interface Flowchart {
+  kind: "flowchart";
+  direction: "LR" | "TB";
+  nodes: DiagramNode[];
+  edges: DiagramEdge[];
+}
+
+export interface SequenceMessage {
+  from: string;
+  to: string;
+  label: string;
+  // Replies ("-->>") draw dashed
+  dashed: boolean;
+}
+
+export interface SequenceDiagram {
+  kind: "sequence";
+  participants: { id: string; label: string }[];
+  messages: SequenceMessage[];
+}
+
+// Parsed from the Mermaid-style text the gate writes and the presenter can edit
+export type Diagram = Flowchart | SequenceDiagram;
@@ -0,0 +1,16 @@
+import type { SlideSource } from "@/types/slides";
+
+export type ClaimVerdict = "accurate" | "inaccurate" | "misleading" | "unverifiable";
+
+// A checkable statement from the live transcript, graded by the fact-check route.
+// Only the presenter sees these; they are never sent to the audience.
+export interface FactCheckClaim {
+  id: string;
+  claim: string;
+  verdict: ClaimVerdict;
+  explanation: string;
+  // What the accurate statement is; set for inaccurate and misleading claims
+  correction?: string;
+  sources?: SlideSource[];
+  checkedAt: string;
+}
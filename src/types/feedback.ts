@@ -10,4 +10,12 @@ export interface Feedback {
   sessionId: string;
   text: string;
   timestamp: string;
+  votes?: number;
+  // Only set when the session moderates submissions; unset means published directly
+  status?: "pending" | "approved" | "rejected";
+  rejectionReason?: string;
+  // What the audience member typed, kept when a moderator edits the text
+  originalText?: string;
+  // Why a published item was held back for review (e.g. a suspected prompt injection)
+  reviewReason?: string;
 }
@@ -0,0 +1,21 @@
+export type GateSensitivity = "low" | "medium" | "high";
+
+export type GateTone = "professional" | "conversational" | "bold" | "academic";
+
+// How eagerly and in what style the gate and exploratory routes make slides
+export interface GateProfile {
+  sensitivity: GateSensitivity;
+  // 0 means the gate may make slides back to back
+  minSecondsBetweenSlides: number;
+  // Empty means every category is allowed
+  allowedCategories: string[];
+  maxBullets: number;
+  tone: GateTone;
+  // Generations whose source transcript is older than this are discarded; 0 keeps them all
+  maxSlideAgeSeconds: number;
+}
+
+export interface GateProfilePreset {
+  name: string;
+  profile: GateProfile;
+}
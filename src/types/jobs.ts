@@ -0,0 +1,37 @@
+import type { SlideData } from "./slides";
+
+export type GenerationJobState = "queued" | "gating" | "generating" | "done" | "failed";
+
+// The error on a job cancelled for its age (see the gate profile's max slide age)
+export const STALE_JOB_ERROR = "The talk moved on before the slide was ready";
+
+// The gate's answer, as returned by /api/slide-gate
+export interface GenerationJobGateResult {
+  shouldCreateSlide: boolean;
+  reason?: string;
+  sectionId?: string | null;
+  conclusionIntent?: boolean;
+  slideContent?: {
+    headline: string;
+    category: string;
+    sourceTranscript: string;
+    [field: string]: unknown;
+  };
+}
+
+// One gate → content → image run, queued and executed on the server
+export interface GenerationJob {
+  id: string;
+  sessionId: string;
+  state: GenerationJobState;
+  // Known once the gate has written the slide
+  headline?: string;
+  createdAt: string;
+  updatedAt: string;
+  // Rough finish time from recent job durations; unset once the job has finished
+  estimatedDoneAt?: string;
+  gate?: GenerationJobGateResult;
+  // Rendered variants of the slide, set when a job is done
+  slides?: SlideData[];
+  error?: string;
+}
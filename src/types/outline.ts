@@ -0,0 +1,17 @@
+// One part of the talk the presenter plans to cover, loaded before starting
+export interface OutlineSection {
+  id: string;
+  title: string;
+  keyPoints: string[];
+  targetMinutes?: number;
+}
+
+export type SectionStatus = "done" | "current" | "upcoming";
+
+// Where the talk stands against one outline section
+export interface SectionProgress {
+  section: OutlineSection;
+  status: SectionStatus;
+  elapsedMs: number;
+  isOvertime: boolean;
+}
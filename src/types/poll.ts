@@ -0,0 +1,22 @@
+export interface PollOption {
+  id: string;
+  label: string;
+  votes: number;
+}
+
+export interface Poll {
+  id: string;
+  sessionId: string;
+  question: string;
+  options: PollOption[];
+  status: "open" | "closed";
+  createdAt: string;
+  closedAt?: string;
+}
+
+// Snapshot of a closed poll rendered natively as a results chart slide
+export interface PollResults {
+  question: string;
+  options: { label: string; votes: number }[];
+  totalVotes: number;
+}
@@ -0,0 +1,17 @@
+export const REACTION_EMOJIS = ["👍", "❤️", "😂", "😮", "👏"] as const;
+
+export type ReactionEmoji = (typeof REACTION_EMOJIS)[number];
+
+export type ReactionCounts = Partial<Record<ReactionEmoji, number>>;
+
+export interface Reaction {
+  id: string;
+  sessionId: string;
+  emoji: ReactionEmoji;
+  // Slide on screen when the reaction was sent, null before the first slide
+  slideId: string | null;
+  timestamp: string;
+}
+
+// Slide ID -> reaction counts for that slide
+export type ReactionTallies = Record<string, ReactionCounts>;
@@ -6,9 +6,12 @@ export interface SlideHistoryEntry {
 }
 
 export interface StyleReference {
+  slideId?: string;
   headline: string;
   visualDescription: string;
   category: string;
   slideNumber: number;
+  // Downscaled JPEG of the slide, sent to the image model as a visual reference
+  imageDataUrl?: string;
 }
 
@@ -1,3 +1,12 @@
+import type { PollResults } from "@/types/poll";
+import type { ChartData } from "@/types/chart";
+
+// A web page the model cited through search grounding
+export interface SlideSource {
+  title: string;
+  url: string;
+}
+
 export interface SlideData {
   id: string;
   imageUrl?: string;
@@ -13,6 +22,29 @@ export interface SlideData {
   };
   timestamp?: string;
   isUploaded?: boolean;
-  source?: "question" | "exploratory" | "slides";
+  source?: "question" | "exploratory" | "slides" | "poll" | "references";
+  // Audience question slides: originating feedback, gate priority and upvotes
+  feedbackId?: string;
+  priority?: "low" | "normal" | "high";
+  votes?: number;
+  // Poll results slides are drawn natively from this instead of an image
+  poll?: PollResults;
+  // Revised slides point back at the slide they were revised from
+  parentSlideId?: string;
+  version?: number;
+  revisionInstruction?: string;
+  // Layout direction this slide was generated with, when variants were requested
+  variantStyle?: string;
+  // Channel entries holding several variants of one idea; the entry mirrors variants[variantIndex]
+  variants?: SlideData[];
+  variantIndex?: number;
+  // Why the slide curator placed this slide among the exploratory options
+  curatorReasoning?: string;
+  // Pages the facts on this slide came from; the References slide lists them natively
+  sources?: SlideSource[];
+  // Data slides with stated numbers are drawn natively from this instead of the image
+  chart?: ChartData;
+  // Process slides drawn natively from Mermaid-style text the presenter can edit
+  diagram?: string;
 }
 
@@ -0,0 +1,9 @@
+import { NextResponse } from "next/server";
+
+/**
+ * Response for a request the client abandoned (a stale or stopped generation).
+ * Nobody reads it; 499 keeps it out of the 5xx error counts.
+ */
+export function abortedResponse() {
+  return NextResponse.json({ error: "Request cancelled" }, { status: 499 });
+}
@@ -0,0 +1,32 @@
+const imageCounts = new Map<string, number>();
+
+/**
+ * Max image-model generations per session from IMAGE_BUDGET_PER_SESSION.
+ * Unset or invalid means unlimited.
+ */
+export function getImageBudget(): number | null {
+  const raw = process.env.IMAGE_BUDGET_PER_SESSION;
+  if (!raw) return null;
+  const budget = Number.parseInt(raw, 10);
+  return Number.isFinite(budget) && budget >= 0 ? budget : null;
+}
+
+/**
+ * Counts one image generation against the key (usually the session ID)
+ * Returns false once the budget is used up
+ */
+export function consumeImageBudget(key: string): boolean {
+  const budget = getImageBudget();
+  if (budget === null) return true;
+
+  const used = imageCounts.get(key) ?? 0;
+  if (used >= budget) return false;
+
+  imageCounts.set(key, used + 1);
+  return true;
+}
+
+// Forgets a key's count, e.g. when its session ends
+export function releaseImageBudget(key: string): void {
+  imageCounts.delete(key);
+}
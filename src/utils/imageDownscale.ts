@@ -0,0 +1,34 @@
+/**
+ * Redraws an image at a smaller size as a JPEG data URL so it is cheap to
+ * send to the image model. Returns null if the image can't be loaded.
+ */
+export function downscaleImage(
+  src: string,
+  maxWidth = 512,
+  quality = 0.7
+): Promise<string | null> {
+  return new Promise((resolve) => {
+    const image = new Image();
+    image.onload = () => {
+      const scale = Math.min(1, maxWidth / (image.naturalWidth || maxWidth));
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.max(1, Math.round((image.naturalWidth || maxWidth) * scale));
+      canvas.height = Math.max(1, Math.round((image.naturalHeight || maxWidth * 0.5625) * scale));
+
+      const context = canvas.getContext("2d");
+      if (!context) {
+        resolve(null);
+        return;
+      }
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      try {
+        resolve(canvas.toDataURL("image/jpeg", quality));
+      } catch {
+        // Cross-origin images taint the canvas
+        resolve(null);
+      }
+    };
+    image.onerror = () => resolve(null);
+    image.src = src;
+  });
+}
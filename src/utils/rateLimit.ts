@@ -28,3 +28,20 @@ export function isRateLimited(key: string, limit: number, windowMs: number): boo
 
   return timestamps.length > limit;
 }
+
+/**
+ * Like isRateLimited, but doesn't count this request; call recordRequest once
+ * it succeeds, so rejected attempts don't use up the budget
+ */
+export function isOverLimit(key: string, limit: number, windowMs: number): boolean {
+  const windowStart = Date.now() - windowMs;
+  const timestamps = requestLog.get(key)?.filter((ts) => ts > windowStart) ?? [];
+  requestLog.set(key, timestamps);
+  return timestamps.length >= limit;
+}
+
+export function recordRequest(key: string): void {
+  const timestamps = requestLog.get(key) ?? [];
+  timestamps.push(Date.now());
+  requestLog.set(key, timestamps);
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { nanoid } from "nanoid";
+
+const VOTER_COOKIE = "slidequest_voter";
+const VOTER_ID_PATTERN = /^[A-Za-z0-9_-]{16}$/;
+// Sessions never outlive a day, so neither does the voter ID
+const VOTER_COOKIE_MAX_AGE_SECONDS = 24 * 60 * 60;
+
+/**
+ * Reads the voter ID the server issued to this device, or issues a new one.
+ * It lives in an HttpOnly cookie, so page scripts can't read or choose it.
+ */
+export function getVoterId(request: NextRequest): { voterId: string; issued: boolean } {
+  const existing = request.cookies.get(VOTER_COOKIE)?.value;
+  if (existing && VOTER_ID_PATTERN.test(existing)) {
+    return { voterId: existing, issued: false };
+  }
+  return { voterId: nanoid(16), issued: true };
+}
+
+export function setVoterCookie(response: NextResponse, voterId: string): NextResponse {
+  response.cookies.set(VOTER_COOKIE, voterId, {
+    httpOnly: true,
+    sameSite: "strict",
+    secure: process.env.NODE_ENV === "production",
+    path: "/api/sessions",
+    maxAge: VOTER_COOKIE_MAX_AGE_SECONDS,
+  });
+  return response;
+}